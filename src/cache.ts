@@ -0,0 +1,267 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import { defaultFileSystem, readFileSync } from "./files";
+import { AngularInfo, FileReader } from "./types";
+
+/** Version of the parse cache format; caches written with another version are discarded. */
+export const PARSE_CACHE_VERSION = 1;
+
+/** Modified time reported for files that do not exist. */
+export const MISSING_FILE_TIME = -1;
+
+/**
+ * Identifies the contents of a file when it was parsed.
+ */
+export interface FileStamp {
+  /** The file's last modified time in milliseconds. */
+  readonly mtime: number;
+  /** The SHA-256 hash of the file contents. */
+  readonly hash: string;
+}
+
+/**
+ * The Angular artifacts parsed from a file, with the stamps of the files they came from.
+ */
+export interface ParseCacheEntry {
+  /** The stamp of the parsed file. */
+  readonly stamp: FileStamp;
+  /** The stamps of the other files read while parsing, such as base classes and templates. */
+  readonly dependencies: Readonly<Record<string, FileStamp>>;
+  /** The parsed Angular artifacts. */
+  readonly infos: readonly AngularInfo[];
+}
+
+/**
+ * Parse results persisted between snippet generation runs, keyed by file path.
+ */
+export interface ParseCache {
+  /** The cache format version. */
+  readonly version: number;
+  /** The hash of the settings the entries were parsed with. */
+  readonly key: string;
+  /** The cached parse results by absolute file path. */
+  readonly entries: Record<string, ParseCacheEntry>;
+}
+
+/**
+ * Counts of the files parsed and reused during a snippet generation run.
+ */
+export interface ParseStats {
+  /** The number of files parsed because they changed or were not cached. */
+  readonly parsed: number;
+  /** The number of files whose cached parse results were reused. */
+  readonly cached: number;
+}
+
+/**
+ * File system operations used to check whether cached parse results are current.
+ */
+export interface CacheFileSystem {
+  /**
+   * Reads the contents of a file.
+   * @param filePath - The path to read.
+   * @returns The file contents or empty string on failure.
+   */
+  readFile(filePath: string): Promise<string>;
+
+  /**
+   * Gets the last modified time of a file.
+   * @param filePath - The path to check.
+   * @returns The modified time in milliseconds, or `MISSING_FILE_TIME` if the file does not exist.
+   */
+  getModifiedTime(filePath: string): Promise<number>;
+}
+
+/** Default cache file system implementation using Node.js fs module. */
+export const defaultCacheFileSystem: CacheFileSystem = {
+  readFile: defaultFileSystem.readFile,
+  getModifiedTime: async (filePath: string): Promise<number> => {
+    try {
+      return (await fs.promises.stat(filePath)).mtimeMs;
+    } catch {
+      return MISSING_FILE_TIME;
+    }
+  },
+};
+
+/**
+ * Hashes text with SHA-256.
+ * @param contents - The text to hash.
+ * @returns The hex-encoded hash.
+ */
+export const hashContents = (contents: string): string =>
+  crypto.createHash("sha256").update(contents).digest("hex");
+
+/**
+ * Creates an empty parse cache.
+ * @param key - The hash of the settings the entries will be parsed with.
+ * @returns The empty cache.
+ */
+export const createParseCache = (key: string): ParseCache => ({
+  version: PARSE_CACHE_VERSION,
+  key,
+  entries: {},
+});
+
+/**
+ * Reads a parse cache from its serialized JSON form.
+ * Caches written with another format version or settings key start over empty.
+ * @param contents - The serialized cache, or empty string if none was saved.
+ * @param key - The hash of the current settings.
+ * @returns The parse cache.
+ */
+export const readParseCache = (contents: string, key: string): ParseCache => {
+  try {
+    const data = JSON.parse(contents) as Partial<ParseCache> | null;
+    return data?.version === PARSE_CACHE_VERSION &&
+      data.key === key &&
+      typeof data.entries === "object" &&
+      data.entries
+      ? { version: PARSE_CACHE_VERSION, key, entries: data.entries }
+      : createParseCache(key);
+  } catch {
+    return createParseCache(key);
+  }
+};
+
+/**
+ * Stamps the current contents of a file.
+ * @param filePath - The file path.
+ * @param fileSystem - The file system to read from.
+ * @returns The file stamp.
+ */
+const createFileStamp = async (
+  filePath: string,
+  fileSystem: CacheFileSystem
+): Promise<FileStamp> => {
+  const [mtime, contents] = await Promise.all([
+    fileSystem.getModifiedTime(filePath),
+    fileSystem.readFile(filePath),
+  ]);
+  return { mtime, hash: hashContents(contents) };
+};
+
+/**
+ * Checks if a file still matches its stamp. An unchanged modified time is trusted
+ * without reading the file; otherwise the contents are hashed, so files that were
+ * touched but not edited still match.
+ * @param filePath - The file path.
+ * @param stamp - The stamp recorded when the file was parsed.
+ * @param fileSystem - The file system to read from.
+ * @returns True if the file is unchanged.
+ */
+const isStampCurrent = async (
+  filePath: string,
+  stamp: FileStamp,
+  fileSystem: CacheFileSystem
+): Promise<boolean> =>
+  (await fileSystem.getModifiedTime(filePath)) === stamp.mtime ||
+  hashContents(await fileSystem.readFile(filePath)) === stamp.hash;
+
+/**
+ * Checks if a cache entry is current: neither the parsed file nor any file read
+ * while parsing it has changed.
+ * @param filePath - The parsed file path.
+ * @param entry - The cache entry.
+ * @param fileSystem - The file system to read from.
+ * @returns True if the cached parse results can be reused.
+ */
+export const isEntryCurrent = async (
+  filePath: string,
+  entry: ParseCacheEntry,
+  fileSystem: CacheFileSystem
+): Promise<boolean> =>
+  (await isStampCurrent(filePath, entry.stamp, fileSystem)) &&
+  (
+    await Promise.all(
+      Object.entries(entry.dependencies).map(([dependency, stamp]) =>
+        isStampCurrent(dependency, stamp, fileSystem)
+      )
+    )
+  ).every(Boolean);
+
+/**
+ * Parses a file, reusing its cached results when the file and the files it read are unchanged.
+ * Otherwise loads the file through the file system, parses it with a reader that records the
+ * files read, and caches the new results.
+ * @param filePath - The absolute path of the file to parse.
+ * @param cache - The parse cache, updated with the new results.
+ * @param fileSystem - The file system to check and load files with.
+ * @param parse - Parses the file's Angular artifacts using the given reader.
+ * @param readFile - The synchronous reader the parser reads the file and related files with.
+ * @returns The parsed artifacts and whether they came from the cache.
+ */
+export const parseWithCache = async (
+  filePath: string,
+  cache: ParseCache,
+  fileSystem: CacheFileSystem,
+  parse: (readFile: FileReader) => AngularInfo[],
+  readFile: FileReader = readFileSync
+): Promise<{ infos: readonly AngularInfo[]; cached: boolean }> => {
+  const entry = cache.entries[filePath];
+  if (entry && (await isEntryCurrent(filePath, entry, fileSystem))) {
+    return { infos: entry.infos, cached: true };
+  }
+
+  await fileSystem.readFile(filePath);
+  const read = new Set<string>();
+  const infos = parse((readPath) => {
+    read.add(path.resolve(readPath));
+    return readFile(readPath);
+  });
+  read.delete(path.resolve(filePath));
+  const dependencies = [...read];
+  const [stamp, ...stamps] = await Promise.all(
+    [filePath, ...dependencies].map((stampPath) =>
+      createFileStamp(stampPath, fileSystem)
+    )
+  );
+  cache.entries[filePath] = {
+    stamp,
+    dependencies: Object.fromEntries(
+      dependencies.map((dependency, index) => [dependency, stamps[index]])
+    ),
+    infos,
+  };
+  return { infos, cached: false };
+};
+
+/**
+ * Removes the entries of files that no longer exist from a parse cache.
+ * @param cache - The parse cache.
+ * @param fileSystem - The file system to check.
+ * @returns The cache without entries for deleted files.
+ */
+export const pruneParseCache = async (
+  cache: ParseCache,
+  fileSystem: CacheFileSystem
+): Promise<ParseCache> => {
+  const entries = Object.entries(cache.entries);
+  const times = await Promise.all(
+    entries.map(([filePath]) => fileSystem.getModifiedTime(filePath))
+  );
+  return {
+    ...cache,
+    entries: Object.fromEntries(
+      entries.filter((_, index) => times[index] !== MISSING_FILE_TIME)
+    ),
+  };
+};
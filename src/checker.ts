@@ -0,0 +1,156 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import ts from "typescript";
+
+import { findTsConfigPath } from "./modules";
+import { ChoiceValue, FileReader } from "./types";
+
+/** Type flags of union members that never appear as snippet choices. */
+const NULLISH_TYPE_FLAGS =
+  ts.TypeFlags.Undefined | ts.TypeFlags.Null | ts.TypeFlags.Void;
+
+/**
+ * Reads the compiler options of a tsconfig.json file, following its `extends` chain.
+ * @param configPath - The tsconfig.json path, if one was found.
+ * @param readFile - The file reader used to read config files.
+ * @returns The compiler options or empty options if none could be read.
+ */
+const readCompilerOptions = (
+  configPath: string | undefined,
+  readFile: FileReader
+): ts.CompilerOptions => {
+  if (!configPath) {
+    return {};
+  }
+  const parsed = ts.getParsedCommandLineOfConfigFile(
+    configPath,
+    {},
+    {
+      ...ts.sys,
+      fileExists: (fileName) => !!readFile(fileName),
+      readFile: (fileName) => readFile(fileName) || undefined,
+      onUnRecoverableConfigFileDiagnostic: () => undefined,
+    }
+  );
+  return parsed?.options ?? {};
+};
+
+/**
+ * Creates a compiler host that reads source files through a file reader.
+ * Falls back to the default host for files the reader cannot provide (e.g., lib.d.ts).
+ * Directory probing is left to the reader, so every directory is assumed to exist.
+ * @param directory - The directory relative paths and type roots are resolved against.
+ * @param options - The compiler options.
+ * @param readFile - The file reader used to read source files.
+ * @returns The compiler host.
+ */
+const createCompilerHost = (
+  directory: string,
+  options: ts.CompilerOptions,
+  readFile: FileReader
+): ts.CompilerHost => {
+  const host = ts.createCompilerHost(options, true);
+  return {
+    ...host,
+    directoryExists: undefined,
+    getCurrentDirectory: () => directory,
+    fileExists: (fileName) => !!readFile(fileName) || host.fileExists(fileName),
+    readFile: (fileName) => readFile(fileName) || host.readFile(fileName),
+    getSourceFile: (fileName, languageVersion) => {
+      const text = readFile(fileName);
+      return text
+        ? ts.createSourceFile(fileName, text, languageVersion, true)
+        : host.getSourceFile(fileName, languageVersion);
+    },
+  };
+};
+
+/**
+ * Creates a program over the given files for type-checker-backed type resolution.
+ * Uses the compiler options of the tsconfig.json nearest to the directory.
+ * @param directory - The scanned directory.
+ * @param fileNames - The root files of the program.
+ * @param readFile - The file reader used to read source and config files.
+ * @returns The program.
+ */
+export const createTypeCheckProgram = (
+  directory: string,
+  fileNames: readonly string[],
+  readFile: FileReader
+): ts.Program => {
+  const options: ts.CompilerOptions = {
+    ...readCompilerOptions(findTsConfigPath(directory, readFile), readFile),
+    noEmit: true,
+  };
+  return ts.createProgram({
+    rootNames: fileNames,
+    options,
+    host: createCompilerHost(directory, options, readFile),
+  });
+};
+
+/**
+ * Gets the value of a string, number, or boolean literal type.
+ * @param type - The type to read.
+ * @param checker - The type checker.
+ * @returns The literal value or undefined if the type is not a literal.
+ */
+const getLiteralValue = (
+  type: ts.Type,
+  checker: ts.TypeChecker
+): ChoiceValue | undefined => {
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return type.value;
+  }
+  if (type.flags & ts.TypeFlags.BooleanLiteral) {
+    return checker.typeToString(type) === "true";
+  }
+  return undefined;
+};
+
+/**
+ * Resolves the literal values a type allows, such as string-literal unions and enums.
+ * Plain booleans are left to the default boolean choices.
+ * @param typeNode - The declared type node.
+ * @param program - The program the type node belongs to.
+ * @returns The allowed values, or an empty array if the type is not a closed set of literals.
+ */
+export const getTypeChoices = (
+  typeNode: ts.TypeNode | undefined,
+  program: ts.Program | undefined
+): ChoiceValue[] => {
+  const sourceFile = typeNode?.getSourceFile();
+  if (
+    !typeNode ||
+    !sourceFile ||
+    program?.getSourceFile(sourceFile.fileName) !== sourceFile
+  ) {
+    return [];
+  }
+
+  const checker = program.getTypeChecker();
+  const type = checker.getTypeFromTypeNode(typeNode);
+  const values = (type.isUnion() ? type.types : [type])
+    .filter((member) => !(member.flags & NULLISH_TYPE_FLAGS))
+    .map((member) => getLiteralValue(member, checker));
+
+  return values.length > 0 &&
+    values.every((value) => value !== undefined) &&
+    !values.every((value) => typeof value === "boolean")
+    ? values
+    : [];
+};
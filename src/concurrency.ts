@@ -0,0 +1,89 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CancellationSignal } from "./types";
+
+/** Default number of file system operations run at the same time. */
+export const DEFAULT_CONCURRENCY = 16;
+
+/**
+ * Error thrown when the user cancels a long-running operation.
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super("Operation cancelled.");
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Throws if the user asked to cancel the current operation.
+ * @param token - The cancellation signal, if any.
+ * @throws CancelledError if cancellation was requested.
+ */
+export const throwIfCancelled = (token?: CancellationSignal): void => {
+  if (token?.isCancellationRequested) {
+    throw new CancelledError();
+  }
+};
+
+/**
+ * Lets pending I/O callbacks and UI events run before continuing synchronous work.
+ * @returns A promise resolved on the next turn of the event loop.
+ */
+export const yieldToEventLoop = (): Promise<void> =>
+  new Promise((resolve) => setImmediate(resolve));
+
+/** Runs an async task once a concurrency slot is free. */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `limit` tasks at a time, starting queued tasks
+ * in the order they were submitted.
+ * @param limit - The maximum number of running tasks.
+ * @returns The limiter.
+ */
+export const createLimiter = (limit = DEFAULT_CONCURRENCY): Limiter => {
+  const queue: (() => void)[] = [];
+  let running = 0;
+
+  const acquire = async (): Promise<void> => {
+    if (running < limit) {
+      running += 1;
+      return;
+    }
+    // The releasing task hands its slot over, so the count stays unchanged
+    await new Promise<void>((resolve) => queue.push(resolve));
+  };
+
+  const release = (): void => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      running -= 1;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+};
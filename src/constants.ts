@@ -21,6 +21,34 @@ export enum SnippetLocation {
   ASK = "ask",
 }
 
+/** Placement options for inputs that declare a default value. */
+export enum DefaultInputPlacement {
+  INCLUDE = "include",
+  LAST = "last",
+  OMIT = "omit",
+}
+
+/** How bindings marked `@deprecated` are handled in generated snippets. */
+export enum DeprecatedBindingHandling {
+  WARN = "warn",
+  OMIT = "omit",
+}
+
+/** How Angular source files are discovered in a folder. */
+export enum FileDiscovery {
+  SUFFIX = "suffix",
+  CONTENT = "content",
+}
+
+/** Angular roles a custom decorator can be mapped to. */
+export enum DecoratorRole {
+  COMPONENT = "component",
+  DIRECTIVE = "directive",
+  PIPE = "pipe",
+  INPUT = "input",
+  OUTPUT = "output",
+}
+
 /** Angular artifact type discriminators. */
 export enum ArtifactKind {
   COMPONENT = "component",
@@ -32,6 +60,12 @@ export enum ArtifactKind {
 export enum ConfigKey {
   SECTION = "angularSnippetGenerator",
   SNIPPET_LOCATION = "snippetLocation",
+  TYPE_CHECKING = "typeChecking",
+  INPUTS_WITH_DEFAULTS = "inputsWithDefaults",
+  SPLIT_BINDING_VARIANT = "splitBindingVariant",
+  FILE_DISCOVERY = "fileDiscovery",
+  CUSTOM_DECORATORS = "customDecorators",
+  DEPRECATED_BINDINGS = "deprecatedBindings",
 }
 
 /** File system paths and names. */
@@ -42,6 +76,12 @@ export enum Path {
   SNIPPETS_DIR = "snippets",
   CONFIG_DIR = ".config",
   APPDATA_ENV = "APPDATA",
+  TSCONFIG_FILE = "tsconfig.json",
+  INDEX_FILE = "index.ts",
+  DECLARATION_INDEX_FILE = "index.d.ts",
+  NODE_MODULES_DIR = "node_modules",
+  PACKAGE_JSON_FILE = "package.json",
+  PARSE_CACHE_FILE = "parse-cache.json",
 }
 
 /** Filename for generated Angular code snippets. */
@@ -18,19 +18,59 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
+import ts from "typescript";
 import * as vscode from "vscode";
 
 import {
+  defaultCacheFileSystem,
+  hashContents,
+  ParseCache,
+  ParseStats,
+  parseWithCache,
+  pruneParseCache,
+  readParseCache,
+} from "./cache";
+import { createTypeCheckProgram } from "./checker";
+import {
+  CancelledError,
+  createLimiter,
+  throwIfCancelled,
+  yieldToEventLoop,
+} from "./concurrency";
+import {
+  ArtifactKind,
   ConfigKey,
+  DefaultInputPlacement,
+  DeprecatedBindingHandling,
+  FileDiscovery,
   Path,
   Platform,
   SnippetLocation,
   SNIPPETS_FILENAME,
 } from "./constants";
-import { getFileContents, getSupportedFiles } from "./files";
-import { parseAngularFile } from "./parser";
+import {
+  createFileCache,
+  createSourceFileCache,
+  defaultFileSystem,
+  getDeclarationFiles,
+  getSupportedFiles,
+  limitFileSystem,
+  readFileSync,
+} from "./files";
+import {
+  AngularPackage,
+  findAngularPackages,
+  findNodeModulesDir,
+} from "./packages";
+import { parseAngularFile, parseDeclarationFile } from "./parser";
 import { createSnippet } from "./snippet";
-import { Snippet } from "./types";
+import {
+  AngularInfo,
+  CustomDecorators,
+  FileReader,
+  Snippet,
+  SnippetOptions,
+} from "./types";
 
 /** Quick pick items for location selection. */
 interface LocationQuickPickItem extends vscode.QuickPickItem {
@@ -39,6 +79,34 @@ interface LocationQuickPickItem extends vscode.QuickPickItem {
     | typeof SnippetLocation.USER;
 }
 
+/** Quick pick items for installed Angular library selection. */
+interface PackageQuickPickItem extends vscode.QuickPickItem {
+  readonly angularPackage: AngularPackage;
+}
+
+/** Result of generating snippets from a set of files. */
+interface GeneratedSnippets {
+  readonly snippets: Record<string, unknown>;
+  readonly count: number;
+  readonly stats?: ParseStats;
+}
+
+/** Progress reported while scanning for files and generating snippets. */
+type GenerationProgress = vscode.Progress<{
+  message?: string;
+  increment?: number;
+}>;
+
+/** Where the parse cache is stored and the extension version its entries were parsed with. */
+interface ParseCacheConfig {
+  readonly path: string;
+  readonly version: string;
+}
+
+/** Message shown when the user cancels generation. */
+const CANCELLED_MESSAGE =
+  "Snippet generation cancelled. No snippets were written.";
+
 /**
  * Gets the VS Code user snippets directory path based on the current platform.
  * @returns The path to the user snippets directory.
@@ -101,6 +169,55 @@ const getSnippetLocationConfig = (): SnippetLocation => {
   );
 };
 
+/**
+ * Gets whether type-checker-backed type resolution is enabled.
+ * @returns True if type checking is enabled.
+ */
+const getTypeCheckingConfig = (): boolean =>
+  vscode.workspace
+    .getConfiguration(ConfigKey.SECTION)
+    .get<boolean>(ConfigKey.TYPE_CHECKING, false);
+
+/**
+ * Gets how Angular files are discovered from the configuration.
+ * @returns The file discovery mode.
+ */
+const getFileDiscoveryConfig = (): FileDiscovery =>
+  vscode.workspace
+    .getConfiguration(ConfigKey.SECTION)
+    .get<FileDiscovery>(ConfigKey.FILE_DISCOVERY, FileDiscovery.SUFFIX);
+
+/**
+ * Gets the custom decorators mapped to Angular roles from the configuration.
+ * @returns The custom decorator mapping.
+ */
+const getCustomDecoratorsConfig = (): CustomDecorators =>
+  vscode.workspace
+    .getConfiguration(ConfigKey.SECTION)
+    .get<CustomDecorators>(ConfigKey.CUSTOM_DECORATORS, {});
+
+/**
+ * Gets the snippet generation options from the configuration.
+ * @returns The snippet options.
+ */
+const getSnippetOptionsConfig = (): SnippetOptions => {
+  const config = vscode.workspace.getConfiguration(ConfigKey.SECTION);
+  return {
+    inputsWithDefaults: config.get<DefaultInputPlacement>(
+      ConfigKey.INPUTS_WITH_DEFAULTS,
+      DefaultInputPlacement.INCLUDE
+    ),
+    splitBindingVariant: config.get<boolean>(
+      ConfigKey.SPLIT_BINDING_VARIANT,
+      false
+    ),
+    deprecatedBindings: config.get<DeprecatedBindingHandling>(
+      ConfigKey.DEPRECATED_BINDINGS,
+      DeprecatedBindingHandling.WARN
+    ),
+  };
+};
+
 /**
  * Prompts the user to select where to save snippets.
  * @param hasWorkspace - Whether a workspace is available.
@@ -135,6 +252,32 @@ const promptForLocation = async (
   return selected?.location;
 };
 
+/**
+ * Prompts the user to select the installed Angular libraries to generate snippets for.
+ * @param packages - The installed Angular libraries.
+ * @returns The selected libraries or undefined if cancelled.
+ */
+const promptForPackages = async (
+  packages: readonly AngularPackage[]
+): Promise<AngularPackage[] | undefined> => {
+  const selected = await vscode.window.showQuickPick(
+    packages.map(
+      (angularPackage): PackageQuickPickItem => ({
+        label: angularPackage.name,
+        description: angularPackage.version,
+        angularPackage,
+      })
+    ),
+    {
+      canPickMany: true,
+      placeHolder: "Which libraries would you like to generate snippets for?",
+      title: "Select Angular Libraries",
+    }
+  );
+
+  return selected?.map((item) => item.angularPackage);
+};
+
 /**
  * Determines the snippets directory based on configuration and context.
  * @param uri - The URI of the selected folder.
@@ -216,30 +359,316 @@ const saveSnippets = (
   return snippetsPath;
 };
 
+/**
+ * Adds the snippets of parsed Angular artifacts to a snippets object.
+ * @param snippets - The snippets object to add to.
+ * @param angularInfos - The parsed Angular artifacts.
+ * @param options - The snippet generation options.
+ * @returns The number of artifacts a snippet was generated for.
+ */
+const addSnippets = (
+  snippets: Record<string, unknown>,
+  angularInfos: readonly AngularInfo[],
+  options: SnippetOptions
+): number => {
+  let count = 0;
+  for (const angularInfo of angularInfos) {
+    const snippet = createSnippet(angularInfo, options);
+    if (snippet) {
+      Object.assign(snippets, snippet);
+      count++;
+    }
+  }
+  return count;
+};
+
+/**
+ * Gets the parse cache settings for the extension, storing the cache in the
+ * workspace storage folder, or the global storage folder when no workspace is open.
+ * @param context - The VS Code extension context.
+ * @returns The parse cache settings.
+ */
+const getParseCacheConfig = (
+  context: vscode.ExtensionContext
+): ParseCacheConfig => ({
+  path: path.join(
+    (context.storageUri ?? context.globalStorageUri).fsPath,
+    Path.PARSE_CACHE_FILE
+  ),
+  version: String(
+    (context.extension.packageJSON as { version?: string }).version
+  ),
+});
+
+/**
+ * Saves a parse cache, dropping the entries of deleted files.
+ * @param cachePath - The path to the cache file.
+ * @param cache - The parse cache.
+ */
+const saveParseCache = async (
+  cachePath: string,
+  cache: ParseCache
+): Promise<void> => {
+  const pruned = await pruneParseCache(cache, defaultCacheFileSystem);
+  ensureDirectoryExists(path.dirname(cachePath));
+  await fs.promises.writeFile(cachePath, JSON.stringify(pruned));
+};
+
+/**
+ * Gets a glob pattern matching the files in the folder of a source file, so that
+ * component-scoped snippets are only offered in that component's templates.
+ * The folder is written relative to the parent of the scanned directory, so scanning
+ * `src/app` scopes a component in `src/app/card` to the `app/card` folder.
+ * @param dirPath - The scanned directory.
+ * @param filePath - The source file path.
+ * @returns The glob pattern.
+ */
+const getFolderGlob = (dirPath: string, filePath: string): string => {
+  const folder = path
+    .relative(path.dirname(path.resolve(dirPath)), path.dirname(filePath))
+    .split(path.sep)
+    .join("/");
+  return folder ? `**/${folder}/**` : "**";
+};
+
+/**
+ * Scopes the animation snippets of a source file's components to the file's folder.
+ * Only animation snippets carry an `include` pattern, so the options are left unchanged
+ * for files whose components declare no animation triggers.
+ * @param options - The snippet generation options.
+ * @param infos - The Angular info parsed from the file.
+ * @param dirPath - The scanned directory.
+ * @param filePath - The source file path.
+ * @returns The snippet options for the file.
+ */
+const scopeAnimationSnippets = (
+  options: SnippetOptions,
+  infos: readonly AngularInfo[],
+  dirPath: string,
+  filePath: string
+): SnippetOptions =>
+  infos.some(
+    (info) =>
+      info.kind === ArtifactKind.COMPONENT && !!info.animationTriggers?.length
+  )
+    ? { ...options, include: [getFolderGlob(dirPath, filePath)] }
+    : options;
+
+/**
+ * Parses files a bounded number at a time, reporting each parsed file as a share of the
+ * progress bar. Parsing is synchronous, so each parse first yields to the event loop to
+ * keep progress and cancellation responsive, and stops once cancellation is requested.
+ * @param filePaths - The files to parse.
+ * @param parse - Loads and parses a file from its path.
+ * @param progress - The progress to report to.
+ * @param token - The cancellation signal.
+ * @returns The parse results, in file order.
+ * @throws CancelledError if cancellation was requested.
+ */
+const parseFiles = <T>(
+  filePaths: readonly string[],
+  parse: (filePath: string) => Promise<T>,
+  progress: GenerationProgress,
+  token: vscode.CancellationToken
+): Promise<T[]> => {
+  const limit = createLimiter();
+  let parsed = 0;
+  return Promise.all(
+    filePaths.map((filePath) =>
+      limit(async () => {
+        await yieldToEventLoop();
+        throwIfCancelled(token);
+        const result = await parse(filePath);
+        parsed += 1;
+        progress.report({
+          message: `Parsed ${parsed} of ${filePaths.length} file(s)`,
+          increment: 100 / filePaths.length,
+        });
+        return result;
+      })
+    )
+  );
+};
+
+/**
+ * Creates the type-checking program for a directory once pending events have run.
+ * Building the program is synchronous, so cancellation is checked just before it starts.
+ * @param dirPath - The scanned directory.
+ * @param angularFiles - The Angular files to include as root files.
+ * @param readFile - Reads files already loaded during discovery.
+ * @param progress - The progress to report to.
+ * @param token - The cancellation signal.
+ * @returns The type-checking program.
+ * @throws CancelledError if cancellation was requested.
+ */
+const createTypeCheckProgramWithProgress = async (
+  dirPath: string,
+  angularFiles: readonly string[],
+  readFile: FileReader,
+  progress: GenerationProgress,
+  token: vscode.CancellationToken
+): Promise<ts.Program> => {
+  progress.report({ message: "Type checking" });
+  await yieldToEventLoop();
+  throwIfCancelled(token);
+  return createTypeCheckProgram(dirPath, angularFiles, readFile);
+};
+
 /**
  * Generates Angular code snippets from a directory of Angular files.
  * Supports components, directives, and pipes.
+ * When type checking is enabled, a program over the folder resolves input types.
+ * Files read while discovering Angular files are cached for parsing, and files parsed
+ * while resolving base classes and imports are parsed once per scan.
+ * Unchanged files reuse the results persisted in the parse cache; type-checked
+ * results depend on the whole program, so they are always re-parsed.
  * @param dirPath - The directory path to scan for Angular files.
- * @returns Object containing the generated snippets and count.
+ * @param cacheConfig - The parse cache settings.
+ * @param progress - The progress to report scanned and parsed files to.
+ * @param token - The cancellation signal that aborts the scan.
+ * @returns Object containing the generated snippets, count and parse stats.
+ * @throws CancelledError if cancellation was requested.
  */
-const generateSnippetsFromDirectory = (
-  dirPath: string
-): { snippets: Record<string, unknown>; count: number } => {
-  const angularFiles = getSupportedFiles(dirPath);
+const generateSnippetsFromDirectory = async (
+  dirPath: string,
+  cacheConfig: ParseCacheConfig,
+  progress: GenerationProgress,
+  token: vscode.CancellationToken
+): Promise<GeneratedSnippets> => {
+  const fileSystem = limitFileSystem(defaultFileSystem);
+  const files = createFileCache(fileSystem);
+  const customDecorators = getCustomDecoratorsConfig();
+  progress.report({ message: "Scanning for Angular files" });
+  const angularFiles = await getSupportedFiles(
+    dirPath,
+    { ...fileSystem, readFile: files.load },
+    getFileDiscoveryConfig(),
+    Object.keys(customDecorators),
+    token
+  );
+  const program = getTypeCheckingConfig()
+    ? await createTypeCheckProgramWithProgress(
+        dirPath,
+        angularFiles,
+        files.read,
+        progress,
+        token
+      )
+    : undefined;
+  const options = getSnippetOptionsConfig();
+  const loadSourceFile = createSourceFileCache();
+  const cacheFileSystem = { ...defaultCacheFileSystem, readFile: files.load };
+  const cache = program
+    ? undefined
+    : readParseCache(
+        await defaultFileSystem.readFile(cacheConfig.path),
+        hashContents(
+          JSON.stringify({ version: cacheConfig.version, customDecorators })
+        )
+      );
+
+  const results = await parseFiles(
+    angularFiles,
+    async (filePath) => {
+      const parse = (fileReader: FileReader): AngularInfo[] =>
+        parseAngularFile(fileReader(filePath), {
+          filePath,
+          readFile: fileReader,
+          program,
+          loadSourceFile,
+          customDecorators,
+        });
+      if (cache) {
+        // Unchanged files are reused from their modified time without being read
+        return parseWithCache(
+          filePath,
+          cache,
+          cacheFileSystem,
+          parse,
+          files.read
+        );
+      }
+      await files.load(filePath);
+      throwIfCancelled(token);
+      return { infos: parse(files.read), cached: false };
+    },
+    progress,
+    token
+  );
+
   const snippets: Record<string, unknown> = {};
   let count = 0;
+  results.forEach((result, index) => {
+    count += addSnippets(
+      snippets,
+      result.infos,
+      scopeAnimationSnippets(
+        options,
+        result.infos,
+        dirPath,
+        angularFiles[index]
+      )
+    );
+  });
 
-  for (const filePath of angularFiles) {
-    const fileContents = getFileContents(filePath);
-    const angularInfo = parseAngularFile(fileContents);
+  if (cache) {
+    await saveParseCache(cacheConfig.path, cache);
+  }
+  const cached = results.filter((result) => result.cached).length;
+  return {
+    snippets,
+    count,
+    stats: { parsed: angularFiles.length - cached, cached },
+  };
+};
 
-    if (angularInfo) {
-      const snippet = createSnippet(angularInfo);
-      if (snippet) {
-        Object.assign(snippets, snippet);
-        count++;
-      }
-    }
+/**
+ * Generates Angular code snippets from the declaration files of compiled Angular libraries.
+ * @param packages - The installed libraries to read.
+ * @param progress - The progress to report scanned and parsed files to.
+ * @param token - The cancellation signal that aborts the scan.
+ * @returns Object containing the generated snippets and count.
+ * @throws CancelledError if cancellation was requested.
+ */
+const generateSnippetsFromPackages = async (
+  packages: readonly AngularPackage[],
+  progress: GenerationProgress,
+  token: vscode.CancellationToken
+): Promise<GeneratedSnippets> => {
+  const fileSystem = limitFileSystem(defaultFileSystem);
+  const files = createFileCache(fileSystem);
+  progress.report({ message: "Scanning libraries" });
+  const declarationFiles = await Promise.all(
+    packages.map((angularPackage) =>
+      getDeclarationFiles(
+        angularPackage.path,
+        { ...fileSystem, readFile: files.load },
+        token
+      )
+    )
+  );
+  const options = getSnippetOptionsConfig();
+  const loadSourceFile = createSourceFileCache();
+
+  const results = await parseFiles(
+    declarationFiles.flat(),
+    async (filePath) => {
+      const contents = await files.load(filePath);
+      throwIfCancelled(token);
+      return parseDeclarationFile(contents, {
+        filePath,
+        readFile: files.read,
+        loadSourceFile,
+      });
+    },
+    progress,
+    token
+  );
+
+  const snippets: Record<string, unknown> = {};
+  let count = 0;
+  for (const infos of results) {
+    count += addSnippets(snippets, infos, options);
   }
 
   return { snippets, count };
@@ -261,11 +690,142 @@ export const mergeSnippet = (
   return accumulated;
 };
 
+/**
+ * Saves generated snippets and reports the outcome to the user.
+ * @param generated - The generated snippets and count.
+ * @param snippetsDir - The directory to save snippets to.
+ * @param emptyMessage - The warning shown when no snippets were generated.
+ */
+const writeGeneratedSnippets = (
+  generated: GeneratedSnippets,
+  snippetsDir: string,
+  emptyMessage: string
+): void => {
+  const { snippets, count, stats } = generated;
+  if (count === 0) {
+    vscode.window.showWarningMessage(emptyMessage);
+    return;
+  }
+
+  const snippetsPath = saveSnippets(snippets, snippetsDir);
+  const isWorkspace = snippetsDir.includes(Path.VSCODE_DIR);
+  const locationLabel = isWorkspace ? "workspace .vscode" : "user snippets";
+
+  const parsed = stats
+    ? ` (re-parsed ${stats.parsed} of ${stats.parsed + stats.cached} file(s))`
+    : "";
+
+  vscode.window.showInformationMessage(
+    `Generated ${count} Angular code snippet(s) to ${locationLabel}: ${snippetsPath}${parsed}`
+  );
+};
+
+/**
+ * Reports a snippet generation failure to the user.
+ * @param error - The error thrown while generating snippets.
+ */
+const showGenerationError = (error: unknown): void => {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  vscode.window.showErrorMessage(`Failed to generate snippets: ${message}`);
+};
+
+/**
+ * Runs a long-running task behind a progress notification with a Cancel button.
+ * @param title - The notification title.
+ * @param task - Runs the task, reporting progress and honoring cancellation.
+ * @returns The task result, or undefined if the user cancelled.
+ */
+const runWithProgress = <T>(
+  title: string,
+  task: (
+    progress: GenerationProgress,
+    token: vscode.CancellationToken
+  ) => Promise<T>
+): Thenable<T | undefined> =>
+  vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      try {
+        const result = await task(progress, token);
+        throwIfCancelled(token);
+        return result;
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          return undefined;
+        }
+        throw error;
+      }
+    }
+  );
+
+/**
+ * Runs snippet generation behind a progress notification with a Cancel button.
+ * Cancelling aborts the scan before anything is written.
+ * @param generate - Generates the snippets, reporting progress and honoring cancellation.
+ * @returns The generated snippets, or undefined if the user cancelled.
+ */
+const generateWithProgress = (
+  generate: (
+    progress: GenerationProgress,
+    token: vscode.CancellationToken
+  ) => Promise<GeneratedSnippets>
+): Thenable<GeneratedSnippets | undefined> =>
+  runWithProgress("Generating Angular snippets", generate);
+
+/**
+ * Saves snippets generated behind a progress notification, unless the user cancelled.
+ * @param generated - The generated snippets, or undefined if the user cancelled.
+ * @param snippetsDir - The directory to save snippets to.
+ * @param emptyMessage - The warning shown when no snippets were generated.
+ */
+const writeUnlessCancelled = (
+  generated: GeneratedSnippets | undefined,
+  snippetsDir: string,
+  emptyMessage: string
+): void => {
+  if (!generated) {
+    vscode.window.showInformationMessage(CANCELLED_MESSAGE);
+    return;
+  }
+  writeGeneratedSnippets(generated, snippetsDir, emptyMessage);
+};
+
+/**
+ * Finds the Angular libraries installed in a workspace behind a progress notification.
+ * Package manifests are read with bounded concurrency so large node_modules folders
+ * do not run out of file handles.
+ * @param folderPath - The workspace folder path.
+ * @returns The Angular packages, or undefined if the user cancelled.
+ */
+const findPackagesWithProgress = (
+  folderPath: string
+): Thenable<AngularPackage[] | undefined> => {
+  const nodeModulesDir = findNodeModulesDir(folderPath, readFileSync);
+  return nodeModulesDir
+    ? runWithProgress("Finding Angular libraries", (progress, token) => {
+        progress.report({ message: "Scanning node_modules" });
+        return findAngularPackages(
+          nodeModulesDir,
+          limitFileSystem(defaultFileSystem),
+          token
+        );
+      })
+    : Promise.resolve([]);
+};
+
 /**
  * Command handler for creating Angular code snippets from a directory.
  * @param uri - The URI of the selected folder.
+ * @param cacheConfig - The parse cache settings.
  */
-const createSnippetsCommand = async (uri: vscode.Uri): Promise<void> => {
+const createSnippetsCommand = async (
+  uri: vscode.Uri,
+  cacheConfig: ParseCacheConfig
+): Promise<void> => {
   if (!uri?.fsPath) {
     vscode.window.showErrorMessage(
       "Please select a folder to generate snippets from."
@@ -279,25 +839,85 @@ const createSnippetsCommand = async (uri: vscode.Uri): Promise<void> => {
       return; // User cancelled the location prompt
     }
 
-    const { snippets, count } = generateSnippetsFromDirectory(uri.fsPath);
+    writeUnlessCancelled(
+      await generateWithProgress((progress, token) =>
+        generateSnippetsFromDirectory(uri.fsPath, cacheConfig, progress, token)
+      ),
+      snippetsDir,
+      "No Angular component files found in the selected directory."
+    );
+  } catch (error) {
+    showGenerationError(error);
+  }
+};
+
+/**
+ * Command handler for creating Angular code snippets from installed Angular libraries.
+ * Lists the packages in the workspace's node_modules that depend on `@angular/core`
+ * and reads the Ivy metadata in the declaration files of the selected ones.
+ * @param uri - The URI of the selected folder, defaulting to the first workspace folder.
+ */
+const createLibrarySnippetsCommand = async (
+  uri?: vscode.Uri
+): Promise<void> => {
+  const folder = uri ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+  if (!folder?.fsPath) {
+    vscode.window.showErrorMessage(
+      "Please open an Angular workspace to generate library snippets from."
+    );
+    return;
+  }
 
-    if (count === 0) {
+  try {
+    const packages = await findPackagesWithProgress(folder.fsPath);
+    if (!packages) {
+      vscode.window.showInformationMessage(CANCELLED_MESSAGE);
+      return;
+    }
+    if (packages.length === 0) {
       vscode.window.showWarningMessage(
-        "No Angular component files found in the selected directory."
+        "No installed Angular libraries found in node_modules."
       );
       return;
     }
 
-    const snippetsPath = saveSnippets(snippets, snippetsDir);
-    const isWorkspace = snippetsDir.includes(Path.VSCODE_DIR);
-    const locationLabel = isWorkspace ? "workspace .vscode" : "user snippets";
+    const selected = await promptForPackages(packages);
+    if (!selected?.length) {
+      return; // User cancelled the library prompt
+    }
+
+    const snippetsDir = await resolveSnippetsDirectory(folder);
+    if (!snippetsDir) {
+      return; // User cancelled the location prompt
+    }
+
+    writeUnlessCancelled(
+      await generateWithProgress((progress, token) =>
+        generateSnippetsFromPackages(selected, progress, token)
+      ),
+      snippetsDir,
+      "No Angular components, directives or pipes found in the selected libraries."
+    );
+  } catch (error) {
+    showGenerationError(error);
+  }
+};
 
+/**
+ * Command handler for clearing the parse cache, so the next run re-parses every file.
+ * @param cacheConfig - The parse cache settings.
+ */
+const clearParseCacheCommand = (cacheConfig: ParseCacheConfig): void => {
+  try {
+    fs.rmSync(cacheConfig.path, { force: true });
     vscode.window.showInformationMessage(
-      `Generated ${count} Angular code snippet(s) to ${locationLabel}: ${snippetsPath}`
+      "Cleared the Angular snippet parse cache."
     );
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    vscode.window.showErrorMessage(`Failed to generate snippets: ${message}`);
+    vscode.window.showErrorMessage(
+      `Failed to clear the parse cache: ${message}`
+    );
   }
 };
 
@@ -306,11 +926,21 @@ const createSnippetsCommand = async (uri: vscode.Uri): Promise<void> => {
  * @param context - The VS Code extension context.
  */
 export function activate(context: vscode.ExtensionContext): void {
-  const disposable = vscode.commands.registerCommand(
-    "angular-snippet-generator.createSnippets",
-    createSnippetsCommand
+  const cacheConfig = getParseCacheConfig(context);
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "angular-snippet-generator.createSnippets",
+      (uri: vscode.Uri) => createSnippetsCommand(uri, cacheConfig)
+    ),
+    vscode.commands.registerCommand(
+      "angular-snippet-generator.createLibrarySnippets",
+      createLibrarySnippetsCommand
+    ),
+    vscode.commands.registerCommand(
+      "angular-snippet-generator.clearParseCache",
+      () => clearParseCacheCommand(cacheConfig)
+    )
   );
-  context.subscriptions.push(disposable);
 }
 
 /**
@@ -17,6 +17,17 @@
 import fs from "node:fs";
 import path from "node:path";
 
+import type ts from "typescript";
+
+import {
+  createLimiter,
+  DEFAULT_CONCURRENCY,
+  throwIfCancelled,
+} from "./concurrency";
+import { FileDiscovery, Path } from "./constants";
+import * as nodes from "./nodes";
+import { CancellationSignal, FileReader, SourceFileLoader } from "./types";
+
 /** Supported file extensions for processing. */
 export const SUPPORTED_EXTENSIONS = [".ts"] as const;
 
@@ -33,6 +44,32 @@ export const ANGULAR_SUFFIXES: string[] = [
 /** Type for Angular file suffixes. */
 export type AngularSuffix = (typeof ANGULAR_SUFFIXES)[number];
 
+/** Suffix of TypeScript declaration files, as shipped by compiled libraries. */
+export const DECLARATION_SUFFIX = ".d.ts";
+
+/** Suffixes of TypeScript files that never declare Angular artifacts to snippet. */
+export const EXCLUDED_SUFFIXES: string[] = [
+  ".spec.ts",
+  DECLARATION_SUFFIX,
+] as const;
+
+/**
+ * Matches an Angular class decorator call, used to pre-filter files before parsing.
+ * Also matches namespaced (`@ng.Component(`) and suffixed alias (`@NgComponent(`) forms.
+ */
+const ANGULAR_DECORATOR_PATTERN = /@[\w$.]*(?:Component|Directive|Pipe)\s*\(/;
+
+/** Matches a named import from `@angular/core`, capturing its import specifiers. */
+const ANGULAR_CORE_IMPORT_PATTERN =
+  /import\s*(?:type\s+)?\{([^}]*)\}\s*from\s*["']@angular\/core["']/g;
+
+/** Matches an Angular class decorator imported under another name, capturing the alias. */
+const DECORATOR_ALIAS_PATTERN =
+  /\b(?:Component|Directive|Pipe)\s+as\s+([\w$]+)/g;
+
+/** Matches an Ivy declaration type, used to pre-filter declaration files before parsing. */
+const IVY_DECLARATION_PATTERN = /ɵɵ(?:Component|Directive|Pipe)Declaration\s*</;
+
 /**
  * File system abstraction interface for dependency injection.
  * Enables testing and alternative implementations.
@@ -43,27 +80,59 @@ export interface FileSystemProvider {
    * @param filePath - The path to read.
    * @returns The file contents or empty string on failure.
    */
-  readFile(filePath: string): string;
+  readFile(filePath: string): Promise<string>;
 
   /**
    * Lists directory entries.
    * @param dirPath - The directory to list.
    * @returns Array of directory entries.
    */
-  readDir(dirPath: string): fs.Dirent[];
+  readDir(dirPath: string): Promise<fs.Dirent[]>;
 }
 
 /** Default file system implementation using Node.js fs module. */
 export const defaultFileSystem: FileSystemProvider = {
-  readFile: (filePath: string): string => {
+  readFile: async (filePath: string): Promise<string> => {
     try {
-      return fs.readFileSync(filePath, { encoding: "utf8", flag: "r" }) ?? "";
+      return await fs.promises.readFile(filePath, { encoding: "utf8" });
     } catch {
       return "";
     }
   },
-  readDir: (dirPath: string): fs.Dirent[] =>
-    fs.readdirSync(dirPath, { withFileTypes: true }),
+  readDir: (dirPath: string): Promise<fs.Dirent[]> =>
+    fs.promises.readdir(dirPath, { withFileTypes: true }),
+};
+
+/**
+ * Reads a file synchronously, for the files the parser resolves while parsing,
+ * such as base classes, templates and `tsconfig.json`.
+ * @param filePath - The path to read.
+ * @returns The file contents or empty string on failure.
+ */
+export const readFileSync: FileReader = (filePath: string): string => {
+  try {
+    return fs.readFileSync(filePath, { encoding: "utf8", flag: "r" });
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * Wraps a file system provider so that at most `limit` of its operations run at a time.
+ * @param fileSystem - The file system provider to wrap.
+ * @param limit - The maximum number of concurrent operations.
+ * @returns The limited file system provider.
+ */
+export const limitFileSystem = (
+  fileSystem: FileSystemProvider,
+  limit = DEFAULT_CONCURRENCY
+): FileSystemProvider => {
+  const limiter = createLimiter(limit);
+  return {
+    readFile: (filePath: string) =>
+      limiter(() => fileSystem.readFile(filePath)),
+    readDir: (dirPath: string) => limiter(() => fileSystem.readDir(dirPath)),
+  };
 };
 
 /**
@@ -98,39 +167,286 @@ export const isAngularFile = (filePath = ""): boolean => {
 export const isSupportedFile = (filePath = ""): boolean =>
   hasSupportedExtension(filePath) && isAngularFile(filePath);
 
+/**
+ * Determines if a file is a TypeScript source file that may declare Angular artifacts,
+ * regardless of its name. Spec and declaration files are excluded.
+ * @param filePath - The file path to validate.
+ * @returns True if the file should be scanned for Angular decorators.
+ */
+export const isScannableFile = (filePath = ""): boolean => {
+  const lowerPath = filePath.toLowerCase();
+  return (
+    hasSupportedExtension(filePath) &&
+    !EXCLUDED_SUFFIXES.some((suffix) => lowerPath.endsWith(suffix))
+  );
+};
+
+/**
+ * Gets the names Angular class decorators are imported under in `@angular/core` imports,
+ * such as `Cmp` in `import { Component as Cmp } from '@angular/core'`.
+ * @param contents - The source text.
+ * @returns The decorator aliases.
+ */
+const getDecoratorAliases = (contents: string): string[] =>
+  [...contents.matchAll(ANGULAR_CORE_IMPORT_PATTERN)].flatMap(
+    ([, specifiers]) =>
+      [...specifiers.matchAll(DECORATOR_ALIAS_PATTERN)].map(
+        ([, alias]) => alias
+      )
+  );
+
+/**
+ * Checks if source text contains an Angular `@Component`, `@Directive` or `@Pipe` decorator,
+ * including one imported from `@angular/core` under an alias, or one of the given custom
+ * decorators.
+ * A cheap text check used to skip files before full parsing.
+ * @param contents - The source text.
+ * @param decoratorNames - Names of custom decorators to look for.
+ * @returns True if the source text contains an Angular class decorator.
+ */
+export const hasAngularDecorator = (
+  contents = "",
+  decoratorNames: readonly string[] = []
+): boolean =>
+  ANGULAR_DECORATOR_PATTERN.test(contents) ||
+  [...decoratorNames, ...getDecoratorAliases(contents)].some((name) =>
+    contents.includes(`@${name}`)
+  );
+
+/**
+ * Checks if a file is a TypeScript declaration file.
+ * @param filePath - The file path to check.
+ * @returns True if the file ends with `.d.ts`.
+ */
+export const isDeclarationFile = (filePath = ""): boolean =>
+  filePath.toLowerCase().endsWith(DECLARATION_SUFFIX);
+
+/**
+ * Checks if declaration file text contains the Ivy metadata of a component, directive or pipe.
+ * A cheap text check used to skip files before full parsing.
+ * @param contents - The declaration file text.
+ * @returns True if the text contains an Ivy declaration type.
+ */
+export const hasIvyDeclaration = (contents = ""): boolean =>
+  IVY_DECLARATION_PATTERN.test(contents);
+
 /**
  * Reads file contents from the specified path.
  * @param filePath - The path to the file to read.
  * @param fileSystem - Optional file system provider for dependency injection.
  * @returns The file contents or empty string on failure.
  */
-export const getFileContents = (
+export const getFileContents = async (
   filePath = "",
   fileSystem: FileSystemProvider = defaultFileSystem
-): string => (filePath ? fileSystem.readFile(filePath) : "");
+): Promise<string> => (filePath ? fileSystem.readFile(filePath) : "");
+
+/**
+ * File contents cached for the lifetime of a scan.
+ */
+export interface FileCache {
+  /**
+   * Reads a file through the file system provider, caching its contents.
+   * @param filePath - The path to read.
+   * @returns The file contents or empty string on failure.
+   */
+  load(filePath: string): Promise<string>;
+
+  /**
+   * Reads a file synchronously for the parser, serving files loaded already from memory.
+   * @param filePath - The path to read.
+   * @returns The file contents or empty string on failure.
+   */
+  read(filePath: string): string;
+}
+
+/**
+ * Creates a file cache used to avoid re-reading shared base classes and barrels during a single scan.
+ * Discovered files are loaded asynchronously; files the parser resolves on the fly fall back to
+ * a synchronous read.
+ * @param fileSystem - Optional file system provider for dependency injection.
+ * @param readSync - Optional synchronous reader for files that were not loaded.
+ * @returns The file cache.
+ */
+export const createFileCache = (
+  fileSystem: FileSystemProvider = defaultFileSystem,
+  readSync: FileReader = readFileSync
+): FileCache => {
+  const cache = new Map<string, string>();
+  return {
+    load: async (filePath: string): Promise<string> => {
+      const cached = cache.get(filePath);
+      if (cached !== undefined) {
+        return cached;
+      }
+      const contents = await getFileContents(filePath, fileSystem);
+      cache.set(filePath, contents);
+      return contents;
+    },
+    read: (filePath: string): string => {
+      const cached = cache.get(filePath);
+      if (cached !== undefined) {
+        return cached;
+      }
+      const contents = filePath ? readSync(filePath) : "";
+      cache.set(filePath, contents);
+      return contents;
+    },
+  };
+};
+
+/**
+ * Creates a source file loader that keeps parsed files for the lifetime of a scan, so shared
+ * base classes, barrels and animation files are parsed once however many files import them.
+ * A file is parsed again when its contents differ from the cached copy.
+ * @returns The source file loader.
+ */
+export const createSourceFileCache = (): SourceFileLoader => {
+  const cache = new Map<string, ts.SourceFile | undefined>();
+  return (contents: string, filePath: string): ts.SourceFile | undefined => {
+    const cached = cache.get(filePath);
+    if (cached?.text === contents) {
+      return cached;
+    }
+    const sourceFile = nodes.createSourceFile(contents, filePath);
+    cache.set(filePath, sourceFile);
+    return sourceFile;
+  };
+};
+
+/**
+ * Checks if a file is an Angular source file under the given discovery mode.
+ * Suffix discovery matches file names; content discovery reads each scannable file
+ * and checks it for an Angular decorator.
+ * @param filePath - The file path to check.
+ * @param fileSystem - The file system provider used to read file contents.
+ * @param discovery - How Angular files are discovered.
+ * @param decoratorNames - Names of custom decorators that mark Angular files.
+ * @returns True if the file should be parsed.
+ */
+const isDiscoveredFile = async (
+  filePath: string,
+  fileSystem: FileSystemProvider,
+  discovery: FileDiscovery,
+  decoratorNames: readonly string[]
+): Promise<boolean> =>
+  discovery === FileDiscovery.CONTENT
+    ? isScannableFile(filePath) &&
+      hasAngularDecorator(
+        await getFileContents(filePath, fileSystem),
+        decoratorNames
+      )
+    : isSupportedFile(filePath);
+
+/**
+ * Lists a directory and maps its entries in parallel, keeping their order.
+ * Concurrency is bounded by the file system provider (see `limitFileSystem`).
+ * @param dirPath - The directory path to list.
+ * @param fileSystem - The file system provider.
+ * @param mapEntry - Maps an entry and its path to the file paths it contributes.
+ * @param token - The cancellation signal, checked before listing.
+ * @returns The file paths of every entry, flattened.
+ * @throws CancelledError if cancellation was requested.
+ */
+const flatMapDirectory = async (
+  dirPath: string,
+  fileSystem: FileSystemProvider,
+  mapEntry: (dirent: fs.Dirent, filePath: string) => Promise<string[]>,
+  token?: CancellationSignal
+): Promise<string[]> => {
+  throwIfCancelled(token);
+  const entries = await fileSystem.readDir(dirPath);
+  const results = await Promise.all(
+    entries.map((dirent) => mapEntry(dirent, path.join(dirPath, dirent.name)))
+  );
+  return results.flat();
+};
 
 /**
  * Recursively collects supported component files from a directory.
  * @param dirPath - The directory path to traverse.
  * @param fileSystem - Optional file system provider for dependency injection.
+ * @param discovery - How Angular files are discovered, by file name suffix or by content.
+ * @param decoratorNames - Names of custom decorators that mark Angular files in content discovery.
+ * @param token - Optional cancellation signal that aborts the scan.
  * @returns Array of file paths matching supported component criteria.
  * @throws Error if directory path is not provided.
+ * @throws CancelledError if cancellation was requested.
  */
-export const getSupportedFiles = (
+export const getSupportedFiles = async (
   dirPath = "",
-  fileSystem: FileSystemProvider = defaultFileSystem
-): string[] => {
+  fileSystem: FileSystemProvider = defaultFileSystem,
+  discovery = FileDiscovery.SUFFIX,
+  decoratorNames: readonly string[] = [],
+  token?: CancellationSignal
+): Promise<string[]> => {
   if (!dirPath) {
     throw new Error("Directory path not provided.");
   }
 
-  return fileSystem.readDir(dirPath).flatMap((dirent): string[] => {
-    const filePath = path.join(dirPath, dirent.name);
+  return flatMapDirectory(
+    dirPath,
+    fileSystem,
+    async (dirent, filePath): Promise<string[]> => {
+      if (dirent.isDirectory()) {
+        return getSupportedFiles(
+          filePath,
+          fileSystem,
+          discovery,
+          decoratorNames,
+          token
+        );
+      }
 
-    if (dirent.isDirectory()) {
-      return getSupportedFiles(filePath, fileSystem);
-    }
+      return dirent.isFile() &&
+        (await isDiscoveredFile(
+          filePath,
+          fileSystem,
+          discovery,
+          decoratorNames
+        ))
+        ? [filePath]
+        : [];
+    },
+    token
+  );
+};
 
-    return dirent.isFile() && isSupportedFile(filePath) ? [filePath] : [];
-  });
+/**
+ * Recursively collects the declaration files of a compiled package that carry Ivy metadata.
+ * Nested `node_modules` folders are skipped.
+ * @param dirPath - The package directory to traverse.
+ * @param fileSystem - Optional file system provider for dependency injection.
+ * @param token - Optional cancellation signal that aborts the scan.
+ * @returns Array of declaration file paths.
+ * @throws Error if directory path is not provided.
+ * @throws CancelledError if cancellation was requested.
+ */
+export const getDeclarationFiles = async (
+  dirPath = "",
+  fileSystem: FileSystemProvider = defaultFileSystem,
+  token?: CancellationSignal
+): Promise<string[]> => {
+  if (!dirPath) {
+    throw new Error("Directory path not provided.");
+  }
+
+  return flatMapDirectory(
+    dirPath,
+    fileSystem,
+    async (dirent, filePath): Promise<string[]> => {
+      if (dirent.isDirectory()) {
+        return dirent.name === Path.NODE_MODULES_DIR
+          ? []
+          : getDeclarationFiles(filePath, fileSystem, token);
+      }
+
+      return dirent.isFile() &&
+        isDeclarationFile(filePath) &&
+        hasIvyDeclaration(await getFileContents(filePath, fileSystem))
+        ? [filePath]
+        : [];
+    },
+    token
+  );
 };
@@ -0,0 +1,298 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import ts from "typescript";
+
+import { getTypeNode, isPropertyOrAccessor } from "./nodes";
+import {
+  ALIAS_PROPERTY,
+  DIRECTIVE_PROPERTY,
+  EVENT_EMITTER_TYPE,
+  INPUTS_PROPERTY,
+  IvyDeclarationType,
+  OUTPUTS_PROPERTY,
+  REQUIRED_PROPERTY,
+} from "./types";
+
+/**
+ * A binding listed in the input or output map of an Ivy declaration.
+ */
+export interface DeclaredBinding {
+  /** The class property backing the binding. */
+  readonly property: string;
+  /** The public binding name used in templates. */
+  readonly name: string;
+  /** Whether the input must be provided by the consumer. */
+  readonly required?: boolean;
+}
+
+/**
+ * A host directive listed in a component or directive declaration.
+ */
+export interface DeclaredHostDirective {
+  /** The name the directive class is referenced under (e.g., `i1.CdkMenuTrigger`), if any. */
+  readonly directive?: ts.EntityName;
+  /** The exposed inputs, mapping the directive's binding name to the host alias. */
+  readonly inputs: DeclaredBinding[];
+  /** The exposed outputs, mapping the directive's binding name to the host alias. */
+  readonly outputs: DeclaredBinding[];
+}
+
+/** Position of the selector, or of a pipe's name, in an Ivy declaration's type arguments. */
+const NAME_ARGUMENT = 1;
+
+/** Position of the `exportAs` names in a component or directive declaration. */
+const EXPORT_AS_ARGUMENT = 2;
+
+/** Position of the input map in a component or directive declaration. */
+const INPUTS_ARGUMENT = 3;
+
+/** Position of the output map in a component or directive declaration. */
+const OUTPUTS_ARGUMENT = 4;
+
+/** Position of the `<ng-content>` selectors in a component declaration. */
+const CONTENT_SELECTORS_ARGUMENT = 6;
+
+/** Position of the host directives in a component or directive declaration. */
+const HOST_DIRECTIVES_ARGUMENT = 8;
+
+/** Selector the compiler records for the default `<ng-content>` slot. */
+const WILDCARD_CONTENT_SELECTOR = "*";
+
+/** Angular wrapper types whose first type argument is the bound value's type. */
+const BINDING_WRAPPER_TYPES: readonly string[] = [
+  EVENT_EMITTER_TYPE,
+  "InputSignal",
+  "InputSignalWithTransform",
+  "ModelSignal",
+  "OutputEmitterRef",
+  "OutputRef",
+];
+
+/**
+ * Gets the rightmost name of a possibly qualified entity name (e.g., `InputSignal` of `i0.InputSignal`).
+ * @param name - The entity name node.
+ * @returns The unqualified name.
+ */
+const getEntityName = (name: ts.EntityName): string =>
+  ts.isIdentifier(name) ? name.text : name.right.text;
+
+/**
+ * Gets the text of a string literal type (e.g., `"app-button"`).
+ * @param node - The type node, if any.
+ * @returns The string value or empty string if the node is not a string literal type.
+ */
+const getStringLiteralType = (node: ts.TypeNode | undefined): string =>
+  node && ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)
+    ? node.literal.text
+    : "";
+
+/**
+ * Gets the string values of a tuple of string literal types (e.g., `["matMenu"]`).
+ * @param node - The type node, if any.
+ * @returns The string values, empty when the node is `never` or not a tuple.
+ */
+const getStringTupleType = (node: ts.TypeNode | undefined): string[] =>
+  node && ts.isTupleTypeNode(node)
+    ? node.elements.map(getStringLiteralType).filter(Boolean)
+    : [];
+
+/**
+ * Gets the key of a type literal member declared with an identifier or a quoted name.
+ * @param name - The property name node.
+ * @returns The key or empty string for computed names.
+ */
+const getPropertyKey = (name: ts.PropertyName): string =>
+  ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : "";
+
+/**
+ * Finds the type of a named member of a type literal.
+ * @param node - The type literal node, if any.
+ * @param name - The member name.
+ * @returns The member's type node or undefined.
+ */
+const getTypeLiteralMember = (
+  node: ts.TypeNode | undefined,
+  name: string
+): ts.TypeNode | undefined =>
+  node && ts.isTypeLiteralNode(node)
+    ? node.members.find(
+        (member): member is ts.PropertySignature =>
+          ts.isPropertySignature(member) && getPropertyKey(member.name) === name
+      )?.type
+    : undefined;
+
+/**
+ * Checks if a type node is the `true` literal type.
+ * @param node - The type node, if any.
+ * @returns True for `true`.
+ */
+const isTrueType = (node: ts.TypeNode | undefined): boolean =>
+  !!node &&
+  ts.isLiteralTypeNode(node) &&
+  node.literal.kind === ts.SyntaxKind.TrueKeyword;
+
+/**
+ * Reads an Ivy input or output map.
+ * Entries map the class property to its public name, either directly (`{ "value": "value" }`)
+ * or through an options object (`{ "value": { "alias": "value"; "required": true } }`).
+ * @param node - The map type node, if any.
+ * @returns The bindings in declaration order.
+ */
+const getBindingMap = (node: ts.TypeNode | undefined): DeclaredBinding[] =>
+  node && ts.isTypeLiteralNode(node)
+    ? node.members.filter(ts.isPropertySignature).flatMap((member) => {
+        const property = getPropertyKey(member.name);
+        if (!property) {
+          return [];
+        }
+        const options = member.type;
+        const name =
+          getStringLiteralType(options) ||
+          getStringLiteralType(getTypeLiteralMember(options, ALIAS_PROPERTY)) ||
+          property;
+        const required = isTrueType(
+          getTypeLiteralMember(options, REQUIRED_PROPERTY)
+        );
+        return [{ property, name, ...(required && { required }) }];
+      })
+    : [];
+
+/**
+ * Gets the type arguments of the Ivy declaration a compiled class carries
+ * (e.g., `static ɵcmp: i0.ɵɵComponentDeclaration<...>`).
+ * @param classNode - The class declaration node.
+ * @param type - The Ivy declaration type to look for.
+ * @returns The type arguments, or undefined if the class has no such declaration.
+ */
+export const getDeclarationArguments = (
+  classNode: ts.ClassDeclaration,
+  type: IvyDeclarationType
+): readonly ts.TypeNode[] | undefined =>
+  classNode.members
+    .map((member) =>
+      ts.isPropertyDeclaration(member) &&
+      member.modifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword) &&
+      member.type &&
+      ts.isTypeReferenceNode(member.type) &&
+      getEntityName(member.type.typeName) === type
+        ? (member.type.typeArguments ?? [])
+        : undefined
+    )
+    .find(Boolean);
+
+/**
+ * Gets the selector of a component or directive declaration, or the name of a pipe declaration.
+ * @param typeArguments - The declaration's type arguments.
+ * @returns The selector or pipe name, or empty string if absent.
+ */
+export const getDeclaredName = (
+  typeArguments: readonly ts.TypeNode[]
+): string => getStringLiteralType(typeArguments[NAME_ARGUMENT]);
+
+/**
+ * Gets the `exportAs` names of a component or directive declaration.
+ * @param typeArguments - The declaration's type arguments.
+ * @returns The export names.
+ */
+export const getDeclaredExportAs = (
+  typeArguments: readonly ts.TypeNode[]
+): string[] => getStringTupleType(typeArguments[EXPORT_AS_ARGUMENT]);
+
+/**
+ * Gets the inputs of a component or directive declaration.
+ * @param typeArguments - The declaration's type arguments.
+ * @returns The declared inputs.
+ */
+export const getDeclaredInputs = (
+  typeArguments: readonly ts.TypeNode[]
+): DeclaredBinding[] => getBindingMap(typeArguments[INPUTS_ARGUMENT]);
+
+/**
+ * Gets the outputs of a component or directive declaration.
+ * @param typeArguments - The declaration's type arguments.
+ * @returns The declared outputs.
+ */
+export const getDeclaredOutputs = (
+  typeArguments: readonly ts.TypeNode[]
+): DeclaredBinding[] => getBindingMap(typeArguments[OUTPUTS_ARGUMENT]);
+
+/**
+ * Gets the `<ng-content>` slots of a component declaration.
+ * The default slot is reported as an empty string.
+ * @param typeArguments - The declaration's type arguments.
+ * @returns The slot selectors.
+ */
+export const getDeclaredContentSlots = (
+  typeArguments: readonly ts.TypeNode[]
+): string[] =>
+  getStringTupleType(typeArguments[CONTENT_SELECTORS_ARGUMENT]).map(
+    (selector) => (selector === WILDCARD_CONTENT_SELECTOR ? "" : selector)
+  );
+
+/**
+ * Gets the host directives of a component or directive declaration
+ * (e.g., `[{ directive: typeof i1.Tooltip; inputs: { "message": "tooltip" }; outputs: {} }]`).
+ * @param typeArguments - The declaration's type arguments.
+ * @returns The declared host directives.
+ */
+export const getDeclaredHostDirectives = (
+  typeArguments: readonly ts.TypeNode[]
+): DeclaredHostDirective[] => {
+  const node = typeArguments[HOST_DIRECTIVES_ARGUMENT];
+  return node && ts.isTupleTypeNode(node)
+    ? node.elements.map((entry) => {
+        const directive = getTypeLiteralMember(entry, DIRECTIVE_PROPERTY);
+        return {
+          ...(directive &&
+            ts.isTypeQueryNode(directive) && { directive: directive.exprName }),
+          inputs: getBindingMap(getTypeLiteralMember(entry, INPUTS_PROPERTY)),
+          outputs: getBindingMap(getTypeLiteralMember(entry, OUTPUTS_PROPERTY)),
+        };
+      })
+    : [];
+};
+
+/**
+ * Finds the class member backing a declared binding.
+ * @param classNode - The class declaration node.
+ * @param property - The class property name.
+ * @returns The property or accessor, or undefined if it is not declared on the class.
+ */
+export const findBindingMember = (
+  classNode: ts.ClassDeclaration,
+  property: string
+): ts.PropertyDeclaration | ts.AccessorDeclaration | undefined =>
+  classNode.members
+    .filter(isPropertyOrAccessor)
+    .find((member) => getPropertyKey(member.name) === property);
+
+/**
+ * Gets the value type of a binding member, unwrapping signal and emitter types
+ * (e.g., `string` of `InputSignal<string>` or `EventEmitter<string>`).
+ * @param member - The property or accessor, if any.
+ * @returns The value type node or undefined if the member is untyped.
+ */
+export const getBindingTypeNode = (
+  member: ts.PropertyDeclaration | ts.AccessorDeclaration | undefined
+): ts.TypeNode | undefined => {
+  const typeNode = member ? getTypeNode(member) : undefined;
+  return typeNode &&
+    ts.isTypeReferenceNode(typeNode) &&
+    BINDING_WRAPPER_TYPES.includes(getEntityName(typeNode.typeName))
+    ? typeNode.typeArguments?.[0]
+    : typeNode;
+};
@@ -0,0 +1,228 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from "node:path";
+
+import ts from "typescript";
+
+import { Path } from "./constants";
+import { DECLARATION_SUFFIX } from "./files";
+import { FileReader } from "./types";
+
+/** Module path mappings declared in a tsconfig.json file. */
+interface PathMappings {
+  /** The directory mapped path patterns are resolved against. */
+  readonly pathsBase: string;
+  /** The base URL directory for non-relative imports, if configured. */
+  readonly baseUrl?: string;
+  /** The `paths` patterns and their target locations. */
+  readonly paths: Readonly<Record<string, readonly string[]>>;
+}
+
+/** Maximum number of `extends` hops followed when reading a tsconfig.json. */
+const MAX_EXTENDS_DEPTH = 5;
+
+/** Matches a JavaScript extension used in ESM-style import specifiers. */
+const JS_EXTENSION = /\.js$/;
+
+/**
+ * Checks if a module specifier is relative to the importing file.
+ * @param specifier - The module specifier.
+ * @returns True if the specifier starts with "./" or "../".
+ */
+export const isRelativeSpecifier = (specifier = ""): boolean =>
+  specifier.startsWith("./") || specifier.startsWith("../");
+
+/**
+ * Lists the TypeScript files a module path may refer to, falling back to the
+ * declaration files compiled libraries ship.
+ * @param basePath - The module path without extension.
+ * @returns The candidate file paths in lookup order.
+ */
+export const getCandidatePaths = (basePath: string): string[] => {
+  const modulePath = basePath.replace(JS_EXTENSION, "");
+  return [
+    ...(modulePath.endsWith(".ts") ? [modulePath] : []),
+    `${modulePath}.ts`,
+    path.join(modulePath, Path.INDEX_FILE),
+    `${modulePath}${DECLARATION_SUFFIX}`,
+    path.join(modulePath, Path.DECLARATION_INDEX_FILE),
+  ];
+};
+
+/**
+ * Finds the first candidate for a module path that exists.
+ * @param basePath - The module path without extension.
+ * @param readFile - The file reader used to probe candidates.
+ * @returns The resolved file path or undefined.
+ */
+const findExistingModule = (
+  basePath: string,
+  readFile: FileReader
+): string | undefined =>
+  getCandidatePaths(basePath).find((candidate) => !!readFile(candidate));
+
+/**
+ * Finds the nearest tsconfig.json file in a directory or its ancestors.
+ * @param fromDir - The directory to start from.
+ * @param readFile - The file reader used to probe for the config file.
+ * @returns The tsconfig.json path or undefined if none exists.
+ */
+export const findTsConfigPath = (
+  fromDir: string,
+  readFile: FileReader
+): string | undefined => {
+  let dir = path.resolve(fromDir);
+  for (;;) {
+    const configPath = path.join(dir, Path.TSCONFIG_FILE);
+    if (readFile(configPath)) {
+      return configPath;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+};
+
+/**
+ * Reads the path mappings of a tsconfig.json file, following relative `extends`.
+ * @param configPath - The tsconfig.json path.
+ * @param readFile - The file reader used to load config files.
+ * @param depth - The current `extends` depth.
+ * @returns The path mappings, empty when the config cannot be read.
+ */
+export const readPathMappings = (
+  configPath: string,
+  readFile: FileReader,
+  depth = 0
+): PathMappings => {
+  const { config = {} } = ts.parseConfigFileTextToJson(
+    configPath,
+    readFile(configPath)
+  );
+
+  const configDir = path.dirname(configPath);
+  const inherited =
+    typeof config.extends === "string" &&
+    isRelativeSpecifier(config.extends) &&
+    depth < MAX_EXTENDS_DEPTH
+      ? readPathMappings(
+          path.resolve(configDir, config.extends),
+          readFile,
+          depth + 1
+        )
+      : undefined;
+
+  const { baseUrl, paths } = config.compilerOptions ?? {};
+  const resolvedBaseUrl =
+    typeof baseUrl === "string"
+      ? path.resolve(configDir, baseUrl)
+      : inherited?.baseUrl;
+
+  return {
+    baseUrl: resolvedBaseUrl,
+    pathsBase:
+      resolvedBaseUrl ??
+      (paths ? configDir : inherited?.pathsBase) ??
+      configDir,
+    paths: paths ?? inherited?.paths ?? {},
+  };
+};
+
+/**
+ * Matches a module specifier against a `paths` pattern with an optional `*` wildcard.
+ * @param pattern - The `paths` pattern.
+ * @param specifier - The module specifier.
+ * @returns The text matched by the wildcard, or undefined if the pattern does not match.
+ */
+export const matchPathPattern = (
+  pattern: string,
+  specifier: string
+): string | undefined => {
+  const wildcard = pattern.indexOf("*");
+  if (wildcard < 0) {
+    return pattern === specifier ? "" : undefined;
+  }
+  const prefix = pattern.slice(0, wildcard);
+  const suffix = pattern.slice(wildcard + 1);
+  return specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+    ? specifier.slice(prefix.length, specifier.length - suffix.length)
+    : undefined;
+};
+
+/**
+ * Resolves a non-relative module specifier using tsconfig.json path mappings.
+ * @param specifier - The module specifier.
+ * @param mappings - The path mappings to apply.
+ * @param readFile - The file reader used to probe candidates.
+ * @returns The resolved file path or undefined.
+ */
+const resolveMappedModule = (
+  specifier: string,
+  mappings: PathMappings,
+  readFile: FileReader
+): string | undefined => {
+  for (const [pattern, targets] of Object.entries(mappings.paths)) {
+    const match = matchPathPattern(pattern, specifier);
+    if (match === undefined) {
+      continue;
+    }
+    for (const target of targets) {
+      const resolved = findExistingModule(
+        path.resolve(mappings.pathsBase, target.replace("*", match)),
+        readFile
+      );
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return mappings.baseUrl
+    ? findExistingModule(path.resolve(mappings.baseUrl, specifier), readFile)
+    : undefined;
+};
+
+/**
+ * Resolves a module specifier imported by a file to a TypeScript source file path.
+ * Supports relative imports and tsconfig.json `baseUrl`/`paths` mappings;
+ * packages in node_modules are not resolved.
+ * @param specifier - The module specifier.
+ * @param fromFile - The path of the importing file.
+ * @param readFile - The file reader used to probe candidates.
+ * @returns The resolved file path or undefined.
+ */
+export const resolveModulePath = (
+  specifier: string,
+  fromFile: string,
+  readFile: FileReader
+): string | undefined => {
+  const fromDir = path.dirname(fromFile);
+  if (isRelativeSpecifier(specifier)) {
+    return findExistingModule(path.resolve(fromDir, specifier), readFile);
+  }
+
+  const configPath = findTsConfigPath(fromDir, readFile);
+  const mappings = configPath
+    ? readPathMappings(configPath, readFile)
+    : undefined;
+  return mappings
+    ? resolveMappedModule(specifier, mappings, readFile)
+    : undefined;
+};
@@ -16,17 +16,62 @@
 
 import ts from "typescript";
 
-import { DecoratorType, DEFAULT_DATA_TYPE, EVENT_EMITTER_TYPE } from "./types";
+import { DecoratorRole } from "./constants";
+import {
+  ALIAS_PROPERTY,
+  ANGULAR_ANIMATIONS_MODULE,
+  ANGULAR_CORE_MODULE,
+  ANGULAR_RXJS_INTEROP_MODULE,
+  ChoiceValue,
+  CustomDecorators,
+  DataType,
+  DecoratorType,
+  DEFAULT_DATA_TYPE,
+  DocTag,
+  EVENT_EMITTER_TYPE,
+  HOST_ATTRIBUTE_TOKEN,
+  INJECT_FUNCTION,
+  OPTIONAL_PROPERTY,
+  REQUIRED_MEMBER,
+  SignalFunction,
+  TEMPLATE_CONTEXT_GUARD,
+  TEMPLATE_REF_TYPE,
+  TRANSFORM_PROPERTY,
+  TRIGGER_FUNCTION,
+} from "./types";
+
+/** File name used for source text that is not backed by a file. */
+const DEFAULT_SOURCE_FILE_NAME = "temp.ts";
+
+/**
+ * Creates a TypeScript source file from source text.
+ * @param sourceText - The TypeScript source code string.
+ * @param fileName - The path of the file the source text was read from.
+ * @returns The parsed source file or undefined if empty.
+ */
+export const createSourceFile = (
+  sourceText = "",
+  fileName = DEFAULT_SOURCE_FILE_NAME
+): ts.SourceFile | undefined =>
+  sourceText
+    ? ts.createSourceFile(
+        fileName,
+        sourceText,
+        ts.ScriptTarget.Latest,
+        true,
+        ts.ScriptKind.TS
+      )
+    : undefined;
 
 /**
- * Type guard to check if a node is a property declaration or get accessor.
+ * Type guard to check if a node is a property declaration or get/set accessor.
  * @param node - The TypeScript AST node to check.
- * @returns True if the node is a property declaration or get accessor.
+ * @returns True if the node is a property declaration or accessor.
  */
-export const isPropertyOrGetAccessor = (
+export const isPropertyOrAccessor = (
   node: ts.Node
-): node is ts.PropertyDeclaration | ts.GetAccessorDeclaration =>
-  !!node && (ts.isPropertyDeclaration(node) || ts.isGetAccessor(node));
+): node is ts.PropertyDeclaration | ts.AccessorDeclaration =>
+  !!node && (ts.isPropertyDeclaration(node) || ts.isAccessor(node));
 
 /**
  * Finds a property assignment by name within an object literal expression.
@@ -49,6 +94,20 @@ export const findAssignedProperty = (
   );
 };
 
+/**
+ * Gets the value assigned to a property of an object literal.
+ * @param node - The object literal expression node.
+ * @param propertyName - The property name to read.
+ * @returns The property initializer or undefined if not found.
+ */
+export const getPropertyInitializer = (
+  node: ts.Node | undefined,
+  propertyName: string
+): ts.Expression | undefined => {
+  const prop = node ? findAssignedProperty(node, propertyName) : undefined;
+  return prop && ts.isPropertyAssignment(prop) ? prop.initializer : undefined;
+};
+
 /**
  * Checks if a node is an identifier matching a specific name.
  * @param node - The AST node to check.
@@ -62,18 +121,190 @@ export const isIdentifier = (
   !!node && ts.isIdentifier(node) && ts.idText(node) === name;
 
 /**
- * Checks if a node is a decorator of a specific type.
+ * Describes where a name declared at the top level of a file comes from.
+ * Local declarations have an empty module name.
+ */
+interface ModuleBinding {
+  /** The module specifier the name is imported from. */
+  readonly moduleName: string;
+  /** The exported name the binding refers to, or undefined for namespace imports. */
+  readonly importedName?: string;
+}
+
+/** Top-level bindings of each source file, computed once per file. */
+const bindingCache = new WeakMap<ts.SourceFile, Map<string, ModuleBinding>>();
+
+/**
+ * Collects the import bindings and local declarations at the top level of a source file.
+ * @param sourceFile - The source file.
+ * @returns A map from each declared name to its binding.
+ */
+const getModuleBindings = (
+  sourceFile: ts.SourceFile
+): Map<string, ModuleBinding> => {
+  const cached = bindingCache.get(sourceFile);
+  if (cached) {
+    return cached;
+  }
+
+  const bindings = new Map<string, ModuleBinding>();
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const moduleName = statement.moduleSpecifier.text;
+      const namedBindings = statement.importClause?.namedBindings;
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        bindings.set(namedBindings.name.text, { moduleName });
+      }
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach((element) =>
+          bindings.set(element.name.text, {
+            moduleName,
+            importedName: (element.propertyName ?? element.name).text,
+          })
+        );
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      bindings.set(statement.name.text, {
+        moduleName: "",
+        importedName: statement.name.text,
+      });
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations
+        .map((declaration) => declaration.name)
+        .filter(ts.isIdentifier)
+        .forEach((name) =>
+          bindings.set(name.text, { moduleName: "", importedName: name.text })
+        );
+    }
+  }
+
+  bindingCache.set(sourceFile, bindings);
+  return bindings;
+};
+
+/**
+ * Finds the source file containing a node by walking its parents.
+ * @param node - The AST node.
+ * @returns The source file or undefined if the node is detached.
+ */
+const findSourceFile = (node: ts.Node): ts.SourceFile | undefined => {
+  let current: ts.Node | undefined = node;
+  while (current && !ts.isSourceFile(current)) {
+    current = current.parent;
+  }
+  return current;
+};
+
+/**
+ * Resolves the export of one of the given modules an expression or type name refers to,
+ * following aliased named imports (`Component as NgComponent`) and namespace imports
+ * (`ng.Component`). Names that are neither imported nor declared in the file resolve to
+ * themselves, so snippets of code without imports are still recognized.
+ * @param node - The expression or type name to resolve.
+ * @param moduleNames - The module specifiers the export may come from.
+ * @returns The exported name, or undefined if the node does not refer to one of the modules.
+ */
+const getModuleExportName = (
+  node: ts.Node,
+  moduleNames: readonly string[]
+): string | undefined => {
+  const sourceFile = findSourceFile(node);
+  const bindings = sourceFile ? getModuleBindings(sourceFile) : new Map();
+
+  if (ts.isIdentifier(node)) {
+    const binding = bindings.get(node.text);
+    if (!binding) {
+      return node.text;
+    }
+    return moduleNames.includes(binding.moduleName)
+      ? binding.importedName
+      : undefined;
+  }
+
+  const [namespace, name] = ts.isPropertyAccessExpression(node)
+    ? [node.expression, node.name]
+    : ts.isQualifiedName(node)
+      ? [node.left, node.right]
+      : [];
+  if (namespace && name && ts.isIdentifier(namespace)) {
+    const binding = bindings.get(namespace.text);
+    return binding &&
+      moduleNames.includes(binding.moduleName) &&
+      !binding.importedName
+      ? name.text
+      : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Resolves the `@angular/core` export an expression or type name refers to.
+ * @param node - The expression or type name to resolve.
+ * @returns The exported name, or undefined if the node does not refer to `@angular/core`.
+ */
+export const getAngularCoreName = (node: ts.Node): string | undefined =>
+  getModuleExportName(node, [ANGULAR_CORE_MODULE]);
+
+/**
+ * Gets the exported name an expression refers to, whichever module it is imported from.
+ * @param node - The expression to resolve.
+ * @returns The exported name, or empty string if the expression is not a name.
+ */
+const getExportedName = (node: ts.Node): string => {
+  if (ts.isPropertyAccessExpression(node)) {
+    return node.name.text;
+  }
+  if (!ts.isIdentifier(node)) {
+    return "";
+  }
+  const sourceFile = findSourceFile(node);
+  const binding = sourceFile && getModuleBindings(sourceFile).get(node.text);
+  return binding?.importedName ?? node.text;
+};
+
+/** The Angular decorator type each custom decorator role forwards to. */
+const DECORATOR_ROLE_TYPES: Readonly<Record<DecoratorRole, DecoratorType>> = {
+  [DecoratorRole.COMPONENT]: DecoratorType.COMPONENT,
+  [DecoratorRole.DIRECTIVE]: DecoratorType.DIRECTIVE,
+  [DecoratorRole.PIPE]: DecoratorType.PIPE,
+  [DecoratorRole.INPUT]: DecoratorType.INPUT,
+  [DecoratorRole.OUTPUT]: DecoratorType.OUTPUT,
+};
+
+/**
+ * Checks if a node is a decorator of a specific type imported from `@angular/core`,
+ * or a custom decorator mapped to that type.
  * @param node - The AST node to check.
  * @param type - The decorator type to match.
+ * @param customDecorators - Custom decorator names mapped to the Angular role they forward to.
  * @returns True if the node is a decorator of the specified type.
  */
 export const isDecorator = (
   node: ts.Node,
-  type: DecoratorType
-): node is ts.Decorator =>
-  ts.isDecorator(node) &&
-  ts.isCallExpression(node.expression) &&
-  isIdentifier(node.expression.expression, type);
+  type: DecoratorType,
+  customDecorators: CustomDecorators = {}
+): node is ts.Decorator => {
+  if (!node || !ts.isDecorator(node) || !ts.isCallExpression(node.expression)) {
+    return false;
+  }
+  const callee = node.expression.expression;
+  const name = getExportedName(callee);
+  const role = Object.hasOwn(customDecorators, name)
+    ? customDecorators[name]
+    : undefined;
+  return (
+    getAngularCoreName(callee) === type ||
+    (!!role && DECORATOR_ROLE_TYPES[role] === type)
+  );
+};
 
 /**
  * Checks if a decorator is an Angular @Component decorator.
@@ -81,9 +312,7 @@ export const isDecorator = (
  * @returns True if the decorator is a Component decorator.
  */
 export const isComponent = (node: ts.Decorator): boolean =>
-  !!node &&
-  ts.isCallExpression(node.expression) &&
-  isIdentifier(node.expression.expression, DecoratorType.COMPONENT);
+  isDecorator(node, DecoratorType.COMPONENT);
 
 /**
  * Checks if a decorator is an Angular @Directive decorator.
@@ -91,9 +320,7 @@ export const isComponent = (node: ts.Decorator): boolean =>
  * @returns True if the decorator is a Directive decorator.
  */
 export const isDirective = (node: ts.Decorator): boolean =>
-  !!node &&
-  ts.isCallExpression(node.expression) &&
-  isIdentifier(node.expression.expression, DecoratorType.DIRECTIVE);
+  isDecorator(node, DecoratorType.DIRECTIVE);
 
 /**
  * Checks if a decorator is an Angular @Pipe decorator.
@@ -101,12 +328,26 @@ export const isDirective = (node: ts.Decorator): boolean =>
  * @returns True if the decorator is a Pipe decorator.
  */
 export const isPipe = (node: ts.Decorator): boolean =>
-  !!node &&
-  ts.isCallExpression(node.expression) &&
-  isIdentifier(node.expression.expression, DecoratorType.PIPE);
+  isDecorator(node, DecoratorType.PIPE);
+
+/**
+ * Gets the options object literal passed as the first argument of a decorator call.
+ * @param node - The call expression node.
+ * @returns The options object or undefined if not passed.
+ */
+export const getDecoratorOptions = (
+  node: ts.Node
+): ts.ObjectLiteralExpression | undefined => {
+  if (!ts.isCallExpression(node)) {
+    return undefined;
+  }
+  const [options] = node.arguments ?? [];
+  return options && ts.isObjectLiteralExpression(options) ? options : undefined;
+};
 
 /**
  * Extracts the alias name from a decorator call expression.
+ * Supports both the `@Input('alias')` and `@Input({ alias: 'alias' })` forms.
  * @param node - The call expression node.
  * @returns The alias string or empty string if not found.
  */
@@ -115,9 +356,347 @@ export const getAliasName = (node: ts.Node): string => {
     return "";
   }
   const [aliasNode] = node.arguments ?? [];
-  return aliasNode && ts.isStringLiteral(aliasNode) ? aliasNode.text : "";
+  return aliasNode && ts.isStringLiteral(aliasNode)
+    ? aliasNode.text
+    : getStringPropertyValue(getDecoratorOptions(node), ALIAS_PROPERTY);
+};
+
+/**
+ * Extracts a string literal value assigned to a property of an object literal.
+ * @param node - The object literal expression node.
+ * @param propertyName - The property name to read.
+ * @returns The string value or empty string if not found.
+ */
+export const getStringPropertyValue = (
+  node: ts.Node | undefined,
+  propertyName: string
+): string => {
+  const initializer = getPropertyInitializer(node, propertyName);
+  return initializer && ts.isStringLiteralLike(initializer)
+    ? initializer.text
+    : "";
+};
+
+/**
+ * Checks if a property of an object literal is assigned the `true` literal.
+ * @param node - The object literal expression node.
+ * @param propertyName - The property name to read.
+ * @returns True if the property is assigned `true`.
+ */
+export const getBooleanPropertyValue = (
+  node: ts.Node | undefined,
+  propertyName: string
+): boolean =>
+  getPropertyInitializer(node, propertyName)?.kind ===
+  ts.SyntaxKind.TrueKeyword;
+
+/**
+ * Gets the identifier assigned to a property of an object literal.
+ * @param node - The object literal expression node.
+ * @param propertyName - The property name to read.
+ * @returns The identifier text or empty string if not assigned an identifier.
+ */
+export const getIdentifierPropertyValue = (
+  node: ts.Node | undefined,
+  propertyName: string
+): string => {
+  const initializer = getPropertyInitializer(node, propertyName);
+  return initializer && ts.isIdentifier(initializer) ? initializer.text : "";
+};
+
+/**
+ * Gets the name of the transform function assigned in an options object literal.
+ * @param node - The object literal expression node.
+ * @returns The transform function name or empty string if not a named function.
+ */
+export const getTransformName = (node: ts.Node | undefined): string =>
+  getIdentifierPropertyValue(node, TRANSFORM_PROPERTY);
+
+/**
+ * Gets the elements of an array literal expression.
+ * @param node - The expression node.
+ * @returns The array elements, or an empty array if the node is not an array literal.
+ */
+export const getArrayElements = (
+  node: ts.Node | undefined
+): readonly ts.Expression[] =>
+  node && ts.isArrayLiteralExpression(node) ? node.elements : [];
+
+/**
+ * Gets the call expression used to initialize a property declaration.
+ * @param node - The class member node.
+ * @returns The initializer call expression or undefined.
+ */
+export const getInitializerCall = (
+  node: ts.Node
+): ts.CallExpression | undefined =>
+  ts.isPropertyDeclaration(node) &&
+  node.initializer &&
+  ts.isCallExpression(node.initializer)
+    ? node.initializer
+    : undefined;
+
+/**
+ * Checks if a call expression invokes the `required` variant of a signal function.
+ * @param node - The call expression node.
+ * @returns True if the call is of the form `input.required()` or `model.required()`.
+ */
+export const isRequiredSignal = (node: ts.CallExpression): boolean =>
+  ts.isPropertyAccessExpression(node.expression) &&
+  isIdentifier(node.expression.name, REQUIRED_MEMBER);
+
+/** Modules that export Angular's signal binding functions. */
+const SIGNAL_FUNCTION_MODULES = [
+  ANGULAR_CORE_MODULE,
+  ANGULAR_RXJS_INTEROP_MODULE,
+];
+
+/**
+ * Determines which Angular signal function a call expression invokes.
+ * @param node - The call expression node.
+ * @returns The signal function or undefined if the call is not a signal binding.
+ */
+export const getSignalFunction = (
+  node: ts.CallExpression
+): SignalFunction | undefined => {
+  const callee = isRequiredSignal(node)
+    ? (node.expression as ts.PropertyAccessExpression).expression
+    : node.expression;
+  const name = getModuleExportName(callee, SIGNAL_FUNCTION_MODULES);
+  return Object.values(SignalFunction).find((fn) => fn === name);
+};
+
+/**
+ * Gets the options object literal passed to a signal function call.
+ * Outputs and required signals take options first; the rest take them after the initial value.
+ * @param node - The call expression node.
+ * @param signal - The signal function being called.
+ * @returns The options argument or undefined if none was passed.
+ */
+export const getSignalOptions = (
+  node: ts.CallExpression,
+  signal: SignalFunction
+): ts.Node | undefined => {
+  const optionsFirst =
+    signal === SignalFunction.OUTPUT || isRequiredSignal(node);
+  return node.arguments[optionsFirst ? 0 : 1];
+};
+
+/**
+ * Extracts the alias option from a signal function call.
+ * @param node - The call expression node.
+ * @param signal - The signal function being called.
+ * @returns The alias string or empty string if not found.
+ */
+export const getSignalAlias = (
+  node: ts.CallExpression,
+  signal: SignalFunction
+): string =>
+  getStringPropertyValue(getSignalOptions(node, signal), ALIAS_PROPERTY);
+
+/**
+ * Infers a data type from a literal expression.
+ * @param node - The expression node.
+ * @returns The literal's data type or default data type.
+ */
+export const getLiteralTypeName = (node: ts.Node | undefined): string => {
+  if (!node) {
+    return DEFAULT_DATA_TYPE;
+  }
+  if (ts.isStringLiteralLike(node)) {
+    return DataType.STRING;
+  }
+  if (ts.isNumericLiteral(node)) {
+    return DataType.NUMBER;
+  }
+  if (
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword
+  ) {
+    return DataType.BOOLEAN;
+  }
+  return DEFAULT_DATA_TYPE;
+};
+
+/**
+ * Formats a literal initializer as a template expression (e.g., `'md'`, `-1`, `true`).
+ * Strings are single-quoted so they can be placed inside double-quoted HTML attributes.
+ * @param node - The initializer node, if any.
+ * @returns The expression text or empty string if the node is not a simple literal.
+ */
+export const getLiteralText = (node: ts.Node | undefined): string => {
+  if (!node) {
+    return "";
+  }
+  if (ts.isStringLiteralLike(node)) {
+    return `'${node.text.replaceAll(/[\\']/g, String.raw`\$&`)}'`;
+  }
+  if (
+    ts.isNumericLiteral(node) ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    node.kind === ts.SyntaxKind.NullKeyword
+  ) {
+    return node.getText();
+  }
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return `-${node.operand.text}`;
+  }
+  return "";
 };
 
+/**
+ * Reads the value of a literal type (e.g., `'sm'`, `-1` or `true`).
+ * @param node - The type node.
+ * @returns The literal value or undefined if the node is not a string, number or boolean literal type.
+ */
+const getLiteralTypeValue = (node: ts.TypeNode): ChoiceValue | undefined => {
+  if (!ts.isLiteralTypeNode(node)) {
+    return undefined;
+  }
+  const { literal } = node;
+  if (ts.isStringLiteral(literal)) {
+    return literal.text;
+  }
+  if (ts.isNumericLiteral(literal)) {
+    return Number(literal.text);
+  }
+  if (
+    ts.isPrefixUnaryExpression(literal) &&
+    literal.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(literal.operand)
+  ) {
+    return -Number(literal.operand.text);
+  }
+  if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+  return literal.kind === ts.SyntaxKind.FalseKeyword ? false : undefined;
+};
+
+/**
+ * Reads the values of a literal union type written out in source (e.g., `'sm' | 'md'`).
+ * `null` and `undefined` members are ignored, and plain booleans are left to the default
+ * boolean choices.
+ * @param node - The type node, if any.
+ * @returns The literal values, or an empty array if the type is not a union of literals.
+ */
+export const getLiteralUnionValues = (
+  node: ts.TypeNode | undefined
+): ChoiceValue[] => {
+  if (!node) {
+    return [];
+  }
+  const members = (ts.isUnionTypeNode(node) ? node.types : [node]).filter(
+    (member) =>
+      member.kind !== ts.SyntaxKind.UndefinedKeyword &&
+      !(
+        ts.isLiteralTypeNode(member) &&
+        member.literal.kind === ts.SyntaxKind.NullKeyword
+      )
+  );
+  const values = members.map(getLiteralTypeValue);
+  return values.length > 0 &&
+    values.every((value) => value !== undefined) &&
+    !values.every((value) => typeof value === "boolean")
+    ? values
+    : [];
+};
+
+/**
+ * Gets the initial value argument of a signal input or model call.
+ * Required signals and outputs have no initial value.
+ * @param node - The call expression node.
+ * @param signal - The signal function being called.
+ * @returns The initial value node or undefined.
+ */
+export const getSignalInitialValue = (
+  node: ts.CallExpression,
+  signal: SignalFunction
+): ts.Expression | undefined =>
+  (signal === SignalFunction.INPUT || signal === SignalFunction.MODEL) &&
+  !isRequiredSignal(node)
+    ? node.arguments[0]
+    : undefined;
+
+/**
+ * Extracts the value type of a signal function call.
+ * Uses the generic type argument, falling back to the initial value for inputs and models.
+ * @param node - The call expression node.
+ * @param signal - The signal function being called.
+ * @param sourceCode - The source file for text extraction.
+ * @returns The resolved type name or default data type.
+ */
+export const getSignalTypeName = (
+  node: ts.CallExpression,
+  signal: SignalFunction,
+  sourceCode: ts.SourceFile
+): string => {
+  const [typeArg] = node.typeArguments ?? [];
+  if (typeArg) {
+    return typeArg.getText(sourceCode) || DEFAULT_DATA_TYPE;
+  }
+  return getLiteralTypeName(getSignalInitialValue(node, signal));
+};
+
+/**
+ * Gets the text of the JSDoc comment attached to a declaration.
+ * Block tags (e.g., `@param`) are excluded and whitespace is collapsed to single spaces.
+ * @param node - The declaration node.
+ * @returns The comment text or empty string if the declaration is undocumented.
+ */
+export const getDocComment = (node: ts.Node | undefined): string => {
+  const doc = (node ? ts.getJSDocCommentsAndTags(node) : [])
+    .filter(ts.isJSDoc)
+    .at(-1);
+  return (ts.getTextOfJSDocComment(doc?.comment) ?? "")
+    .replaceAll(/\s+/g, " ")
+    .trim();
+};
+
+/**
+ * Finds a JSDoc block tag on a declaration.
+ * @param node - The declaration node.
+ * @param tagName - The tag name without the leading `@`.
+ * @returns The tag or undefined if the declaration does not carry it.
+ */
+const findDocTag = (
+  node: ts.Node | undefined,
+  tagName: DocTag
+): ts.JSDocTag | undefined =>
+  node
+    ? ts.getJSDocTags(node).find((tag) => tag.tagName.text === tagName)
+    : undefined;
+
+/**
+ * Checks if a declaration carries a JSDoc block tag (e.g., `@internal`).
+ * @param node - The declaration node.
+ * @param tagName - The tag name without the leading `@`.
+ * @returns True if the declaration's JSDoc has the tag.
+ */
+export const hasDocTag = (
+  node: ts.Node | undefined,
+  tagName: DocTag
+): boolean => !!findDocTag(node, tagName);
+
+/**
+ * Gets the text following a JSDoc block tag, with whitespace collapsed to single spaces.
+ * @param node - The declaration node.
+ * @param tagName - The tag name without the leading `@`.
+ * @returns The tag text or empty string if the tag is missing or has no text.
+ */
+export const getDocTagText = (
+  node: ts.Node | undefined,
+  tagName: DocTag
+): string =>
+  (ts.getTextOfJSDocComment(findDocTag(node, tagName)?.comment) ?? "")
+    .replaceAll(/\s+/g, " ")
+    .trim();
+
 /**
  * Extracts the class name from a class declaration node.
  * @param node - The AST node to extract the class name from.
@@ -127,23 +706,46 @@ export const getClassName = (node: ts.Node): string =>
   node && ts.isClassDeclaration(node) ? (node.name?.text ?? "") : "";
 
 /**
- * Checks if a node is a property declaration or get accessor.
- * @param node - The node to check.
- * @returns True if the node is a property declaration or get accessor.
+ * Gets the type node declared on a property or accessor.
+ * Setters declare their type on their value parameter.
+ * @param node - The property or accessor node.
+ * @returns The type node or undefined.
  */
-const isPropertyLike = (
-  node: ts.Node
-): node is ts.PropertyDeclaration | ts.GetAccessorDeclaration =>
-  ts.isPropertyDeclaration(node) || ts.isGetAccessorDeclaration(node);
+const getDeclaredTypeNode = (
+  node: ts.PropertyDeclaration | ts.AccessorDeclaration | undefined
+): ts.TypeNode | undefined =>
+  node && ts.isSetAccessor(node) ? node.parameters[0]?.type : node?.type;
+
+/**
+ * Finds the other half of a getter/setter pair.
+ * @param node - The accessor node.
+ * @returns The matching accessor or undefined if the accessor is unpaired.
+ */
+const findAccessorPair = (
+  node: ts.AccessorDeclaration
+): ts.AccessorDeclaration | undefined =>
+  ts.isClassLike(node.parent)
+    ? node.parent.members.find(
+        (member): member is ts.AccessorDeclaration =>
+          member !== node &&
+          ts.isAccessor(member) &&
+          member.name.getText() === node.name.getText()
+      )
+    : undefined;
 
 /**
- * Gets the type node from a property-like declaration.
- * @param node - The property or get accessor node.
+ * Gets the type node of a property or accessor.
+ * Untyped accessors fall back to the type declared on the other half of their pair.
+ * @param node - The property or accessor node.
  * @returns The type node or undefined.
  */
-const getTypeNode = (
-  node: ts.PropertyDeclaration | ts.GetAccessorDeclaration
-): ts.TypeNode | undefined => node.type;
+export const getTypeNode = (
+  node: ts.PropertyDeclaration | ts.AccessorDeclaration
+): ts.TypeNode | undefined =>
+  getDeclaredTypeNode(node) ??
+  (ts.isAccessor(node)
+    ? getDeclaredTypeNode(findAccessorPair(node))
+    : undefined);
 
 /**
  * Extracts the type name from a property declaration with a type reference.
@@ -155,7 +757,7 @@ export const getReferenceTypeName = (
   node: ts.Node,
   sourceCode: ts.SourceFile
 ): string => {
-  if (!node || !isPropertyLike(node)) {
+  if (!node || !isPropertyOrAccessor(node)) {
     return DEFAULT_DATA_TYPE;
   }
 
@@ -194,9 +796,237 @@ export const getTypeName = (
   node: ts.Node,
   sourceCode: ts.SourceFile
 ): string =>
-  ts.isPropertyDeclaration(node) || ts.isGetAccessorDeclaration(node)
-    ? getReferenceTypeName(node, sourceCode)
-    : "";
+  isPropertyOrAccessor(node) ? getReferenceTypeName(node, sourceCode) : "";
+
+/**
+ * Checks if a type node references Angular's `TemplateRef`.
+ * @param node - The type node to check.
+ * @returns True if the node is a `TemplateRef` type reference.
+ */
+export const isTemplateRefType = (
+  node: ts.TypeNode | undefined
+): node is ts.TypeReferenceNode =>
+  !!node &&
+  ts.isTypeReferenceNode(node) &&
+  getAngularCoreName(node.typeName) === TEMPLATE_REF_TYPE;
+
+/**
+ * Checks if an expression is an `inject(TemplateRef)` call.
+ * @param node - The expression to check.
+ * @returns True if the expression injects a `TemplateRef`.
+ */
+export const isTemplateRefInjection = (
+  node: ts.Expression | undefined
+): node is ts.CallExpression =>
+  !!node &&
+  ts.isCallExpression(node) &&
+  getAngularCoreName(node.expression) === INJECT_FUNCTION &&
+  !!node.arguments[0] &&
+  getAngularCoreName(node.arguments[0]) === TEMPLATE_REF_TYPE;
+
+/**
+ * Gets the name of the animation trigger a `trigger('name', [...])` call declares.
+ * @param node - The node to check.
+ * @returns The trigger name or empty string if the node is not a trigger call.
+ */
+export const getTriggerName = (node: ts.Node | undefined): string => {
+  const [name] =
+    node &&
+    ts.isCallExpression(node) &&
+    getModuleExportName(node.expression, [ANGULAR_ANIMATIONS_MODULE]) ===
+      TRIGGER_FUNCTION
+      ? node.arguments
+      : [];
+  return name && ts.isStringLiteralLike(name) ? name.text : "";
+};
+
+/**
+ * Gets the attribute name a constructor parameter reads with `@Attribute('name')`.
+ * @param parameter - The constructor parameter node.
+ * @returns The attribute name or empty string if the parameter is not attribute-injected.
+ */
+export const getAttributeDecoratorName = (
+  parameter: ts.ParameterDeclaration
+): string => {
+  const decorator = ts
+    .getDecorators(parameter)
+    ?.find((d) => isDecorator(d, DecoratorType.ATTRIBUTE));
+  const [name] =
+    decorator && ts.isCallExpression(decorator.expression)
+      ? decorator.expression.arguments
+      : [];
+  return name && ts.isStringLiteralLike(name) ? name.text : "";
+};
+
+/**
+ * Gets the attribute name an `inject(new HostAttributeToken('name'))` call reads.
+ * @param node - The expression to check.
+ * @returns The attribute name or empty string if the expression does not inject a host attribute.
+ */
+export const getHostAttributeName = (
+  node: ts.Expression | undefined
+): string => {
+  const [token] =
+    node &&
+    ts.isCallExpression(node) &&
+    getAngularCoreName(node.expression) === INJECT_FUNCTION
+      ? node.arguments
+      : [];
+  const [name] =
+    token &&
+    ts.isNewExpression(token) &&
+    getAngularCoreName(token.expression) === HOST_ATTRIBUTE_TOKEN
+      ? (token.arguments ?? [])
+      : [];
+  return name && ts.isStringLiteralLike(name) ? name.text : "";
+};
+
+/**
+ * Checks if an `inject()` call is passed `{ optional: true }`.
+ * @param node - The expression to check.
+ * @returns True if the expression is an optional injection.
+ */
+export const isOptionalInjection = (node: ts.Expression | undefined): boolean =>
+  !!node &&
+  ts.isCallExpression(node) &&
+  getBooleanPropertyValue(node.arguments[1], OPTIONAL_PROPERTY);
+
+/**
+ * Gets the `TemplateRef` types a class member receives, from constructor parameters or
+ * the annotation and type argument of an `inject(TemplateRef)` property. Other properties
+ * typed `TemplateRef`, such as template inputs or content queries, are not injected.
+ * @param member - The class member node.
+ * @returns The `TemplateRef` type references.
+ */
+const getTemplateRefTypes = (
+  member: ts.ClassElement
+): ts.TypeReferenceNode[] => {
+  if (ts.isConstructorDeclaration(member)) {
+    return member.parameters.map((p) => p.type).filter(isTemplateRefType);
+  }
+  if (
+    !ts.isPropertyDeclaration(member) ||
+    !isTemplateRefInjection(member.initializer)
+  ) {
+    return [];
+  }
+  return [member.type, member.initializer.typeArguments?.[0]].filter(
+    isTemplateRefType
+  );
+};
+
+/**
+ * Checks if a class member receives a `TemplateRef`, through its constructor or `inject()`.
+ * @param member - The class member node.
+ * @returns True if the member receives a `TemplateRef`.
+ */
+export const injectsTemplateRef = (member: ts.ClassElement): boolean =>
+  getTemplateRefTypes(member).length > 0 ||
+  (ts.isPropertyDeclaration(member) &&
+    isTemplateRefInjection(member.initializer));
+
+/**
+ * Gets the template context type of a `TemplateRef<Context>` a class member receives.
+ * @param member - The class member node.
+ * @returns The context type node or undefined if none is declared.
+ */
+export const getTemplateRefContextType = (
+  member: ts.ClassElement
+): ts.TypeNode | undefined =>
+  getTemplateRefTypes(member)
+    .map((type) => type.typeArguments?.[0])
+    .find(Boolean);
+
+/**
+ * Checks if a class member is a static `ngTemplateContextGuard` method.
+ * @param member - The class member node.
+ * @returns True if the member is a template context guard.
+ */
+export const isTemplateContextGuard = (
+  member: ts.ClassElement
+): member is ts.MethodDeclaration =>
+  ts.isMethodDeclaration(member) &&
+  isIdentifier(member.name, TEMPLATE_CONTEXT_GUARD) &&
+  !!member.modifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword);
+
+/**
+ * Gets the context type narrowed by a template context guard (e.g., `ctx is LetContext`).
+ * @param member - The class member node.
+ * @returns The context type node or undefined if the member is not a typed guard.
+ */
+export const getContextGuardType = (
+  member: ts.ClassElement
+): ts.TypeNode | undefined =>
+  isTemplateContextGuard(member) &&
+  member.type &&
+  ts.isTypePredicateNode(member.type)
+    ? member.type.type
+    : undefined;
+
+/**
+ * Finds the members of the interface, class or type literal alias a type reference names.
+ * @param node - The type node.
+ * @param sourceCode - The source file searched for the declaration.
+ * @returns The declaration's members, or an empty array if it is not declared in the file.
+ */
+const findTypeMembers = (
+  node: ts.TypeNode | undefined,
+  sourceCode: ts.SourceFile
+): readonly ts.Node[] => {
+  if (
+    !node ||
+    !ts.isTypeReferenceNode(node) ||
+    !ts.isIdentifier(node.typeName)
+  ) {
+    return [];
+  }
+  const name = node.typeName.text;
+  for (const statement of sourceCode.statements) {
+    if (
+      (ts.isInterfaceDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name?.text === name
+    ) {
+      return statement.members;
+    }
+    if (
+      ts.isTypeAliasDeclaration(statement) &&
+      statement.name.text === name &&
+      ts.isTypeLiteralNode(statement.type)
+    ) {
+      return statement.type.members;
+    }
+  }
+  return [];
+};
+
+/**
+ * Gets the property names of a type literal, or of an interface, class or type alias
+ * declared in the same source file.
+ * @param node - The type node.
+ * @param sourceCode - The source file searched for referenced declarations.
+ * @returns The property names, or an empty array if the type cannot be resolved.
+ */
+export const getTypeMemberNames = (
+  node: ts.TypeNode | undefined,
+  sourceCode: ts.SourceFile
+): string[] => {
+  const members: readonly ts.Node[] =
+    node && ts.isTypeLiteralNode(node)
+      ? node.members
+      : findTypeMembers(node, sourceCode);
+  return members
+    .filter(
+      (member): member is ts.PropertySignature | ts.PropertyDeclaration =>
+        ts.isPropertySignature(member) || ts.isPropertyDeclaration(member)
+    )
+    .map((member) =>
+      ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)
+        ? member.name.text
+        : ""
+    )
+    .filter(Boolean);
+};
 
 /** Mapping of boolean type values for snippet completion. */
 export const BOOLEAN_VALUES = "|true,false|" as const;
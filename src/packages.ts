@@ -0,0 +1,181 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from "node:path";
+
+import { throwIfCancelled } from "./concurrency";
+import { Path } from "./constants";
+import { defaultFileSystem, FileSystemProvider } from "./files";
+import { ANGULAR_CORE_MODULE, CancellationSignal, FileReader } from "./types";
+
+/**
+ * An installed package that ships compiled Angular artifacts.
+ */
+export interface AngularPackage {
+  /** The package name (e.g., `@angular/material`). */
+  readonly name: string;
+  /** The installed version, or empty string if unknown. */
+  readonly version: string;
+  /** The package directory. */
+  readonly path: string;
+}
+
+/** The package.json fields read to identify Angular libraries. */
+interface PackageManifest {
+  readonly name?: unknown;
+  readonly version?: unknown;
+  readonly dependencies?: unknown;
+  readonly peerDependencies?: unknown;
+}
+
+/** Prefix of scoped package directories in node_modules (e.g., `@angular`). */
+const SCOPE_PREFIX = "@";
+
+/** Prefix of hidden node_modules entries such as `.bin` and `.cache`. */
+const HIDDEN_PREFIX = ".";
+
+/**
+ * Finds the node_modules folder of the Angular workspace containing a directory,
+ * identified by an installed `@angular/core` package.
+ * @param fromDir - The directory to start from.
+ * @param readFile - The file reader used to probe for the package.
+ * @returns The node_modules path or undefined if Angular is not installed.
+ */
+export const findNodeModulesDir = (
+  fromDir: string,
+  readFile: FileReader
+): string | undefined => {
+  let dir = path.resolve(fromDir);
+  for (;;) {
+    const nodeModulesDir = path.join(dir, Path.NODE_MODULES_DIR);
+    const corePackage = path.join(
+      nodeModulesDir,
+      ANGULAR_CORE_MODULE,
+      Path.PACKAGE_JSON_FILE
+    );
+    if (readFile(corePackage)) {
+      return nodeModulesDir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+};
+
+/**
+ * Reads a package.json file.
+ * @param packageDir - The package directory.
+ * @param fileSystem - The file system provider used to load the manifest.
+ * @returns The manifest or undefined if it is missing or invalid.
+ */
+const readManifest = async (
+  packageDir: string,
+  fileSystem: FileSystemProvider
+): Promise<PackageManifest | undefined> => {
+  try {
+    const manifest: unknown = JSON.parse(
+      await fileSystem.readFile(path.join(packageDir, Path.PACKAGE_JSON_FILE))
+    );
+    return manifest && typeof manifest === "object" ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks if a package depends on `@angular/core`, directly or as a peer.
+ * @param manifest - The package manifest.
+ * @returns True if the package is an Angular library.
+ */
+const isAngularLibrary = (manifest: PackageManifest): boolean =>
+  [manifest.dependencies, manifest.peerDependencies].some(
+    (dependencies) =>
+      !!dependencies &&
+      typeof dependencies === "object" &&
+      Object.hasOwn(dependencies, ANGULAR_CORE_MODULE)
+  );
+
+/**
+ * Lists the package directories in a node_modules folder, including scoped packages.
+ * Symbolic links are followed so that linked and pnpm-installed packages are found.
+ * @param nodeModulesDir - The node_modules folder.
+ * @param fileSystem - The file system provider used to list directories.
+ * @param token - Optional cancellation signal that aborts the scan.
+ * @returns The package directories.
+ * @throws CancelledError if cancellation was requested.
+ */
+const listPackageDirs = async (
+  nodeModulesDir: string,
+  fileSystem: FileSystemProvider,
+  token?: CancellationSignal
+): Promise<string[]> => {
+  throwIfCancelled(token);
+  const entries = await fileSystem.readDir(nodeModulesDir);
+  const dirs = await Promise.all(
+    entries
+      .filter(
+        (dirent) =>
+          (dirent.isDirectory() || dirent.isSymbolicLink()) &&
+          !dirent.name.startsWith(HIDDEN_PREFIX)
+      )
+      .map(async (dirent) => {
+        const dirPath = path.join(nodeModulesDir, dirent.name);
+        return dirent.name.startsWith(SCOPE_PREFIX)
+          ? listPackageDirs(dirPath, fileSystem, token)
+          : [dirPath];
+      })
+  );
+  return dirs.flat();
+};
+
+/**
+ * Finds the installed packages that ship compiled Angular artifacts.
+ * Pass a file system wrapped with `limitFileSystem` to bound the number of open files.
+ * @param nodeModulesDir - The node_modules folder to search.
+ * @param fileSystem - Optional file system provider for dependency injection.
+ * @param token - Optional cancellation signal that aborts the scan.
+ * @returns The Angular packages, sorted by name.
+ * @throws CancelledError if cancellation was requested.
+ */
+export const findAngularPackages = async (
+  nodeModulesDir: string,
+  fileSystem: FileSystemProvider = defaultFileSystem,
+  token?: CancellationSignal
+): Promise<AngularPackage[]> => {
+  const packageDirs = await listPackageDirs(nodeModulesDir, fileSystem, token);
+  const packages = await Promise.all(
+    packageDirs.map(async (packageDir): Promise<AngularPackage[]> => {
+      const manifest = await readManifest(packageDir, fileSystem);
+      throwIfCancelled(token);
+      return manifest && isAngularLibrary(manifest)
+        ? [
+            {
+              name:
+                typeof manifest.name === "string"
+                  ? manifest.name
+                  : path.relative(nodeModulesDir, packageDir),
+              version:
+                typeof manifest.version === "string" ? manifest.version : "",
+              path: packageDir,
+            },
+          ]
+        : [];
+    })
+  );
+  return packages.flat().sort((a, b) => a.name.localeCompare(b.name));
+};
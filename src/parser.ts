@@ -14,37 +14,52 @@
  * limitations under the License.
  */
 
+import path from "node:path";
+
 import * as ts from "typescript";
 
+import { getTypeChoices } from "./checker";
 import { ArtifactKind } from "./constants";
+import * as ivy from "./ivy";
 import * as nodes from "./nodes";
 import {
+  resolveBaseClass,
+  resolveClass,
+  resolveEntityClass,
+  resolveVariable,
+} from "./resolver";
+import { findContentSlots } from "./template";
+import {
+  ALIAS_PROPERTY,
   AngularInfo,
+  ANIMATIONS_PROPERTY,
   ComponentInfo,
+  DataType,
   DecoratorType,
+  DEFAULT_DATA_TYPE,
+  DIRECTIVE_PROPERTY,
   DirectiveInfo,
+  DocTag,
+  EXPORT_AS_PROPERTY,
+  HOST_DIRECTIVES_PROPERTY,
+  INPUTS_PROPERTY,
+  IvyDeclarationType,
+  MODEL_CHANGE_SUFFIX,
   NAME_PROPERTY,
+  OUTPUTS_PROPERTY,
+  ParseContext,
   PipeInfo,
+  PipeParameter,
+  PipeSignature,
   Property,
+  REQUIRED_PROPERTY,
   SELECTOR_PROPERTY,
+  SignalFunction,
+  TEMPLATE_PROPERTY,
+  TEMPLATE_URL_PROPERTY,
+  TRANSFORM_METHOD,
 } from "./types";
 
-/**
- * Creates a TypeScript source file from source text.
- * @param sourceText - The TypeScript source code string.
- * @returns The parsed source file or undefined if empty.
- */
-const createSourceFile = (sourceText = ""): ts.SourceFile | undefined =>
-  sourceText
-    ? ts.createSourceFile(
-        "temp.ts",
-        sourceText,
-        ts.ScriptTarget.Latest,
-        true,
-        ts.ScriptKind.TS
-      )
-    : undefined;
-
 /**
  * Extracts a string property value from a decorator.
  * @param decorator - The decorator node.
@@ -60,22 +75,49 @@ const extractStringPropertyFromDecorator = (
   }
 
   for (const arg of decorator.expression.arguments ?? []) {
-    if (!ts.isObjectLiteralExpression(arg)) {
-      continue;
+    const value = nodes.getStringPropertyValue(arg, propertyName);
+    if (value) {
+      return value;
     }
+  }
+  return "";
+};
+
+/**
+ * Gets the initializer of a property assigned in a decorator's metadata object.
+ * @param decorator - The decorator node, if any.
+ * @param propertyName - The property name to find.
+ * @returns The property initializer or undefined if not found.
+ */
+const getDecoratorPropertyInitializer = (
+  decorator: ts.Decorator | undefined,
+  propertyName: string
+): ts.Expression | undefined => {
+  if (!decorator || !ts.isCallOrNewExpression(decorator.expression)) {
+    return undefined;
+  }
 
-    const prop = nodes.findAssignedProperty(arg, propertyName);
-    if (
-      prop &&
-      ts.isPropertyAssignment(prop) &&
-      ts.isStringLiteralLike(prop.initializer)
-    ) {
-      return prop.initializer.text;
+  for (const arg of decorator.expression.arguments ?? []) {
+    const initializer = nodes.getPropertyInitializer(arg, propertyName);
+    if (initializer) {
+      return initializer;
     }
   }
-  return "";
+  return undefined;
 };
 
+/**
+ * Creates a predicate matching decorators of a type, including the custom decorators
+ * the parse context maps to it.
+ * @param type - The decorator type to match.
+ * @param context - The parse context holding the custom decorator mapping, if any.
+ * @returns The decorator predicate function.
+ */
+const matchDecorator =
+  (type: DecoratorType, context?: ParseContext) =>
+  (node: ts.Decorator): boolean =>
+    nodes.isDecorator(node, type, context?.customDecorators);
+
 /**
  * Finds a decorator of the specified type on a class.
  * @param node - The class declaration node.
@@ -108,120 +150,969 @@ const getSelectorName = (
     : "";
 };
 
+/**
+ * Gets the names a component or directive is exported as to templates.
+ * @param node - The class declaration node.
+ * @param predicate - The decorator predicate function.
+ * @returns An object holding the comma-separated `exportAs` names, or an empty object if there are none.
+ */
+const getExportAs = (
+  node: ts.ClassDeclaration,
+  predicate: (d: ts.Decorator) => boolean
+): Pick<DirectiveInfo, "exportAs"> => {
+  const decorator = findDecorator(node, predicate);
+  const exportAs = (
+    decorator
+      ? extractStringPropertyFromDecorator(decorator, EXPORT_AS_PROPERTY)
+      : ""
+  )
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return exportAs.length ? { exportAs } : {};
+};
+
 /**
  * Gets the pipe name from a class declaration.
  * @param node - The class declaration node.
+ * @param context - The parse context holding the custom decorator mapping, if any.
  * @returns The pipe name or empty string.
  */
-const getPipeName = (node: ts.ClassDeclaration): string => {
-  const decorator = findDecorator(node, nodes.isPipe);
+const getPipeName = (
+  node: ts.ClassDeclaration,
+  context?: ParseContext
+): string => {
+  const decorator = findDecorator(
+    node,
+    matchDecorator(DecoratorType.PIPE, context)
+  );
   return decorator
     ? extractStringPropertyFromDecorator(decorator, NAME_PROPERTY)
     : "";
 };
 
+/** Signal functions that declare an input binding. */
+const SIGNAL_INPUTS: readonly SignalFunction[] = [
+  SignalFunction.INPUT,
+  SignalFunction.MODEL,
+];
+
+/** Signal functions that declare an output binding. */
+const SIGNAL_OUTPUTS: readonly SignalFunction[] = [
+  SignalFunction.OUTPUT,
+  SignalFunction.OUTPUT_FROM_OBSERVABLE,
+];
+
 /**
- * Extracts properties with a specific decorator type from a class.
- * @param classNode - The class declaration node.
+ * Creates a property, including binding options only when they are set.
+ * @param name - The binding name.
+ * @param type - The binding type.
+ * @param options - The options object literal declaring `required` and `transform`.
+ * @param required - Whether the binding is required regardless of its options.
+ * @returns The property object.
+ */
+const createProperty = (
+  name: string,
+  type: string,
+  options?: ts.Node,
+  required = false
+): Property => {
+  const isRequired =
+    required || nodes.getBooleanPropertyValue(options, REQUIRED_PROPERTY);
+  const transform = nodes.getTransformName(options);
+  return {
+    name,
+    type,
+    ...(isRequired && { required: true }),
+    ...(transform && { transform }),
+  };
+};
+
+/**
+ * Reads the JSDoc comment of a declaration as a description.
+ * @param node - The class or class member node, if any.
+ * @returns An object holding the description, or an empty object if the node is undocumented.
+ */
+const getDescription = (
+  node: ts.Node | undefined
+): { description?: string } => {
+  const description = nodes.getDocComment(node);
+  return description ? { description } : {};
+};
+
+/** JSDoc tags that leave a class or binding out of snippet generation. */
+const EXCLUDING_TAGS: readonly DocTag[] = [
+  DocTag.INTERNAL,
+  DocTag.SNIPPET_IGNORE,
+];
+
+/**
+ * Checks if a declaration is marked `@internal` or `@snippet-ignore`.
+ * @param node - The class or class member node, if any.
+ * @returns True if the declaration is left out of snippet generation.
+ */
+const isExcluded = (node: ts.Node | undefined): boolean =>
+  EXCLUDING_TAGS.some((tag) => nodes.hasDocTag(node, tag));
+
+/**
+ * Reads the JSDoc comment and `@deprecated` note of a binding's class member.
+ * @param node - The class member node, if any.
+ * @returns An object holding the description and deprecation note, omitting those that are not set.
+ */
+const getBindingDocs = (
+  node: ts.Node | undefined
+): Pick<Property, "description" | "deprecated"> => ({
+  ...getDescription(node),
+  ...(nodes.hasDocTag(node, DocTag.DEPRECATED) && {
+    deprecated: nodes.getDocTagText(node, DocTag.DEPRECATED),
+  }),
+});
+
+/**
+ * Reads a literal initial value of an input as its default value.
+ * @param node - The initializer node, if any.
+ * @returns An object holding the default value, or an empty object if the value is not a literal.
+ */
+const getDefaultValue = (
+  node: ts.Node | undefined
+): Pick<Property, "defaultValue"> => {
+  const defaultValue = nodes.getLiteralText(node);
+  return defaultValue ? { defaultValue } : {};
+};
+
+/**
+ * Gets the initializer of a property declaration.
+ * @param member - The class member node, if any.
+ * @returns The initializer or undefined for accessors and uninitialized properties.
+ */
+const getMemberInitializer = (
+  member: ts.ClassElement | undefined
+): ts.Expression | undefined =>
+  member && ts.isPropertyDeclaration(member) ? member.initializer : undefined;
+
+/**
+ * Resolves the literal choices of an input's declared type when a type-checked program is available.
+ * @param typeNode - The declared type node.
+ * @param decoratorType - The binding direction being extracted.
+ * @param context - The parse context providing the program, if any.
+ * @returns An object holding the choices, or an empty object if there are none.
+ */
+const getInputChoices = (
+  typeNode: ts.TypeNode | undefined,
+  decoratorType: DecoratorType,
+  context: ParseContext | undefined
+): Pick<Property, "choices"> => {
+  const choices =
+    decoratorType === DecoratorType.INPUT
+      ? getTypeChoices(typeNode, context?.program)
+      : [];
+  return choices.length ? { choices } : {};
+};
+
+/**
+ * Gets the name of a class member.
+ * @param member - The class member node.
+ * @returns The member name or empty string if not a plain identifier.
+ */
+const getMemberName = (member: ts.ClassElement): string =>
+  member.name && ts.isIdentifier(member.name) ? member.name.text : "";
+
+/**
+ * Extracts properties declared with a specific decorator type on a class member.
+ * @param member - The property or accessor node.
  * @param decoratorType - The decorator type to filter by.
  * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context providing the type-checked program, if any.
  * @returns Array of extracted properties.
  */
 const extractDecoratorProperties = (
+  member: ts.PropertyDeclaration | ts.AccessorDeclaration,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): Property[] =>
+  (ts.getDecorators(member) ?? [])
+    .filter((d): d is ts.Decorator =>
+      nodes.isDecorator(d, decoratorType, context?.customDecorators)
+    )
+    .map((decorator) => ({
+      ...createProperty(
+        nodes.getAliasName(decorator.expression) || getMemberName(member),
+        nodes.getTypeName(member, sourceCode),
+        nodes.getDecoratorOptions(decorator.expression)
+      ),
+      ...getBindingDocs(member),
+      ...(decoratorType === DecoratorType.INPUT &&
+        getDefaultValue(getMemberInitializer(member))),
+      ...getInputChoices(nodes.getTypeNode(member), decoratorType, context),
+    }));
+
+/**
+ * Extracts properties declared with signal functions on a class member.
+ * A `model()` declares both an input and a matching `Change` output.
+ * @param member - The property or accessor node.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context providing the type-checked program, if any.
+ * @returns Array of extracted properties.
+ */
+const extractSignalProperties = (
+  member: ts.PropertyDeclaration | ts.AccessorDeclaration,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): Property[] => {
+  const call = nodes.getInitializerCall(member);
+  const signal = call ? nodes.getSignalFunction(call) : undefined;
+  if (!call || !signal) {
+    return [];
+  }
+
+  const name = nodes.getSignalAlias(call, signal) || getMemberName(member);
+  const type = nodes.getSignalTypeName(call, signal, sourceCode);
+
+  if (decoratorType === DecoratorType.INPUT) {
+    return SIGNAL_INPUTS.includes(signal)
+      ? [
+          {
+            ...createProperty(
+              name,
+              type,
+              nodes.getSignalOptions(call, signal),
+              nodes.isRequiredSignal(call)
+            ),
+            ...getBindingDocs(member),
+            ...getDefaultValue(nodes.getSignalInitialValue(call, signal)),
+            ...getInputChoices(call.typeArguments?.[0], decoratorType, context),
+          },
+        ]
+      : [];
+  }
+  if (signal === SignalFunction.MODEL) {
+    return [
+      {
+        name: name && `${name}${MODEL_CHANGE_SUFFIX}`,
+        type,
+        ...getBindingDocs(member),
+      },
+    ];
+  }
+  return SIGNAL_OUTPUTS.includes(signal)
+    ? [{ name, type, ...getBindingDocs(member) }]
+    : [];
+};
+
+/**
+ * Extracts binding properties of a specific direction from a class.
+ * Combines decorator-based and signal-based declarations in member order,
+ * skipping members marked `@internal` or `@snippet-ignore`.
+ * @param classNode - The class declaration node.
+ * @param decoratorType - The decorator type to filter by.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context providing the type-checked program, if any.
+ * @returns Array of extracted properties.
+ */
+const extractBindingProperties = (
   classNode: ts.ClassDeclaration,
   decoratorType: DecoratorType,
-  sourceCode: ts.SourceFile
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
 ): Property[] =>
-  classNode.members.filter(nodes.isPropertyOrGetAccessor).flatMap((member) => {
-    const decorators = ts.getDecorators(member) ?? [];
-    return decorators
-      .filter((d): d is ts.Decorator => nodes.isDecorator(d, decoratorType))
-      .map((decorator) => ({
-        name:
-          nodes.getAliasName(decorator.expression) ||
-          (ts.isIdentifier(member.name) ? member.name.text : ""),
-        type: nodes.getTypeName(member, sourceCode),
-      }));
+  classNode.members
+    .filter(nodes.isPropertyOrAccessor)
+    .filter((member) => !isExcluded(member))
+    .flatMap((member) => [
+      ...extractDecoratorProperties(member, decoratorType, sourceCode, context),
+      ...extractSignalProperties(member, decoratorType, sourceCode, context),
+    ]);
+
+/** A binding declared in a decorator's `inputs` or `outputs` metadata array. */
+interface MetadataBinding {
+  /** The class member backing the binding. */
+  readonly member: string;
+  /** The public binding name. */
+  readonly name: string;
+  /** The object form entry holding the binding options, if any. */
+  readonly options?: ts.ObjectLiteralExpression;
+}
+
+/** Decorator metadata array property for each binding direction. */
+const METADATA_PROPERTIES: Readonly<Record<string, string>> = {
+  [DecoratorType.INPUT]: INPUTS_PROPERTY,
+  [DecoratorType.OUTPUT]: OUTPUTS_PROPERTY,
+};
+
+/**
+ * Parses a metadata binding in the `'member: alias'` string or
+ * `{ name, alias, required, transform }` object form.
+ * @param node - The array element node.
+ * @returns The parsed binding or undefined if the element is not supported.
+ */
+const parseMetadataBinding = (
+  node: ts.Expression
+): MetadataBinding | undefined => {
+  if (ts.isStringLiteralLike(node)) {
+    const [member = "", alias = ""] = node.text
+      .split(":")
+      .map((part) => part.trim());
+    return { member, name: alias || member };
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const member = nodes.getStringPropertyValue(node, NAME_PROPERTY);
+    const alias = nodes.getStringPropertyValue(node, ALIAS_PROPERTY);
+    return { member, name: alias || member, options: node };
+  }
+  return undefined;
+};
+
+/**
+ * Extracts properties declared in a decorator's `inputs` or `outputs` metadata array.
+ * Types are taken from the matching class member when one exists.
+ * @param classNode - The class declaration node.
+ * @param decorator - The Angular class decorator.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context providing the type-checked program, if any.
+ * @returns Array of extracted properties.
+ */
+const extractMetadataProperties = (
+  classNode: ts.ClassDeclaration,
+  decorator: ts.Decorator | undefined,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): Property[] => {
+  const elements = nodes.getArrayElements(
+    getDecoratorPropertyInitializer(
+      decorator,
+      METADATA_PROPERTIES[decoratorType]
+    )
+  );
+
+  return elements.flatMap((element): Property[] => {
+    const binding = parseMetadataBinding(element);
+    const member = classNode.members
+      .filter(nodes.isPropertyOrAccessor)
+      .find((m) => getMemberName(m) === binding?.member);
+    if (!binding?.name || isExcluded(member)) {
+      return [];
+    }
+    const type =
+      (member && nodes.getTypeName(member, sourceCode)) || DEFAULT_DATA_TYPE;
+    return [
+      {
+        ...createProperty(binding.name, type, binding.options),
+        ...getBindingDocs(member),
+        ...(decoratorType === DecoratorType.INPUT &&
+          getDefaultValue(getMemberInitializer(member))),
+        ...getInputChoices(
+          member && nodes.getTypeNode(member),
+          decoratorType,
+          context
+        ),
+      },
+    ];
   });
+};
+
+/**
+ * Merges property lists, keeping the first property declared for each binding name.
+ * @param groups - The property lists in priority order.
+ * @returns The de-duplicated properties.
+ */
+const mergeProperties = (...groups: readonly Property[][]): Property[] => {
+  const seen = new Set<string>();
+  return groups.flat().filter((property) => {
+    if (property.name && seen.has(property.name)) {
+      return false;
+    }
+    seen.add(property.name);
+    return true;
+  });
+};
+
+/**
+ * Extracts the public bindings of the directive referenced by a host directive entry.
+ * @param entry - The host directive entry node.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The source file declaring the host.
+ * @param context - The parse context used to resolve directives in other files.
+ * @param visited - Keys of the classes already visited.
+ * @returns The directive's properties, or an empty array if it cannot be resolved.
+ */
+const extractHostDirectiveSource = (
+  entry: ts.Expression,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined,
+  visited: ReadonlySet<string>
+): Property[] => {
+  const name = nodes.getIdentifierPropertyValue(entry, DIRECTIVE_PROPERTY);
+  const directive = name ? resolveClass(name, sourceCode, context) : undefined;
+  return directive &&
+    !visited.has(getClassKey(directive.classNode, directive.sourceCode))
+    ? extractProperties(
+        directive.classNode,
+        matchDecorator(DecoratorType.DIRECTIVE, context),
+        decoratorType,
+        directive.sourceCode,
+        context,
+        new Set(visited)
+      )
+    : [];
+};
+
+/**
+ * Extracts the bindings a class exposes from its host directives.
+ * Only bindings listed in a host directive entry's `inputs`/`outputs` arrays are
+ * exposed, under their `'name: alias'` alias when one is given.
+ * @param decorator - The Angular class decorator.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The source file declaring the class.
+ * @param context - The parse context used to resolve directives in other files.
+ * @param visited - Keys of the classes already visited.
+ * @returns Array of exposed properties.
+ */
+const extractHostDirectiveProperties = (
+  decorator: ts.Decorator | undefined,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined,
+  visited: ReadonlySet<string>
+): Property[] =>
+  nodes
+    .getArrayElements(
+      getDecoratorPropertyInitializer(decorator, HOST_DIRECTIVES_PROPERTY)
+    )
+    .flatMap((entry): Property[] => {
+      const source = extractHostDirectiveSource(
+        entry,
+        decoratorType,
+        sourceCode,
+        context,
+        visited
+      );
+      const exposed = nodes.getArrayElements(
+        nodes.getPropertyInitializer(entry, METADATA_PROPERTIES[decoratorType])
+      );
+
+      return exposed.flatMap((element): Property[] => {
+        const binding = parseMetadataBinding(element);
+        const property = source.find((p) => p.name === binding?.member);
+        if (!binding?.name) {
+          return [];
+        }
+        return [
+          property
+            ? { ...property, name: binding.name }
+            : { name: binding.name, type: DEFAULT_DATA_TYPE },
+        ];
+      });
+    });
+
+/**
+ * Creates a predicate matching decorators that declare a class able to contribute inherited bindings.
+ * @param context - The parse context holding the custom decorator mapping, if any.
+ * @returns A predicate matching Component and Directive decorators.
+ */
+const matchBindingClassDecorator =
+  (context?: ParseContext) =>
+  (node: ts.Decorator): boolean =>
+    matchDecorator(DecoratorType.COMPONENT, context)(node) ||
+    matchDecorator(DecoratorType.DIRECTIVE, context)(node);
+
+/**
+ * Builds a key identifying a class across source files.
+ * @param classNode - The class declaration node.
+ * @param sourceCode - The source file declaring the class.
+ * @returns The class key.
+ */
+const getClassKey = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile
+): string => `${sourceCode.fileName}#${nodes.getClassName(classNode)}`;
+
+/**
+ * Extracts all properties of a binding direction from a class and its base classes.
+ * Member declarations take precedence over decorator metadata arrays and host
+ * directives, and subclass declarations override inherited ones with the same binding name.
+ * @param classNode - The class declaration node.
+ * @param predicate - The class decorator predicate function.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
+ * @param visited - Keys of the classes already visited in the hierarchy.
+ * @returns Array of extracted properties.
+ */
+const extractProperties = (
+  classNode: ts.ClassDeclaration,
+  predicate: (d: ts.Decorator) => boolean,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext,
+  visited = new Set<string>()
+): Property[] => {
+  visited.add(getClassKey(classNode, sourceCode));
+  const base = resolveBaseClass(classNode, sourceCode, context);
+  const inherited =
+    base && !visited.has(getClassKey(base.classNode, base.sourceCode))
+      ? extractProperties(
+          base.classNode,
+          matchBindingClassDecorator(context),
+          decoratorType,
+          base.sourceCode,
+          context,
+          visited
+        )
+      : [];
+
+  const decorator = findDecorator(classNode, predicate);
+  return mergeProperties(
+    extractBindingProperties(classNode, decoratorType, sourceCode, context),
+    extractMetadataProperties(
+      classNode,
+      decorator,
+      decoratorType,
+      sourceCode,
+      context
+    ),
+    extractHostDirectiveProperties(
+      decorator,
+      decoratorType,
+      sourceCode,
+      context,
+      visited
+    ),
+    inherited
+  );
+};
+
+/**
+ * Reads a component's template from its inline `template` or its `templateUrl` file.
+ * @param classNode - The component class declaration node.
+ * @param sourceCode - The source file the component is declared in.
+ * @param context - The parse context used to read the template file.
+ * @returns The template HTML or empty string if it cannot be read.
+ */
+const getComponentTemplate = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined
+): string => {
+  const decorator = findDecorator(
+    classNode,
+    matchDecorator(DecoratorType.COMPONENT, context)
+  );
+  if (!decorator) {
+    return "";
+  }
+  const template = extractStringPropertyFromDecorator(
+    decorator,
+    TEMPLATE_PROPERTY
+  );
+  const templateUrl = extractStringPropertyFromDecorator(
+    decorator,
+    TEMPLATE_URL_PROPERTY
+  );
+  return (
+    template ||
+    (templateUrl && context
+      ? context.readFile(
+          path.resolve(path.dirname(sourceCode.fileName), templateUrl)
+        )
+      : "")
+  );
+};
+
+/**
+ * Finds the content projection slots of a component template.
+ * @param template - The component template HTML.
+ * @returns An object holding the slots, or an empty object if the template has none.
+ */
+const getContentSlots = (
+  template: string
+): Pick<ComponentInfo, "contentSlots"> => {
+  const contentSlots = findContentSlots(template);
+  return contentSlots.length ? { contentSlots } : {};
+};
+
+/** Maximum number of variable references followed when collecting animation triggers. */
+const MAX_TRIGGER_DEPTH = 5;
+
+/**
+ * Collects the names of the animation triggers an `animations` expression declares.
+ * Follows array literals, spread elements, and variables or object properties holding
+ * triggers, including those imported from shared animation files.
+ * @param node - The expression, if any.
+ * @param sourceCode - The source file the expression is written in.
+ * @param context - The parse context used to read imported modules.
+ * @param depth - The number of variable references followed so far.
+ * @returns The trigger names, in declaration order.
+ */
+const collectTriggerNames = (
+  node: ts.Expression | undefined,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined,
+  depth = 0
+): string[] => {
+  const name = nodes.getTriggerName(node);
+  if (!node || name) {
+    return name ? [name] : [];
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.flatMap((element) =>
+      collectTriggerNames(
+        ts.isSpreadElement(element) ? element.expression : element,
+        sourceCode,
+        context,
+        depth
+      )
+    );
+  }
+  const [variableName, propertyName] = ts.isIdentifier(node)
+    ? [node.text]
+    : ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)
+      ? [node.expression.text, node.name.text]
+      : [];
+  const resolved =
+    variableName && depth < MAX_TRIGGER_DEPTH
+      ? resolveVariable(variableName, sourceCode, context)
+      : undefined;
+  if (!resolved) {
+    return [];
+  }
+  const { initializer } = resolved.node;
+  return collectTriggerNames(
+    propertyName
+      ? nodes.getPropertyInitializer(initializer, propertyName)
+      : initializer,
+    resolved.sourceCode,
+    context,
+    depth + 1
+  );
+};
+
+/**
+ * Finds the animation triggers declared in a component's `animations` metadata.
+ * @param classNode - The component class declaration node.
+ * @param sourceCode - The source file the component is declared in.
+ * @param context - The parse context used to read shared animation files.
+ * @returns An object holding the trigger names, or an empty object if there are none.
+ */
+const getAnimationTriggers = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined
+): Pick<ComponentInfo, "animationTriggers"> => {
+  const animations = getDecoratorPropertyInitializer(
+    findDecorator(classNode, matchDecorator(DecoratorType.COMPONENT, context)),
+    ANIMATIONS_PROPERTY
+  );
+  const animationTriggers = [
+    ...new Set(collectTriggerNames(animations, sourceCode, context)),
+  ];
+  return animationTriggers.length ? { animationTriggers } : {};
+};
+
+/**
+ * Finds the inputs that pair with a `Change` output (e.g., `value` and `valueChange`),
+ * which together support two-way binding with `[(value)]`.
+ * @param inputs - The input properties.
+ * @param outputs - The output properties.
+ * @returns The names of the two-way bindable inputs.
+ */
+const findTwoWayBindings = (
+  inputs: readonly Property[],
+  outputs: readonly Property[]
+): string[] => {
+  const outputNames = new Set(outputs.map((output) => output.name));
+  return inputs
+    .map((input) => input.name)
+    .filter((name) => name && outputNames.has(`${name}${MODEL_CHANGE_SUFFIX}`));
+};
+
+/**
+ * Extracts the inputs and outputs of a component or directive, along with its two-way bindings.
+ * @param classNode - The class declaration node.
+ * @param predicate - The class decorator predicate function.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
+ * @returns The bindings, with `twoWayBindings` only present when there are any.
+ */
+const extractBindings = (
+  classNode: ts.ClassDeclaration,
+  predicate: (d: ts.Decorator) => boolean,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): Pick<ComponentInfo, "inputs" | "outputs" | "twoWayBindings"> => {
+  const [inputs, outputs] = [DecoratorType.INPUT, DecoratorType.OUTPUT].map(
+    (decoratorType) =>
+      extractProperties(
+        classNode,
+        predicate,
+        decoratorType,
+        sourceCode,
+        context
+      )
+  );
+  const twoWayBindings = findTwoWayBindings(inputs, outputs);
+  return {
+    inputs,
+    outputs,
+    ...(twoWayBindings.length && { twoWayBindings }),
+  };
+};
+
+/**
+ * Detects a structural directive and the keys of its template context.
+ * The context type comes from a `static ngTemplateContextGuard` predicate, falling back to the
+ * type argument of the injected `TemplateRef<Context>`.
+ * @param classNode - The directive class declaration node.
+ * @param sourceCode - The source file searched for the context type declaration.
+ * @returns The structural directive fields, or an empty object for attribute directives.
+ */
+const getStructuralInfo = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile
+): Pick<DirectiveInfo, "structural" | "templateContext"> => {
+  const { members } = classNode;
+  const structural = members.some(
+    (member) =>
+      nodes.injectsTemplateRef(member) || nodes.isTemplateContextGuard(member)
+  );
+  if (!structural) {
+    return {};
+  }
+  const contextType =
+    members.map(nodes.getContextGuardType).find(Boolean) ??
+    members.map(nodes.getTemplateRefContextType).find(Boolean);
+  const templateContext = nodes.getTypeMemberNames(contextType, sourceCode);
+  return {
+    structural,
+    ...(templateContext.length && { templateContext }),
+  };
+};
+
+/**
+ * Reads the static attribute a constructor parameter or class member injects, through
+ * `@Attribute('name')` or `inject(new HostAttributeToken('name'))`. Host attribute tokens
+ * are required unless injected with `{ optional: true }`.
+ * @param node - The constructor parameter or class member node.
+ * @param sourceCode - The source file for type extraction.
+ * @returns The attribute, or undefined if the node does not inject one.
+ */
+const getInjectedAttribute = (
+  node: ts.ParameterDeclaration | ts.ClassElement,
+  sourceCode: ts.SourceFile
+): Property | undefined => {
+  if (ts.isParameter(node)) {
+    const name = nodes.getAttributeDecoratorName(node);
+    return name
+      ? { name, type: node.type?.getText(sourceCode) || DataType.STRING }
+      : undefined;
+  }
+  const initializer = getMemberInitializer(node);
+  const name = nodes.getHostAttributeName(initializer);
+  return name
+    ? {
+        name,
+        type:
+          (ts.isPropertyDeclaration(node) && node.type?.getText(sourceCode)) ||
+          DataType.STRING,
+        ...(!nodes.isOptionalInjection(initializer) && { required: true }),
+      }
+    : undefined;
+};
+
+/**
+ * Extracts the static attributes a class reads from its host element, through
+ * `@Attribute('name')` constructor parameters or `inject(new HostAttributeToken('name'))`
+ * property initializers. Both are documented and excluded through their own JSDoc.
+ * @param classNode - The class declaration node.
+ * @param sourceCode - The source file for type extraction.
+ * @returns An object holding the attributes, or an empty object if the class reads none.
+ */
+const getAttributes = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile
+): Pick<ComponentInfo, "attributes"> => {
+  const attributes = classNode.members
+    .filter((member) => !isExcluded(member))
+    .flatMap((member): (ts.ParameterDeclaration | ts.ClassElement)[] =>
+      ts.isConstructorDeclaration(member) ? [...member.parameters] : [member]
+    )
+    .filter((node) => !isExcluded(node))
+    .flatMap((node): Property[] => {
+      const attribute = getInjectedAttribute(node, sourceCode);
+      return attribute ? [{ ...attribute, ...getBindingDocs(node) }] : [];
+    });
+  return attributes.length ? { attributes } : {};
+};
+
+/**
+ * Extracts the selector, bindings and export names shared by components and directives.
+ * @param classNode - The class declaration node.
+ * @param predicate - The class decorator predicate function.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
+ * @returns The declaration metadata.
+ */
+const extractDeclarationMetadata = (
+  classNode: ts.ClassDeclaration,
+  predicate: (d: ts.Decorator) => boolean,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): Pick<
+  DirectiveInfo,
+  "selector" | "inputs" | "outputs" | "twoWayBindings" | "exportAs"
+> => ({
+  selector: getSelectorName(classNode, predicate),
+  ...extractBindings(classNode, predicate, sourceCode, context),
+  ...getExportAs(classNode, predicate),
+});
 
 /**
  * Builds component info from a class declaration.
  * @param classNode - The class declaration node.
  * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
  * @returns The component info object.
  */
 const buildComponentInfo = (
   classNode: ts.ClassDeclaration,
-  sourceCode: ts.SourceFile
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
 ): ComponentInfo => ({
   kind: ArtifactKind.COMPONENT,
   className: nodes.getClassName(classNode),
-  selector: getSelectorName(classNode, nodes.isComponent),
-  inputs: extractDecoratorProperties(
-    classNode,
-    DecoratorType.INPUT,
-    sourceCode
-  ),
-  outputs: extractDecoratorProperties(
+  ...extractDeclarationMetadata(
     classNode,
-    DecoratorType.OUTPUT,
-    sourceCode
+    matchDecorator(DecoratorType.COMPONENT, context),
+    sourceCode,
+    context
   ),
+  ...getAttributes(classNode, sourceCode),
+  ...getContentSlots(getComponentTemplate(classNode, sourceCode, context)),
+  ...getAnimationTriggers(classNode, sourceCode, context),
+  ...getDescription(classNode),
 });
 
 /**
  * Builds directive info from a class declaration.
  * @param classNode - The class declaration node.
  * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
  * @returns The directive info object.
  */
 const buildDirectiveInfo = (
   classNode: ts.ClassDeclaration,
-  sourceCode: ts.SourceFile
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
 ): DirectiveInfo => ({
   kind: ArtifactKind.DIRECTIVE,
   className: nodes.getClassName(classNode),
-  selector: getSelectorName(classNode, nodes.isDirective),
-  inputs: extractDecoratorProperties(
+  ...extractDeclarationMetadata(
     classNode,
-    DecoratorType.INPUT,
-    sourceCode
-  ),
-  outputs: extractDecoratorProperties(
-    classNode,
-    DecoratorType.OUTPUT,
-    sourceCode
+    matchDecorator(DecoratorType.DIRECTIVE, context),
+    sourceCode,
+    context
   ),
+  ...getAttributes(classNode, sourceCode),
+  ...getStructuralInfo(classNode, sourceCode),
+  ...getDescription(classNode),
 });
 
+/** Placeholder name for `transform()` parameters that are not plain identifiers. */
+const DEFAULT_PARAMETER_NAME = "arg";
+
+/**
+ * Describes a parameter of a pipe's `transform()` method.
+ * Literal choices come from the type checker when available, otherwise from literal unions
+ * written out in the parameter type.
+ * @param parameter - The parameter declaration node.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context providing the type-checked program, if any.
+ * @returns The pipe parameter.
+ */
+const createPipeParameter = (
+  parameter: ts.ParameterDeclaration,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): PipeParameter => {
+  const checked = getTypeChoices(parameter.type, context?.program);
+  const choices = checked.length
+    ? checked
+    : nodes.getLiteralUnionValues(parameter.type);
+  return {
+    name: ts.isIdentifier(parameter.name)
+      ? parameter.name.text
+      : DEFAULT_PARAMETER_NAME,
+    type: parameter.type?.getText(sourceCode) || DEFAULT_DATA_TYPE,
+    ...((parameter.questionToken || parameter.initializer) && {
+      optional: true,
+    }),
+    ...(choices.length && { choices }),
+  };
+};
+
+/**
+ * Extracts the signatures of a pipe's `transform()` method.
+ * Overload declarations take precedence over the implementation, and rest parameters are skipped.
+ * @param classNode - The pipe class declaration node.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context providing the type-checked program, if any.
+ * @returns An object holding the signatures, or an empty object if there is no `transform()` method.
+ */
+const getPipeSignatures = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): Pick<PipeInfo, "signatures"> => {
+  const methods = classNode.members.filter(
+    (member): member is ts.MethodDeclaration =>
+      ts.isMethodDeclaration(member) &&
+      getMemberName(member) === TRANSFORM_METHOD
+  );
+  const overloads = methods.filter((method) => !method.body);
+  const signatures = (overloads.length ? overloads : methods).map(
+    (method): PipeSignature =>
+      method.parameters
+        .filter((parameter) => !parameter.dotDotDotToken)
+        .map((parameter) => createPipeParameter(parameter, sourceCode, context))
+  );
+  return signatures.length ? { signatures } : {};
+};
+
 /**
  * Builds pipe info from a class declaration.
  * @param classNode - The class declaration node.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context holding the custom decorator mapping, if any.
  * @returns The pipe info object.
  */
-const buildPipeInfo = (classNode: ts.ClassDeclaration): PipeInfo => ({
+const buildPipeInfo = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): PipeInfo => ({
   kind: ArtifactKind.PIPE,
   className: nodes.getClassName(classNode),
-  name: getPipeName(classNode),
+  name: getPipeName(classNode, context),
+  ...getPipeSignatures(classNode, sourceCode, context),
+  ...getDescription(classNode),
 });
 
 /**
- * Finds the first class declaration in a source file.
+ * Finds all class declarations in a source file, in declaration order.
  * @param sourceCode - The source file to search.
- * @returns The first class declaration or undefined.
+ * @returns The class declarations.
  */
-const findFirstClass = (
-  sourceCode: ts.SourceFile
-): ts.ClassDeclaration | undefined => {
-  let result: ts.ClassDeclaration | undefined;
+const findClasses = (sourceCode: ts.SourceFile): ts.ClassDeclaration[] => {
+  const result: ts.ClassDeclaration[] = [];
 
   const visit = (node: ts.Node): void => {
-    if (result) {
-      return;
-    }
     if (ts.isClassDeclaration(node)) {
-      result = node;
-      return;
+      result.push(node);
     }
     ts.forEachChild(node, visit);
   };
@@ -231,92 +1122,405 @@ const findFirstClass = (
 };
 
 /**
- * Parses TypeScript source code to extract Angular component information.
- * @param fileData - The TypeScript source code string.
- * @returns The component information or undefined if no component found.
+ * Finds the class declarations snippets are generated for, leaving out classes
+ * marked `@internal` or `@snippet-ignore`.
+ * @param sourceCode - The source file to search.
+ * @returns The class declarations.
  */
-export const parseComponent = (fileData = ""): ComponentInfo | undefined => {
-  const sourceCode = createSourceFile(fileData);
-  if (!sourceCode) {
-    return undefined;
-  }
+const findSnippetClasses = (sourceCode: ts.SourceFile): ts.ClassDeclaration[] =>
+  findClasses(sourceCode).filter((classNode) => !isExcluded(classNode));
 
-  const classNode = findFirstClass(sourceCode);
-  if (!classNode) {
-    return undefined;
+/**
+ * Finds the first class declaration carrying a specific decorator.
+ * @param sourceCode - The source file to search.
+ * @param predicate - The decorator predicate function.
+ * @returns The first matching class declaration or undefined.
+ */
+const findDecoratedClass = (
+  sourceCode: ts.SourceFile,
+  predicate: (d: ts.Decorator) => boolean
+): ts.ClassDeclaration | undefined =>
+  findSnippetClasses(sourceCode).find((classNode) =>
+    findDecorator(classNode, predicate)
+  );
+
+/**
+ * Builds Angular info for a class based on its decorator.
+ * @param classNode - The class declaration node.
+ * @param sourceCode - The source file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
+ * @returns The Angular info or undefined if the class is not an Angular artifact.
+ */
+const buildAngularInfo = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): AngularInfo | undefined => {
+  // Check for each decorator type in order of likelihood
+  if (
+    findDecorator(classNode, matchDecorator(DecoratorType.COMPONENT, context))
+  ) {
+    return buildComponentInfo(classNode, sourceCode, context);
+  }
+  if (
+    findDecorator(classNode, matchDecorator(DecoratorType.DIRECTIVE, context))
+  ) {
+    return buildDirectiveInfo(classNode, sourceCode, context);
   }
+  if (findDecorator(classNode, matchDecorator(DecoratorType.PIPE, context))) {
+    return buildPipeInfo(classNode, sourceCode, context);
+  }
+  return undefined;
+};
 
-  const decorator = findDecorator(classNode, nodes.isComponent);
-  return decorator ? buildComponentInfo(classNode, sourceCode) : undefined;
+/**
+ * Creates a property from a binding listed in an Ivy declaration.
+ * The type comes from the backing class member; inputs also offer the values of literal union types.
+ * @param binding - The declared binding.
+ * @param classNode - The compiled class declaration node.
+ * @param decoratorType - The binding direction.
+ * @param sourceCode - The declaration file for type extraction.
+ * @returns The property object.
+ */
+const createDeclaredProperty = (
+  binding: ivy.DeclaredBinding,
+  classNode: ts.ClassDeclaration,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile
+): Property => {
+  const member = ivy.findBindingMember(classNode, binding.property);
+  const typeNode = ivy.getBindingTypeNode(member);
+  const choices =
+    decoratorType === DecoratorType.INPUT
+      ? nodes.getLiteralUnionValues(typeNode)
+      : [];
+  return {
+    name: binding.name,
+    type: typeNode?.getText(sourceCode) || DEFAULT_DATA_TYPE,
+    ...(binding.required && { required: true }),
+    ...getBindingDocs(member),
+    ...(choices.length && { choices }),
+  };
 };
 
 /**
- * Parses TypeScript source code to extract Angular directive information.
- * @param fileData - The TypeScript source code string.
- * @returns The directive information or undefined if no directive found.
+ * Gets the Ivy declaration type arguments of a compiled component or directive.
+ * @param classNode - The compiled class declaration node.
+ * @returns The type arguments, or an empty array if the class declares no bindings.
  */
-export const parseDirective = (fileData = ""): DirectiveInfo | undefined => {
-  const sourceCode = createSourceFile(fileData);
-  if (!sourceCode) {
-    return undefined;
-  }
+const getBindingDeclarationArguments = (
+  classNode: ts.ClassDeclaration
+): readonly ts.TypeNode[] =>
+  ivy.getDeclarationArguments(classNode, IvyDeclarationType.COMPONENT) ??
+  ivy.getDeclarationArguments(classNode, IvyDeclarationType.DIRECTIVE) ??
+  [];
 
-  const classNode = findFirstClass(sourceCode);
-  if (!classNode) {
-    return undefined;
-  }
+/**
+ * Extracts the bindings a compiled class exposes from the host directives its Ivy declaration lists.
+ * Only the bindings a host directive entry maps are exposed, under their host alias.
+ * @param typeArguments - The type arguments of the class's Ivy declaration.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The declaration file declaring the class.
+ * @param context - The parse context used to resolve directives in other files.
+ * @param visited - Keys of the classes already visited.
+ * @returns Array of exposed properties.
+ */
+const extractDeclaredHostDirectiveProperties = (
+  typeArguments: readonly ts.TypeNode[],
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined,
+  visited: ReadonlySet<string>
+): Property[] =>
+  ivy.getDeclaredHostDirectives(typeArguments).flatMap((hostDirective) => {
+    const directive = hostDirective.directive
+      ? resolveEntityClass(hostDirective.directive, sourceCode, context)
+      : undefined;
+    const source =
+      directive &&
+      !visited.has(getClassKey(directive.classNode, directive.sourceCode))
+        ? extractDeclaredProperties(
+            directive.classNode,
+            decoratorType,
+            directive.sourceCode,
+            context,
+            new Set(visited)
+          )
+        : [];
+    const exposed =
+      decoratorType === DecoratorType.INPUT
+        ? hostDirective.inputs
+        : hostDirective.outputs;
+
+    return exposed.map((binding): Property => {
+      const property = source.find((p) => p.name === binding.property);
+      return property
+        ? { ...property, name: binding.name }
+        : { name: binding.name, type: DEFAULT_DATA_TYPE };
+    });
+  });
 
-  const decorator = findDecorator(classNode, nodes.isDirective);
-  return decorator ? buildDirectiveInfo(classNode, sourceCode) : undefined;
+/**
+ * Extracts all properties of a binding direction from a compiled class, its host directives
+ * and its base classes. Ivy declarations only list the bindings a class declares itself,
+ * so inherited bindings are read from the declarations of the classes it extends.
+ * @param classNode - The compiled class declaration node.
+ * @param decoratorType - The binding direction to extract.
+ * @param sourceCode - The declaration file for type extraction.
+ * @param context - The parse context used to resolve base classes in other files.
+ * @param visited - Keys of the classes already visited in the hierarchy.
+ * @returns Array of extracted properties.
+ */
+const extractDeclaredProperties = (
+  classNode: ts.ClassDeclaration,
+  decoratorType: DecoratorType,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext,
+  visited = new Set<string>()
+): Property[] => {
+  visited.add(getClassKey(classNode, sourceCode));
+  const base = resolveBaseClass(classNode, sourceCode, context);
+  const inherited =
+    base && !visited.has(getClassKey(base.classNode, base.sourceCode))
+      ? extractDeclaredProperties(
+          base.classNode,
+          decoratorType,
+          base.sourceCode,
+          context,
+          visited
+        )
+      : [];
+
+  const typeArguments = getBindingDeclarationArguments(classNode);
+  const declared =
+    decoratorType === DecoratorType.INPUT
+      ? ivy.getDeclaredInputs(typeArguments)
+      : ivy.getDeclaredOutputs(typeArguments);
+  return mergeProperties(
+    declared
+      .filter(
+        (binding) =>
+          !isExcluded(ivy.findBindingMember(classNode, binding.property))
+      )
+      .map((binding) =>
+        createDeclaredProperty(binding, classNode, decoratorType, sourceCode)
+      ),
+    extractDeclaredHostDirectiveProperties(
+      typeArguments,
+      decoratorType,
+      sourceCode,
+      context,
+      visited
+    ),
+    inherited
+  );
 };
 
 /**
- * Parses TypeScript source code to extract Angular pipe information.
- * @param fileData - The TypeScript source code string.
- * @returns The pipe information or undefined if no pipe found.
+ * Extracts the selector, bindings and export names of a compiled component or directive.
+ * @param classNode - The compiled class declaration node.
+ * @param typeArguments - The type arguments of the class's Ivy declaration.
+ * @param sourceCode - The declaration file for type extraction.
+ * @param context - The parse context used to resolve base classes and host directives.
+ * @returns The declaration metadata.
  */
-export const parsePipe = (fileData = ""): PipeInfo | undefined => {
-  const sourceCode = createSourceFile(fileData);
-  if (!sourceCode) {
-    return undefined;
-  }
+const extractIvyMetadata = (
+  classNode: ts.ClassDeclaration,
+  typeArguments: readonly ts.TypeNode[],
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined
+): Pick<
+  DirectiveInfo,
+  "selector" | "inputs" | "outputs" | "twoWayBindings" | "exportAs"
+> => {
+  const [inputs, outputs] = [DecoratorType.INPUT, DecoratorType.OUTPUT].map(
+    (decoratorType) =>
+      extractDeclaredProperties(classNode, decoratorType, sourceCode, context)
+  );
+  const twoWayBindings = findTwoWayBindings(inputs, outputs);
+  const exportAs = ivy.getDeclaredExportAs(typeArguments);
+  return {
+    selector: ivy.getDeclaredName(typeArguments),
+    inputs,
+    outputs,
+    ...(twoWayBindings.length && { twoWayBindings }),
+    ...(exportAs.length && { exportAs }),
+  };
+};
 
-  const classNode = findFirstClass(sourceCode);
-  if (!classNode) {
-    return undefined;
+/**
+ * Builds Angular info for a compiled class from the Ivy declaration it carries.
+ * @param classNode - The compiled class declaration node.
+ * @param sourceCode - The declaration file for type extraction.
+ * @param context - The parse context used to resolve base classes and host directives.
+ * @returns The Angular info or undefined if the class has no Ivy declaration.
+ */
+const buildIvyInfo = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context: ParseContext | undefined
+): AngularInfo | undefined => {
+  const className = nodes.getClassName(classNode);
+  const component = ivy.getDeclarationArguments(
+    classNode,
+    IvyDeclarationType.COMPONENT
+  );
+  if (component) {
+    const contentSlots = ivy.getDeclaredContentSlots(component);
+    return {
+      kind: ArtifactKind.COMPONENT,
+      className,
+      ...extractIvyMetadata(classNode, component, sourceCode, context),
+      ...(contentSlots.length && { contentSlots }),
+      ...getDescription(classNode),
+    };
   }
+  const directive = ivy.getDeclarationArguments(
+    classNode,
+    IvyDeclarationType.DIRECTIVE
+  );
+  if (directive) {
+    return {
+      kind: ArtifactKind.DIRECTIVE,
+      className,
+      ...extractIvyMetadata(classNode, directive, sourceCode, context),
+      ...getStructuralInfo(classNode, sourceCode),
+      ...getDescription(classNode),
+    };
+  }
+  const pipe = ivy.getDeclarationArguments(classNode, IvyDeclarationType.PIPE);
+  return pipe
+    ? {
+        kind: ArtifactKind.PIPE,
+        className,
+        name: ivy.getDeclaredName(pipe),
+        ...getPipeSignatures(classNode, sourceCode),
+        ...getDescription(classNode),
+      }
+    : undefined;
+};
 
-  const decorator = findDecorator(classNode, nodes.isPipe);
-  return decorator ? buildPipeInfo(classNode) : undefined;
+/**
+ * Gets the source file to parse, preferring the type-checked program's copy when available,
+ * then the copy already parsed during the scan.
+ * @param fileData - The TypeScript source code string.
+ * @param context - The parse context, if any.
+ * @returns The source file or undefined if it cannot be created.
+ */
+const getSourceFile = (
+  fileData: string,
+  context: ParseContext | undefined
+): ts.SourceFile | undefined =>
+  (context && context.program?.getSourceFile(context.filePath)) ??
+  (context?.loadSourceFile
+    ? context.loadSourceFile(fileData, context.filePath)
+    : nodes.createSourceFile(fileData, context?.filePath));
+
+/**
+ * Parses TypeScript source code to extract Angular component information.
+ * @param fileData - The TypeScript source code string.
+ * @param context - The parse context used to resolve declarations in other files.
+ * @returns The first component's information or undefined if no component found.
+ */
+export const parseComponent = (
+  fileData = "",
+  context?: ParseContext
+): ComponentInfo | undefined => {
+  const sourceCode = getSourceFile(fileData, context);
+  const classNode = sourceCode
+    ? findDecoratedClass(
+        sourceCode,
+        matchDecorator(DecoratorType.COMPONENT, context)
+      )
+    : undefined;
+  return sourceCode && classNode
+    ? buildComponentInfo(classNode, sourceCode, context)
+    : undefined;
 };
 
 /**
- * Parses TypeScript source code to extract any Angular artifact information.
- * Detects components, directives, and pipes.
+ * Parses TypeScript source code to extract Angular directive information.
  * @param fileData - The TypeScript source code string.
- * @returns The Angular info or undefined if no Angular artifact found.
+ * @param context - The parse context used to resolve declarations in other files.
+ * @returns The first directive's information or undefined if no directive found.
  */
-export const parseAngularFile = (fileData = ""): AngularInfo | undefined => {
-  const sourceCode = createSourceFile(fileData);
+export const parseDirective = (
+  fileData = "",
+  context?: ParseContext
+): DirectiveInfo | undefined => {
+  const sourceCode = getSourceFile(fileData, context);
+  const classNode = sourceCode
+    ? findDecoratedClass(
+        sourceCode,
+        matchDecorator(DecoratorType.DIRECTIVE, context)
+      )
+    : undefined;
+  return sourceCode && classNode
+    ? buildDirectiveInfo(classNode, sourceCode, context)
+    : undefined;
+};
+
+/**
+ * Parses TypeScript source code to extract Angular pipe information.
+ * @param fileData - The TypeScript source code string.
+ * @param context - The parse context holding the custom decorator mapping, if any.
+ * @returns The first pipe's information or undefined if no pipe found.
+ */
+export const parsePipe = (
+  fileData = "",
+  context?: ParseContext
+): PipeInfo | undefined => {
+  const sourceCode = getSourceFile(fileData, context);
+  const classNode = sourceCode
+    ? findDecoratedClass(
+        sourceCode,
+        matchDecorator(DecoratorType.PIPE, context)
+      )
+    : undefined;
+  return sourceCode && classNode
+    ? buildPipeInfo(classNode, sourceCode, context)
+    : undefined;
+};
+
+/**
+ * Parses TypeScript source code to extract every Angular artifact it declares.
+ * Detects components, directives, and pipes, skipping classes marked `@internal` or `@snippet-ignore`.
+ * @param fileData - The TypeScript source code string.
+ * @param context - The parse context used to resolve declarations in other files.
+ * @returns The Angular info for each decorated class, in declaration order.
+ */
+export const parseAngularFile = (
+  fileData = "",
+  context?: ParseContext
+): AngularInfo[] => {
+  const sourceCode = getSourceFile(fileData, context);
   if (!sourceCode) {
-    return undefined;
+    return [];
   }
 
-  const classNode = findFirstClass(sourceCode);
-  if (!classNode) {
-    return undefined;
-  }
+  return findSnippetClasses(sourceCode).flatMap(
+    (classNode) => buildAngularInfo(classNode, sourceCode, context) ?? []
+  );
+};
 
-  // Check for each decorator type in order of likelihood
-  if (findDecorator(classNode, nodes.isComponent)) {
-    return buildComponentInfo(classNode, sourceCode);
-  }
-  if (findDecorator(classNode, nodes.isDirective)) {
-    return buildDirectiveInfo(classNode, sourceCode);
-  }
-  if (findDecorator(classNode, nodes.isPipe)) {
-    return buildPipeInfo(classNode);
+/**
+ * Parses a `.d.ts` file of a compiled Angular library to extract the artifacts it declares.
+ * Reads the Ivy metadata (`ɵɵComponentDeclaration`, `ɵɵDirectiveDeclaration`, `ɵɵPipeDeclaration`)
+ * the Angular compiler emits on each class, following base classes and host directives.
+ * @param fileData - The declaration file text.
+ * @param context - The parse context used to read the declaration files of base classes and host directives.
+ * @returns The Angular info for each compiled class, in declaration order.
+ */
+export const parseDeclarationFile = (
+  fileData = "",
+  context?: ParseContext
+): AngularInfo[] => {
+  const sourceCode = getSourceFile(fileData, context);
+  if (!sourceCode) {
+    return [];
   }
 
-  return undefined;
+  return findSnippetClasses(sourceCode).flatMap(
+    (classNode) => buildIvyInfo(classNode, sourceCode, context) ?? []
+  );
 };
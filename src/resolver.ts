@@ -0,0 +1,481 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import ts from "typescript";
+
+import { resolveModulePath } from "./modules";
+import * as nodes from "./nodes";
+import { ParseContext } from "./types";
+
+/**
+ * A declaration together with the source file that declares it.
+ */
+export interface ResolvedDeclaration<T extends ts.Node> {
+  /** The declaration node. */
+  readonly node: T;
+  /** The source file declaring the node. */
+  readonly sourceCode: ts.SourceFile;
+}
+
+/**
+ * A class declaration together with the source file that declares it.
+ */
+export interface ResolvedClass {
+  /** The class declaration node. */
+  readonly classNode: ts.ClassDeclaration;
+  /** The source file declaring the class. */
+  readonly sourceCode: ts.SourceFile;
+}
+
+/** A binding imported by a source file. */
+interface ImportedBinding {
+  /** The module specifier the binding is imported from. */
+  readonly specifier: string;
+  /** The name the module exports the binding under. */
+  readonly importedName: string;
+}
+
+/**
+ * Finds the declaration a top-level statement makes under a name.
+ * The "default" name matches a statement carrying the `default` modifier.
+ */
+type DeclarationMatcher<T extends ts.Node> = (
+  statement: ts.Statement,
+  name: string
+) => T | undefined;
+
+/** Export name used for default exports. */
+const DEFAULT_EXPORT = "default";
+
+/** Maximum number of import and re-export hops followed during resolution. */
+const MAX_RESOLUTION_DEPTH = 10;
+
+/**
+ * Checks if a node carries a specific modifier keyword.
+ * @param node - The node to check.
+ * @param kind - The modifier keyword kind.
+ * @returns True if the modifier is present.
+ */
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind): boolean =>
+  ts.canHaveModifiers(node) &&
+  !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind);
+
+/**
+ * Matches a class declaration by name.
+ * @param statement - The top-level statement.
+ * @param name - The class name, or "default".
+ * @returns The class declaration or undefined.
+ */
+const matchClass: DeclarationMatcher<ts.ClassDeclaration> = (
+  statement,
+  name
+) =>
+  ts.isClassDeclaration(statement) &&
+  (name === DEFAULT_EXPORT
+    ? hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+    : nodes.getClassName(statement) === name)
+    ? statement
+    : undefined;
+
+/**
+ * Matches a variable declaration by name (e.g., `const expand = trigger(...)`).
+ * @param statement - The top-level statement.
+ * @param name - The variable name.
+ * @returns The variable declaration or undefined.
+ */
+const matchVariable: DeclarationMatcher<ts.VariableDeclaration> = (
+  statement,
+  name
+) =>
+  ts.isVariableStatement(statement)
+    ? statement.declarationList.declarations.find((declaration) =>
+        nodes.isIdentifier(declaration.name, name)
+      )
+    : undefined;
+
+/**
+ * Finds a top-level declaration by name.
+ * @param sourceCode - The source file to search.
+ * @param name - The declared name.
+ * @param match - Matches the declaration kind being resolved.
+ * @param exported - Whether the declaration must be exported.
+ * @returns The declaration or undefined.
+ */
+const findLocalDeclaration = <T extends ts.Node>(
+  sourceCode: ts.SourceFile,
+  name: string,
+  match: DeclarationMatcher<T>,
+  exported = false
+): T | undefined =>
+  sourceCode.statements
+    .filter(
+      (statement) =>
+        !exported || hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+    )
+    .map((statement) => match(statement, name))
+    .find(Boolean);
+
+/**
+ * Finds the import declaration that brings a local name into scope.
+ * @param sourceCode - The source file to search.
+ * @param localName - The local name of the imported binding.
+ * @returns The imported binding or undefined if the name is not imported.
+ */
+export const findImport = (
+  sourceCode: ts.SourceFile,
+  localName: string
+): ImportedBinding | undefined => {
+  for (const statement of sourceCode.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const specifier = statement.moduleSpecifier.text;
+    const clause = statement.importClause;
+    if (clause?.name?.text === localName) {
+      return { specifier, importedName: DEFAULT_EXPORT };
+    }
+    const bindings = clause?.namedBindings;
+    const element =
+      bindings && ts.isNamedImports(bindings)
+        ? bindings.elements.find((e) => e.name.text === localName)
+        : undefined;
+    if (element) {
+      return {
+        specifier,
+        importedName: (element.propertyName ?? element.name).text,
+      };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Finds the module a namespace import (`import * as ns from "..."`) brings into scope.
+ * @param sourceCode - The source file to search.
+ * @param localName - The local name of the namespace.
+ * @returns The module specifier or undefined if the name is not a namespace import.
+ */
+const findNamespaceImport = (
+  sourceCode: ts.SourceFile,
+  localName: string
+): string | undefined => {
+  const statement = sourceCode.statements.find(
+    (node): node is ts.ImportDeclaration => {
+      const bindings = ts.isImportDeclaration(node)
+        ? node.importClause?.namedBindings
+        : undefined;
+      return (
+        !!bindings &&
+        ts.isNamespaceImport(bindings) &&
+        bindings.name.text === localName
+      );
+    }
+  );
+  return statement && ts.isStringLiteral(statement.moduleSpecifier)
+    ? statement.moduleSpecifier.text
+    : undefined;
+};
+
+/**
+ * Loads the source file a module specifier refers to.
+ * Prefers the program's source file so the type checker can resolve its types.
+ * @param specifier - The module specifier.
+ * @param fromFile - The path of the importing file.
+ * @param context - The parse context used to read files.
+ * @returns The loaded source file or undefined if it cannot be resolved.
+ */
+export const loadModule = (
+  specifier: string,
+  fromFile: string,
+  context: ParseContext
+): ts.SourceFile | undefined => {
+  const filePath = resolveModulePath(specifier, fromFile, context.readFile);
+  if (!filePath) {
+    return undefined;
+  }
+  const loadSourceFile = context.loadSourceFile ?? nodes.createSourceFile;
+  return (
+    context.program?.getSourceFile(filePath) ??
+    loadSourceFile(context.readFile(filePath), filePath)
+  );
+};
+
+/**
+ * Finds the declaration a module exports under a specific name.
+ * Follows `export { A as B }`, `export { A } from`, `export * from` and `export default` forms.
+ * @param sourceCode - The module source file.
+ * @param exportName - The exported name, or "default".
+ * @param match - Matches the declaration kind being resolved.
+ * @param context - The parse context used to read re-exported modules.
+ * @param depth - The current resolution depth.
+ * @returns The resolved declaration or undefined.
+ */
+const findExportedDeclaration = <T extends ts.Node>(
+  sourceCode: ts.SourceFile,
+  exportName: string,
+  match: DeclarationMatcher<T>,
+  context: ParseContext | undefined,
+  depth: number
+): ResolvedDeclaration<T> | undefined => {
+  const node = findLocalDeclaration(sourceCode, exportName, match, true);
+  if (node) {
+    return { node, sourceCode };
+  }
+
+  for (const statement of sourceCode.statements) {
+    const resolved = ts.isExportAssignment(statement)
+      ? resolveExportAssignment(
+          statement,
+          exportName,
+          sourceCode,
+          match,
+          context,
+          depth
+        )
+      : ts.isExportDeclaration(statement)
+        ? resolveExportDeclaration(
+            statement,
+            exportName,
+            sourceCode,
+            match,
+            context,
+            depth
+          )
+        : undefined;
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Resolves the declaration exported by an `export default Name;` statement.
+ * @param statement - The export assignment node.
+ * @param exportName - The exported name being resolved.
+ * @param sourceCode - The module source file.
+ * @param match - Matches the declaration kind being resolved.
+ * @param context - The parse context used to read imported modules.
+ * @param depth - The current resolution depth.
+ * @returns The resolved declaration or undefined.
+ */
+const resolveExportAssignment = <T extends ts.Node>(
+  statement: ts.ExportAssignment,
+  exportName: string,
+  sourceCode: ts.SourceFile,
+  match: DeclarationMatcher<T>,
+  context: ParseContext | undefined,
+  depth: number
+): ResolvedDeclaration<T> | undefined =>
+  exportName === DEFAULT_EXPORT &&
+  !statement.isExportEquals &&
+  ts.isIdentifier(statement.expression)
+    ? resolveDeclaration(
+        statement.expression.text,
+        sourceCode,
+        match,
+        context,
+        depth + 1
+      )
+    : undefined;
+
+/**
+ * Resolves the declaration exported under a name by an export declaration.
+ * @param statement - The export declaration node.
+ * @param exportName - The exported name being resolved.
+ * @param sourceCode - The module source file.
+ * @param match - Matches the declaration kind being resolved.
+ * @param context - The parse context used to read re-exported modules.
+ * @param depth - The current resolution depth.
+ * @returns The resolved declaration or undefined.
+ */
+const resolveExportDeclaration = <T extends ts.Node>(
+  statement: ts.ExportDeclaration,
+  exportName: string,
+  sourceCode: ts.SourceFile,
+  match: DeclarationMatcher<T>,
+  context: ParseContext | undefined,
+  depth: number
+): ResolvedDeclaration<T> | undefined => {
+  const { exportClause, moduleSpecifier } = statement;
+  const element =
+    exportClause && ts.isNamedExports(exportClause)
+      ? exportClause.elements.find((e) => e.name.text === exportName)
+      : undefined;
+  const localName = (element?.propertyName ?? element?.name)?.text;
+
+  if (!moduleSpecifier) {
+    return localName
+      ? resolveDeclaration(localName, sourceCode, match, context, depth + 1)
+      : undefined;
+  }
+
+  const isStarExport = !exportClause;
+  if (
+    (!localName && !isStarExport) ||
+    !context ||
+    !ts.isStringLiteral(moduleSpecifier) ||
+    depth >= MAX_RESOLUTION_DEPTH
+  ) {
+    return undefined;
+  }
+
+  const module = loadModule(moduleSpecifier.text, sourceCode.fileName, context);
+  return module
+    ? findExportedDeclaration(
+        module,
+        localName ?? exportName,
+        match,
+        context,
+        depth + 1
+      )
+    : undefined;
+};
+
+/**
+ * Resolves a declaration by the name it is referenced under in a source file.
+ * Looks for a declaration in the file first, then follows its imports.
+ * @param name - The local name.
+ * @param sourceCode - The source file referencing the declaration.
+ * @param match - Matches the declaration kind being resolved.
+ * @param context - The parse context used to read imported modules.
+ * @param depth - The current resolution depth.
+ * @returns The resolved declaration or undefined.
+ */
+const resolveDeclaration = <T extends ts.Node>(
+  name: string,
+  sourceCode: ts.SourceFile,
+  match: DeclarationMatcher<T>,
+  context: ParseContext | undefined,
+  depth: number
+): ResolvedDeclaration<T> | undefined => {
+  const node = findLocalDeclaration(sourceCode, name, match);
+  if (node) {
+    return { node, sourceCode };
+  }
+
+  const imported = findImport(sourceCode, name);
+  if (!imported || !context || depth >= MAX_RESOLUTION_DEPTH) {
+    return undefined;
+  }
+
+  const module = loadModule(imported.specifier, sourceCode.fileName, context);
+  return module
+    ? findExportedDeclaration(
+        module,
+        imported.importedName,
+        match,
+        context,
+        depth + 1
+      )
+    : undefined;
+};
+
+/**
+ * Resolves a class by the name it is referenced under in a source file.
+ * Looks for a class declared in the file first, then follows its imports.
+ * @param name - The local class name.
+ * @param sourceCode - The source file referencing the class.
+ * @param context - The parse context used to read imported modules.
+ * @param depth - The current resolution depth.
+ * @returns The resolved class or undefined.
+ */
+export const resolveClass = (
+  name: string,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext,
+  depth = 0
+): ResolvedClass | undefined => {
+  const resolved = resolveDeclaration(
+    name,
+    sourceCode,
+    matchClass,
+    context,
+    depth
+  );
+  return (
+    resolved && { classNode: resolved.node, sourceCode: resolved.sourceCode }
+  );
+};
+
+/**
+ * Resolves a class referenced by a plain or namespace-qualified name (e.g., `i1.MatRipple`).
+ * @param name - The entity name node.
+ * @param sourceCode - The source file referencing the class.
+ * @param context - The parse context used to read imported modules.
+ * @returns The resolved class or undefined.
+ */
+export const resolveEntityClass = (
+  name: ts.EntityName,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): ResolvedClass | undefined => {
+  if (ts.isIdentifier(name)) {
+    return resolveClass(name.text, sourceCode, context);
+  }
+  const specifier = ts.isIdentifier(name.left)
+    ? findNamespaceImport(sourceCode, name.left.text)
+    : undefined;
+  const module =
+    specifier && context
+      ? loadModule(specifier, sourceCode.fileName, context)
+      : undefined;
+  const resolved = module
+    ? findExportedDeclaration(module, name.right.text, matchClass, context, 1)
+    : undefined;
+  return (
+    resolved && { classNode: resolved.node, sourceCode: resolved.sourceCode }
+  );
+};
+
+/**
+ * Resolves a variable by the name it is referenced under in a source file.
+ * Looks for a variable declared in the file first, then follows its imports.
+ * @param name - The local variable name.
+ * @param sourceCode - The source file referencing the variable.
+ * @param context - The parse context used to read imported modules.
+ * @returns The resolved variable declaration or undefined.
+ */
+export const resolveVariable = (
+  name: string,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): ResolvedDeclaration<ts.VariableDeclaration> | undefined =>
+  resolveDeclaration(name, sourceCode, matchVariable, context, 0);
+
+/**
+ * Resolves the class a class declaration extends.
+ * @param classNode - The class declaration node.
+ * @param sourceCode - The source file declaring the class.
+ * @param context - The parse context used to read imported modules.
+ * @returns The resolved base class or undefined if it cannot be found.
+ */
+export const resolveBaseClass = (
+  classNode: ts.ClassDeclaration,
+  sourceCode: ts.SourceFile,
+  context?: ParseContext
+): ResolvedClass | undefined => {
+  const [baseType] =
+    classNode.heritageClauses?.find(
+      (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword
+    )?.types ?? [];
+  return baseType && ts.isIdentifier(baseType.expression)
+    ? resolveClass(baseType.expression.text, sourceCode, context)
+    : undefined;
+};
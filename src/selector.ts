@@ -0,0 +1,144 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CssSelector, SelectorAttribute } from "./types";
+
+/**
+ * Tokenizer for Angular selectors, mirroring the grammar of Angular's own `CssSelector`.
+ * Groups: 1 `:not(`, 2 element/class/id, 3 attribute name, 4 quote, 5 attribute value,
+ * 6 `)`, 7 `,`.
+ */
+const SELECTOR_TOKEN =
+  /(:not\()|([.#]?[-\w]+)|(?:\[([-.\w*\\$]+)(?:=(["']?)([^\]"']*)\4)?\])|(\))|(\s*,\s*)/g;
+
+/** Mutable selector used while parsing. */
+interface SelectorBuilder {
+  element: string;
+  attributes: SelectorAttribute[];
+  classNames: string[];
+  notSelectors: CssSelector[];
+}
+
+/**
+ * Creates an empty selector builder.
+ * @returns The selector builder.
+ */
+const createBuilder = (): SelectorBuilder => ({
+  element: "",
+  attributes: [],
+  classNames: [],
+  notSelectors: [],
+});
+
+/**
+ * Checks if a selector constrains the element it matches.
+ * @param selector - The parsed selector.
+ * @returns True if the selector has an element name, attributes, or classes.
+ */
+export const hasSelectorTarget = (selector: CssSelector): boolean =>
+  !!selector.element ||
+  selector.attributes.length > 0 ||
+  selector.classNames.length > 0;
+
+/**
+ * Applies an element, class, or id token to a selector.
+ * IDs are not supported by Angular selectors and are ignored.
+ * @param builder - The selector being built.
+ * @param token - The element, `.class`, or `#id` token.
+ */
+const applyNameToken = (builder: SelectorBuilder, token: string): void => {
+  if (token.startsWith(".")) {
+    builder.classNames.push(token.slice(1));
+  } else if (!token.startsWith("#")) {
+    builder.element = token;
+  }
+};
+
+/**
+ * Parses an Angular component or directive selector.
+ * Supports element names, `.class` and `[attr]`/`[attr=value]` selectors,
+ * comma-separated alternatives and `:not()` negations.
+ * @param selector - The selector text.
+ * @returns The selector alternatives, in declaration order.
+ */
+export const parseSelector = (selector = ""): CssSelector[] => {
+  const alternatives: CssSelector[] = [];
+  let current = createBuilder();
+  let negation: SelectorBuilder | undefined;
+
+  for (const match of selector.matchAll(SELECTOR_TOKEN)) {
+    const [, not, name, attrName, , attrValue, close, comma] = match;
+    const target = negation ?? current;
+    if (not) {
+      negation = createBuilder();
+    } else if (name) {
+      applyNameToken(target, name);
+    } else if (attrName) {
+      target.attributes.push({ name: attrName, value: attrValue ?? "" });
+    } else if (close && negation) {
+      current.notSelectors.push(negation);
+      negation = undefined;
+    } else if (comma) {
+      alternatives.push(current);
+      current = createBuilder();
+    }
+  }
+
+  alternatives.push(current);
+  return alternatives.filter(hasSelectorTarget);
+};
+
+/**
+ * Formats selector attributes and classes as HTML attribute markup.
+ * @param selector - The parsed selector.
+ * @returns The attribute markup (e.g., `mat-button type="text" class="primary"`).
+ */
+export const selectorToAttributes = (selector: CssSelector): string =>
+  [
+    ...selector.attributes.map(({ name, value }) =>
+      value ? `${name}="${value}"` : name
+    ),
+    ...(selector.classNames.length
+      ? [`class="${selector.classNames.join(" ")}"`]
+      : []),
+  ].join(" ");
+
+/**
+ * Gets the name users type to find a selector's snippet.
+ * Prefers marker attributes (without values), then any attribute, class, or element name.
+ * @param selector - The parsed selector.
+ * @returns The selector's primary name.
+ */
+export const getSelectorPrefix = (selector: CssSelector): string =>
+  selector.attributes.find((attribute) => !attribute.value)?.name ??
+  selector.attributes[0]?.name ??
+  selector.classNames[0] ??
+  selector.element;
+
+/**
+ * Formats a parsed selector back into selector text.
+ * @param selector - The parsed selector.
+ * @returns The selector text.
+ */
+export const stringifySelector = (selector: CssSelector): string =>
+  [
+    selector.element,
+    ...selector.attributes.map(({ name, value }) =>
+      value ? `[${name}=${value}]` : `[${name}]`
+    ),
+    ...selector.classNames.map((className) => `.${className}`),
+    ...selector.notSelectors.map((not) => `:not(${stringifySelector(not)})`),
+  ].join("");
@@ -14,16 +14,38 @@
  * limitations under the License.
  */
 
-import { ArtifactKind } from "./constants";
-import { kebabToTitleCase, upperCaseFirstCharacter } from "./strings";
+import {
+  ArtifactKind,
+  DefaultInputPlacement,
+  DeprecatedBindingHandling,
+} from "./constants";
+import {
+  getSelectorPrefix,
+  parseSelector,
+  selectorToAttributes,
+  stringifySelector,
+} from "./selector";
+import {
+  kebabToTitleCase,
+  lowerCaseFirstCharacter,
+  upperCaseFirstCharacter,
+} from "./strings";
 import {
   AngularInfo,
+  AttributeTransform,
+  ChoiceValue,
   ComponentInfo,
+  CssSelector,
   DataType,
   DirectiveInfo,
+  IMPLICIT_CONTEXT_KEY,
+  MODEL_CHANGE_SUFFIX,
   PipeInfo,
+  PipeParameter,
+  PipeSignature,
   Property,
   Snippet,
+  SnippetOptions,
 } from "./types";
 
 /** Indentation for snippet body attributes. */
@@ -57,8 +79,111 @@ export const formatComponentName = (name = ""): string =>
 export const getTypeValues = (type: string | DataType | undefined): string =>
   type === DataType.BOOLEAN ? "|true,false|" : "";
 
+/**
+ * Returns completion values implied by an input's transform function.
+ * `booleanAttribute` offers boolean choices and `numberAttribute` a numeric placeholder.
+ * @param transform - The transform function name.
+ * @returns The completion choices or placeholder string, or empty string.
+ */
+export const getTransformValues = (transform = ""): string => {
+  switch (transform) {
+    case AttributeTransform.BOOLEAN:
+      return getTypeValues(DataType.BOOLEAN);
+    case AttributeTransform.NUMBER:
+      return ":0";
+    default:
+      return "";
+  }
+};
+
+/** Characters that must be escaped inside a snippet choice. */
+const CHOICE_ESCAPE = /[\\,|]/g;
+
+/**
+ * Checks if every choice is a string, so the choices can be offered unquoted inside a string literal.
+ * @param choices - The choice values.
+ * @returns True if there are choices and all of them are strings.
+ */
+const isStringChoices = (choices: readonly ChoiceValue[]): boolean =>
+  choices.length > 0 && choices.every((choice) => typeof choice === "string");
+
+/**
+ * Returns completion choices for the literal values an input's type allows.
+ * String values are quoted unless every choice is a string.
+ * @param choices - The choice values.
+ * @returns The completion choices string or empty string.
+ */
+export const getChoiceValues = (
+  choices: readonly ChoiceValue[] = []
+): string => {
+  if (!choices.length) {
+    return "";
+  }
+  const quote = !isStringChoices(choices);
+  const values = choices.map((choice) =>
+    (quote && typeof choice === "string"
+      ? `'${choice}'`
+      : String(choice)
+    ).replaceAll(CHOICE_ESCAPE, String.raw`\$&`)
+  );
+  return `|${values.join(",")}|`;
+};
+
+/**
+ * Orders properties so required bindings come first, preserving declaration order otherwise.
+ * @param properties - The properties to order.
+ * @returns The ordered properties.
+ */
+export const sortRequiredFirst = (
+  properties: readonly Property[]
+): Property[] => [
+  ...properties.filter((p) => p?.required),
+  ...properties.filter((p) => !p?.required),
+];
+
+/**
+ * Orders inputs for a snippet body, placing or omitting inputs with default values.
+ * Required inputs always come first.
+ * @param inputs - The input properties.
+ * @param placement - Where inputs with a default value are placed.
+ * @returns The arranged inputs.
+ */
+export const arrangeInputs = (
+  inputs: readonly Property[],
+  placement = DefaultInputPlacement.INCLUDE
+): Property[] => {
+  const sorted = sortRequiredFirst(inputs);
+  switch (placement) {
+    case DefaultInputPlacement.LAST:
+      return [
+        ...sorted.filter((p) => !p?.defaultValue),
+        ...sorted.filter((p) => p?.defaultValue),
+      ];
+    case DefaultInputPlacement.OMIT:
+      return sorted.filter((p) => !p?.defaultValue);
+    default:
+      return sorted;
+  }
+};
+
+/** Characters that must be escaped inside snippet placeholder text. */
+const PLACEHOLDER_ESCAPE = /[$}\\]/g;
+
+/**
+ * Formats a tab stop, using the default value as placeholder text when there is one.
+ * @param index - The tab stop index.
+ * @param defaultValue - The placeholder text.
+ * @returns The formatted tab stop (e.g., `$1` or `${1:'md'}`).
+ */
+const formatTabStop = (index: number, defaultValue = ""): string => {
+  const text = defaultValue.replaceAll(PLACEHOLDER_ESCAPE, String.raw`\$&`);
+  return text ? `\${${index}:${text}}` : `$${index}`;
+};
+
 /**
  * Converts an input property to an HTML attribute string for snippets.
+ * Inputs with a default value use it as placeholder text (e.g., `${2:'md'}`), which also
+ * takes precedence over the `numberAttribute` placeholder.
  * @param property - The property to convert.
  * @param index - The tab stop index.
  * @returns The formatted attribute string.
@@ -67,12 +192,42 @@ export const propertyToAttribute = (
   property: Property,
   index: number
 ): string => {
-  const { name, type } = property;
-  const typeValues = getTypeValues(type);
-  const value = typeValues ? `"\${${index}${typeValues}}"` : `"$${index}"`;
+  const { name, type, transform, choices = [], defaultValue } = property;
+  const transformValues =
+    transform === AttributeTransform.NUMBER && defaultValue
+      ? ""
+      : getTransformValues(transform);
+  const typeValues =
+    transformValues || getChoiceValues(choices) || getTypeValues(type);
+  const quote = !transformValues && isStringChoices(choices) ? "'" : "";
+  const value = typeValues
+    ? `"${quote}\${${index}${typeValues}}${quote}"`
+    : `"${formatTabStop(index, defaultValue)}"`;
   return `${INDENT}[${name}]=${value}`;
 };
 
+/**
+ * Converts a static attribute to a plain HTML attribute string for snippets.
+ * @param property - The attribute property to convert.
+ * @param index - The tab stop index.
+ * @returns The formatted attribute string (e.g., `type="$1"`).
+ */
+export const propertyToStaticAttribute = (
+  property: Property,
+  index: number
+): string => `${INDENT}${property.name}="$${index}"`;
+
+/**
+ * Converts a two-way bindable input to a banana-in-a-box binding string for snippets.
+ * @param property - The property to convert.
+ * @param index - The tab stop index.
+ * @returns The formatted two-way binding string (e.g., `[(value)]="$1"`).
+ */
+export const propertyToTwoWayBinding = (
+  property: Property,
+  index: number
+): string => `${INDENT}[(${property.name})]="$${index}"`;
+
 /**
  * Converts an output property to an event binding string for snippets.
  * @param property - The property to convert.
@@ -106,129 +261,749 @@ const mapProperties = (
   return { lines, nextIndex: startIndex + validProps.length };
 };
 
+/**
+ * Formats the deprecation warning of a binding summary.
+ * @param deprecated - The binding's `@deprecated` note, if the binding is deprecated.
+ * @returns The warning (e.g., " ⚠ Deprecated: Use size instead.") or empty string if the binding is current.
+ */
+const formatDeprecation = (deprecated: string | undefined): string => {
+  if (deprecated === undefined) {
+    return "";
+  }
+  return deprecated ? ` ⚠ Deprecated: ${deprecated}` : " ⚠ Deprecated";
+};
+
+/**
+ * Formats a binding as a line of a snippet description (e.g., "- label: string (required) - The label.").
+ * Deprecated bindings are flagged with a warning ahead of their description.
+ * @param property - The binding property.
+ * @returns The formatted summary line.
+ */
+export const formatPropertySummary = (property: Property): string => {
+  const { name, type, required, defaultValue, description, deprecated } =
+    property;
+  return [
+    `- ${name}: ${type || DataType.ANY}`,
+    defaultValue ? ` = ${defaultValue}` : "",
+    required ? " (required)" : "",
+    formatDeprecation(deprecated),
+    description ? ` - ${description}` : "",
+  ].join("");
+};
+
+/**
+ * Formats a titled list of binding summaries for a snippet description.
+ * @param heading - The section heading.
+ * @param properties - The bindings to summarize.
+ * @returns The section lines, or an empty array if there are no bindings.
+ */
+const formatSummarySection = (
+  heading: string,
+  properties: readonly Property[]
+): string[] => {
+  const valid = properties.filter((p) => p?.name);
+  return valid.length
+    ? [`${heading}:`, ...valid.map(formatPropertySummary)]
+    : [];
+};
+
+/**
+ * Creates a snippet description from a class's JSDoc, followed by a summary of its bindings.
+ * @param summary - The class JSDoc, or the generic summary when undocumented.
+ * @param inputs - The input bindings.
+ * @param outputs - The output bindings.
+ * @param attributes - The static attributes.
+ * @returns The snippet description.
+ */
+export const createDescription = (
+  summary: string,
+  inputs: readonly Property[] = [],
+  outputs: readonly Property[] = [],
+  attributes: readonly Property[] = []
+): string => {
+  const sections = [
+    ...formatSummarySection("Attributes", sortRequiredFirst(attributes)),
+    ...formatSummarySection("Inputs", sortRequiredFirst(inputs)),
+    ...formatSummarySection("Outputs", outputs),
+  ];
+  return sections.length ? `${summary}\n\n${sections.join("\n")}` : summary;
+};
+
+/** HTML void elements, which are written without a closing tag. */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** Host element used for component selectors that do not name an element. */
+const DEFAULT_ELEMENT = "div";
+
+/** Title suffix for the snippet variant that writes two-way bindings as separate bindings. */
+const SPLIT_VARIANT_SUFFIX = " (split bindings)";
+
+/** Placeholder text for the template reference variable name. */
+const REFERENCE_PLACEHOLDER = "ref";
+
+/** Element used to write out a structural directive's template. */
+const NG_TEMPLATE_ELEMENT = "ng-template";
+
+/** Placeholder text for the variable bound to a template's `$implicit` context. */
+const IMPLICIT_PLACEHOLDER = "value";
+
+/** A single entry of a snippet object. */
+type SnippetEntry = Snippet[string];
+
+/** Describes one snippet variant generated for a component or directive. */
+interface SnippetVariant {
+  /** The suffix appended to the snippet titles. */
+  readonly titleSuffix: string;
+  /** The names of the inputs written as two-way bindings. */
+  readonly twoWayBindings: readonly string[];
+  /** The export name assigned to a template reference variable, if any. */
+  readonly exportAs?: string;
+}
+
+/**
+ * Formats a template reference variable assigned to an exported directive instance.
+ * @param exportAs - The directive's export name.
+ * @param index - The tab stop index.
+ * @returns The formatted reference string (e.g., `#${1:ref}="appDropdown"`).
+ */
+export const formatReference = (exportAs: string, index: number): string =>
+  `${INDENT}#\${${index}:${REFERENCE_PLACEHOLDER}}="${exportAs}"`;
+
+/**
+ * Formats static attributes, input and output bindings as snippet body lines.
+ * A variant's template reference variable comes first, then static attributes, required
+ * inputs, the remaining inputs and the outputs. Two-way bindable inputs are written as
+ * `[(name)]`, replacing their `Change` output.
+ * @param bindings - The component or directive bindings.
+ * @param options - The snippet generation options.
+ * @param variant - The snippet variant being generated.
+ * @returns Object with the binding lines and the last tab stop index used.
+ */
+const createBindingLines = (
+  bindings: Pick<DirectiveInfo, "inputs" | "outputs" | "attributes">,
+  options: SnippetOptions,
+  variant: SnippetVariant
+): { lines: string[]; nextIndex: number } => {
+  const { inputs, outputs, attributes = [] } = bindings;
+  const reference = variant.exportAs
+    ? [formatReference(variant.exportAs, 1)]
+    : [];
+  const attributeResult = mapProperties(
+    sortRequiredFirst(attributes),
+    propertyToStaticAttribute,
+    reference.length
+  );
+  const arranged = arrangeInputs(inputs, options.inputsWithDefaults);
+  const twoWay = new Set(
+    arranged
+      .map((p) => p?.name)
+      .filter((name) => variant.twoWayBindings.includes(name))
+  );
+  const changeOutputs = new Set(
+    [...twoWay].map((name) => `${name}${MODEL_CHANGE_SUFFIX}`)
+  );
+  const inputResult = mapProperties(
+    arranged,
+    (prop, index) =>
+      twoWay.has(prop.name)
+        ? propertyToTwoWayBinding(prop, index)
+        : propertyToAttribute(prop, index),
+    attributeResult.nextIndex
+  );
+  const outputResult = mapProperties(
+    outputs.filter((p) => !changeOutputs.has(p?.name)),
+    propertyToFunction,
+    inputResult.nextIndex
+  );
+  return {
+    lines: [
+      ...reference,
+      ...attributeResult.lines,
+      ...inputResult.lines,
+      ...outputResult.lines,
+    ],
+    nextIndex: outputResult.nextIndex,
+  };
+};
+
+/**
+ * Formats the element a selector matches, falling back to a `div` host.
+ * @param selector - The parsed selector alternative.
+ * @returns The element name and the opening tag contents.
+ */
+const formatElement = (
+  selector: CssSelector
+): { element: string; opening: string } => {
+  const element = selector.element || DEFAULT_ELEMENT;
+  const opening = [element, selectorToAttributes(selector)]
+    .filter(Boolean)
+    .join(" ");
+  return { element, opening };
+};
+
+/**
+ * Formats content projection slots as snippet body lines.
+ * Each named slot becomes an element holding a tab stop (e.g., `<div card-header>$4</div>`),
+ * followed by a tab stop for default content.
+ * @param slots - The `select` values of the component's `<ng-content>` slots.
+ * @param startIndex - The starting tab stop index.
+ * @returns Object with the content lines and the last tab stop index used.
+ */
+const createContentLines = (
+  slots: readonly string[],
+  startIndex: number
+): { lines: string[]; nextIndex: number } => {
+  if (!slots.length) {
+    return { lines: [], nextIndex: startIndex };
+  }
+  const named = slots.flatMap((slot) => parseSelector(slot).slice(0, 1));
+  const lines = named.map((selector, i) => {
+    const { element, opening } = formatElement(selector);
+    return `${INDENT}<${opening}>$${startIndex + i + 1}</${element}>`;
+  });
+  const defaultIndex = startIndex + named.length + 1;
+  return {
+    lines: [...lines, `${INDENT}$${defaultIndex}`],
+    nextIndex: defaultIndex,
+  };
+};
+
+/**
+ * Creates a snippet body that writes out the element matched by a selector.
+ * Void elements (e.g., `input`) are self-closed instead of given a closing tag.
+ * @param selector - The parsed selector alternative.
+ * @param lines - The binding lines.
+ * @param finalIndex - The final tab stop index.
+ * @param content - The content lines placed between the opening and closing tags.
+ * @returns The snippet body lines.
+ */
+const createElementBody = (
+  selector: CssSelector,
+  lines: readonly string[],
+  finalIndex: number,
+  content: readonly string[] = []
+): string[] => {
+  const { element, opening } = formatElement(selector);
+  const closing = content.length
+    ? [">", ...content, `</${element}>`]
+    : [`></${element}>`];
+  return [
+    `<${opening} `,
+    ...lines,
+    ...(VOID_ELEMENTS.has(element) ? ["/>"] : closing),
+    `$${finalIndex}`,
+  ];
+};
+
+/**
+ * Creates one snippet per selector alternative.
+ * When a selector has several alternatives, each title is suffixed with its alternative
+ * so the snippet keys stay unique.
+ * @param selector - The component or directive selector.
+ * @param getTitle - Creates the base title for an alternative.
+ * @param createEntry - Creates the snippet entry for an alternative.
+ * @returns The snippet object or undefined if the selector has no alternatives.
+ */
+const createSelectorSnippets = (
+  selector: string,
+  getTitle: (alternative: CssSelector) => string,
+  createEntry: (alternative: CssSelector) => SnippetEntry
+): Snippet | undefined => {
+  const alternatives = parseSelector(selector);
+
+  if (!alternatives.length) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    alternatives.map((alternative) => [
+      alternatives.length > 1
+        ? `${getTitle(alternative)} (${stringifySelector(alternative)})`
+        : getTitle(alternative),
+      createEntry(alternative),
+    ])
+  );
+};
+
+/**
+ * Lists the snippet variants to generate for a component or directive.
+ * Besides the default variant, a split binding variant is added when the options ask for
+ * one, and a variant with a template reference variable for each export name.
+ * @param info - The component or directive info.
+ * @param options - The snippet generation options.
+ * @returns The snippet variants.
+ */
+const getSnippetVariants = (
+  info: ComponentInfo | DirectiveInfo,
+  options: SnippetOptions
+): SnippetVariant[] => {
+  const { twoWayBindings = [], exportAs = [] } = info;
+  return [
+    { titleSuffix: "", twoWayBindings },
+    ...(options.splitBindingVariant && twoWayBindings.length
+      ? [{ titleSuffix: SPLIT_VARIANT_SUFFIX, twoWayBindings: [] }]
+      : []),
+    ...exportAs.map((name) => ({
+      titleSuffix: ` (#${name})`,
+      twoWayBindings,
+      exportAs: name,
+    })),
+  ];
+};
+
+/**
+ * Creates the snippets for every variant of a component or directive.
+ * @param info - The component or directive info.
+ * @param options - The snippet generation options.
+ * @param createVariant - Creates the snippet for a single variant.
+ * @returns The snippet object or undefined if no snippet could be created.
+ */
+const createVariantSnippets = (
+  info: ComponentInfo | DirectiveInfo,
+  options: SnippetOptions,
+  createVariant: (variant: SnippetVariant) => Snippet | undefined
+): Snippet | undefined => {
+  const [snippet, ...variants] = getSnippetVariants(info, options).map(
+    createVariant
+  );
+  return snippet && Object.assign({}, snippet, ...variants);
+};
+
+/**
+ * Creates the `[@trigger]` binding and `(@trigger.done)` callback snippets for a component's
+ * animation triggers, offered only in the files matched by the `include` option when set.
+ * @param component - The component info.
+ * @param options - The snippet generation options.
+ * @returns The animation snippets, empty when the component declares no triggers.
+ */
+export const createAnimationSnippets = (
+  component: ComponentInfo,
+  options: SnippetOptions = {}
+): Snippet => {
+  const name = formatComponentName(component.className);
+  const include = options.include?.length ? { include: options.include } : {};
+  return Object.fromEntries(
+    (component.animationTriggers ?? []).flatMap((trigger) => {
+      const binding = `[@${trigger}]`;
+      const callback = `(@${trigger}.done)`;
+      return [
+        [
+          `${name} ${binding}`,
+          {
+            body: [`${binding}="$1"`],
+            description: `Binds the ${trigger} animation trigger of ${name}.`,
+            prefix: [`@${trigger}`, binding],
+            scope: "html",
+            ...include,
+          },
+        ],
+        [
+          `${name} ${callback}`,
+          {
+            body: [
+              `${callback}="$1:${formatToFunctionName(trigger)}Done($event)"`,
+            ],
+            description: `Handles the end of the ${trigger} animation of ${name}.`,
+            prefix: [`@${trigger}.done`, callback],
+            scope: "html",
+            ...include,
+          },
+        ],
+      ];
+    })
+  );
+};
+
 /**
  * Creates a VS Code snippet from Angular component information.
+ * Each selector alternative produces its own snippet (e.g., `button[mat-button]`
+ * produces `<button mat-button></button>`), with tab stops for its content projection slots.
+ * Two-way bindings are written as `[(name)]`, optionally alongside a split binding variant,
+ * and each `exportAs` name adds a variant with a template reference variable.
+ * Animation triggers add separate `[@trigger]` and `(@trigger.done)` snippets.
  * @param component - The component info to create a snippet from.
+ * @param options - The snippet generation options.
  * @returns The snippet object or undefined if component is invalid.
  */
 export const createComponentSnippet = (
-  component: ComponentInfo
+  component: ComponentInfo,
+  options: SnippetOptions = {}
 ): Snippet | undefined => {
-  const { className, selector, inputs, outputs } = component;
-
-  if (!selector) {
-    return undefined;
-  }
+  const { className, selector, inputs, outputs, contentSlots = [] } = component;
+  const description = createDescription(
+    component.description ||
+      `A code snippet for ${formatComponentName(className)}.`,
+    inputs,
+    outputs,
+    component.attributes
+  );
 
-  const title = kebabToTitleCase(selector);
-  let tabIndex = 0;
+  const snippet = createVariantSnippets(component, options, (variant) => {
+    const { lines, nextIndex } = createBindingLines(
+      component,
+      options,
+      variant
+    );
+    const content = createContentLines(contentSlots, nextIndex);
+    return createSelectorSnippets(
+      selector,
+      (alternative) =>
+        `${kebabToTitleCase(getSelectorPrefix(alternative))}${variant.titleSuffix}`,
+      (alternative) => ({
+        body: createElementBody(
+          alternative,
+          lines,
+          content.nextIndex + 1,
+          content.lines
+        ),
+        description,
+        prefix: [getSelectorPrefix(alternative)],
+        scope: "html",
+      })
+    );
+  });
+  return (
+    snippet && { ...snippet, ...createAnimationSnippets(component, options) }
+  );
+};
 
-  const inputResult = mapProperties(inputs, propertyToAttribute, tabIndex);
-  tabIndex = inputResult.nextIndex;
+/**
+ * Formats a template context variable in microsyntax.
+ * @param key - The template context key.
+ * @param index - The tab stop index.
+ * @returns The formatted variable (e.g., `let ${2:value}` or `let ${3:index} = index`).
+ */
+export const formatMicrosyntaxVariable = (
+  key: string,
+  index: number
+): string =>
+  key === IMPLICIT_CONTEXT_KEY
+    ? `let ${formatTabStop(index, IMPLICIT_PLACEHOLDER)}`
+    : `let ${formatTabStop(index, key)} = ${key}`;
 
-  const outputResult = mapProperties(outputs, propertyToFunction, tabIndex);
-  tabIndex = outputResult.nextIndex;
+/**
+ * Formats a template context variable as an `ng-template` attribute.
+ * @param key - The template context key.
+ * @param index - The tab stop index.
+ * @returns The formatted attribute (e.g., `let-${2:value}` or `let-${3:index}="index"`).
+ */
+export const formatTemplateVariable = (key: string, index: number): string =>
+  key === IMPLICIT_CONTEXT_KEY
+    ? `${INDENT}let-${formatTabStop(index, IMPLICIT_PLACEHOLDER)}`
+    : `${INDENT}let-${formatTabStop(index, key)}="${key}"`;
 
+/**
+ * Creates the microsyntax expression of a structural directive (e.g., `$1; else: $2; let ${3:value}`).
+ * The input named after the directive holds the main expression, inputs prefixed with its
+ * name become keyed expressions, and the template context keys become `let` variables.
+ * @param name - The directive's attribute name.
+ * @param inputs - The directive's input properties.
+ * @param templateContext - The template context keys.
+ * @returns Object with the expression and the last tab stop index used.
+ */
+const createMicrosyntax = (
+  name: string,
+  inputs: readonly Property[],
+  templateContext: readonly string[]
+): { expression: string; nextIndex: number } => {
+  const names = inputs.map((p) => p?.name);
+  const main = names.includes(name) ? ["$1"] : [];
+  const keys = names
+    .filter((input) => input?.startsWith(name) && input !== name)
+    .map(
+      (input, i) =>
+        `${lowerCaseFirstCharacter(input.slice(name.length))}: $${main.length + i + 1}`
+    );
+  const startIndex = main.length + keys.length;
+  const variables = templateContext.map((key, i) =>
+    formatMicrosyntaxVariable(key, startIndex + i + 1)
+  );
   return {
-    [title]: {
-      body: [
-        `<${selector} `,
-        ...inputResult.lines,
-        ...outputResult.lines,
-        `></${selector}>`,
-        `$${tabIndex + 1}`,
-      ],
-      description: `A code snippet for ${formatComponentName(className)}.`,
-      prefix: [selector],
-      scope: "html",
-    },
+    expression: [...main, ...keys, ...variables].join("; "),
+    nextIndex: startIndex + variables.length,
   };
 };
 
 /**
- * Cleans a directive selector for use as a snippet prefix.
- * Removes attribute selector brackets (e.g., "[appHighlight]" -> "appHighlight").
- * @param selector - The directive selector.
- * @returns The cleaned selector.
+ * Creates the snippets of a structural directive: a `*name` microsyntax attribute, and an
+ * `ng-template` variant with input bindings and `let-` variables for its template context.
+ * @param directive - The structural directive info.
+ * @param description - The snippet description.
+ * @param options - The snippet generation options.
+ * @returns The snippet object or undefined if the directive has no selector.
  */
-const cleanDirectiveSelector = (selector: string): string =>
-  selector.replaceAll(/(?:^\[)|(?:\]$)/g, "");
+const createStructuralDirectiveSnippet = (
+  directive: DirectiveInfo,
+  description: string,
+  options: SnippetOptions
+): Snippet | undefined => {
+  const { className, selector, inputs, templateContext = [] } = directive;
+  const title = `${formatComponentName(className)} Directive`;
+  const microsyntax = createSelectorSnippets(
+    selector,
+    () => title,
+    (alternative) => {
+      const name = getSelectorPrefix(alternative);
+      const { expression, nextIndex } = createMicrosyntax(
+        name,
+        inputs,
+        templateContext
+      );
+      return {
+        body: [
+          expression ? `*${name}="${expression}"` : `*${name}`,
+          `$${nextIndex + 1}`,
+        ],
+        description,
+        prefix: [name, `*${name}`],
+        scope: "html",
+      };
+    }
+  );
+  const template = createSelectorSnippets(
+    selector,
+    () => `${title} (${NG_TEMPLATE_ELEMENT})`,
+    (alternative) => {
+      const { lines, nextIndex } = createBindingLines(directive, options, {
+        titleSuffix: "",
+        twoWayBindings: directive.twoWayBindings ?? [],
+      });
+      const variables = templateContext.map((key, i) =>
+        formatTemplateVariable(key, nextIndex + i + 1)
+      );
+      const contentIndex = nextIndex + variables.length + 1;
+      return {
+        body: createElementBody(
+          { ...alternative, element: NG_TEMPLATE_ELEMENT },
+          [...lines, ...variables],
+          contentIndex + 1,
+          [`${INDENT}$${contentIndex}`]
+        ),
+        description,
+        prefix: [getSelectorPrefix(alternative)],
+        scope: "html",
+      };
+    }
+  );
+  return microsyntax && { ...microsyntax, ...template };
+};
 
 /**
  * Creates a VS Code snippet from Angular directive information.
+ * Attribute-only selectors produce attributes for an existing element, while selectors
+ * that name an element (e.g., `button[appFoo]`) produce the full element.
+ * Two-way bindings are written as `[(name)]`, optionally alongside a split binding variant,
+ * and each `exportAs` name adds a variant with a template reference variable.
+ * Structural directives produce microsyntax and `ng-template` snippets instead.
  * @param directive - The directive info to create a snippet from.
+ * @param options - The snippet generation options.
  * @returns The snippet object or undefined if directive is invalid.
  */
 export const createDirectiveSnippet = (
-  directive: DirectiveInfo
+  directive: DirectiveInfo,
+  options: SnippetOptions = {}
 ): Snippet | undefined => {
   const { className, selector, inputs, outputs } = directive;
+  const description = createDescription(
+    directive.description ||
+      `A directive snippet for ${formatComponentName(className)}.`,
+    inputs,
+    outputs,
+    directive.attributes
+  );
 
-  if (!selector) {
-    return undefined;
+  if (directive.structural) {
+    return createStructuralDirectiveSnippet(directive, description, options);
   }
 
-  const cleanSelector = cleanDirectiveSelector(selector);
-  const title = `${formatComponentName(className)} Directive`;
-  let tabIndex = 0;
+  return createVariantSnippets(directive, options, (variant) => {
+    const { lines, nextIndex } = createBindingLines(
+      directive,
+      options,
+      variant
+    );
+    return createSelectorSnippets(
+      selector,
+      () => `${formatComponentName(className)} Directive${variant.titleSuffix}`,
+      (alternative) => ({
+        body: alternative.element
+          ? createElementBody(alternative, lines, nextIndex + 1)
+          : [selectorToAttributes(alternative), ...lines, `$${nextIndex + 1}`],
+        description,
+        prefix: [getSelectorPrefix(alternative)],
+        scope: "html",
+      })
+    );
+  });
+};
 
-  const inputResult = mapProperties(inputs, propertyToAttribute, tabIndex);
-  tabIndex = inputResult.nextIndex;
+/** Placeholder text for the value piped into a pipe. */
+const PIPE_VALUE_PLACEHOLDER = "value";
 
-  const outputResult = mapProperties(outputs, propertyToFunction, tabIndex);
-  tabIndex = outputResult.nextIndex;
+/**
+ * Expands pipe signatures into the argument lists to offer, one per number of optional
+ * arguments supplied. Each list starts with the piped value.
+ * @param signatures - The `transform()` signatures.
+ * @returns The distinct argument lists.
+ */
+export const getPipeArgumentLists = (
+  signatures: readonly PipeSignature[]
+): PipeSignature[] => {
+  const lists = new Map<string, PipeSignature>();
+  signatures.forEach((signature) => {
+    const args = signature.slice(1);
+    const firstOptional = args.findIndex((parameter) => parameter.optional);
+    const requiredCount = firstOptional === -1 ? args.length : firstOptional;
+    for (let count = requiredCount; count <= args.length; count++) {
+      const list = signature.slice(0, count + 1);
+      lists.set(list.map((parameter) => parameter.name).join(":"), list);
+    }
+  });
+  return [...lists.values()];
+};
 
-  // Directive snippets add attributes to existing elements
-  return {
-    [title]: {
-      body: [
-        `${cleanSelector}`,
-        ...inputResult.lines,
-        ...outputResult.lines,
-        `$${tabIndex + 1}`,
-      ],
-      description: `A directive snippet for ${formatComponentName(className)}.`,
-      prefix: [cleanSelector],
-      scope: "html",
-    },
-  };
+/**
+ * Formats a pipe argument tab stop, offering choices for boolean and literal union parameters.
+ * @param parameter - The `transform()` parameter.
+ * @param index - The tab stop index.
+ * @returns The formatted argument (e.g., `${2:maxLength}` or `'${3|short,long|}'`).
+ */
+export const formatPipeArgument = (
+  parameter: PipeParameter,
+  index: number
+): string => {
+  const { name, type, choices = [] } = parameter;
+  const values = getChoiceValues(choices) || getTypeValues(type);
+  const quote = isStringChoices(choices) ? "'" : "";
+  return values
+    ? `${quote}\${${index}${values}}${quote}`
+    : formatTabStop(index, name);
+};
+
+/**
+ * Formats a pipe expression with a tab stop for the piped value and each argument.
+ * @param name - The pipe name.
+ * @param list - The argument list, starting with the piped value.
+ * @returns The formatted expression (e.g., `{{ ${1:value} | truncate:${2:maxLength} }}`).
+ */
+const formatPipeExpression = (name: string, list: PipeSignature): string => {
+  const [value, ...args] = list;
+  const formattedArgs = args.map(
+    (parameter, i) => `:${formatPipeArgument(parameter, i + 2)}`
+  );
+  return `{{ ${formatTabStop(1, value?.name ?? PIPE_VALUE_PLACEHOLDER)} | ${name}${formattedArgs.join("")} }}`;
 };
 
 /**
  * Creates a VS Code snippet from Angular pipe information.
+ * When the `transform()` signatures are known, each argument list gets its own snippet
+ * (e.g., `{{ ${1:value} | truncate:${2:maxLength}:${3:suffix} }}`), titled with its arguments.
  * @param pipe - The pipe info to create a snippet from.
  * @returns The snippet object or undefined if pipe is invalid.
  */
 export const createPipeSnippet = (pipe: PipeInfo): Snippet | undefined => {
-  const { className, name } = pipe;
+  const { className, name, signatures } = pipe;
 
   if (!name) {
     return undefined;
   }
 
   const title = `${formatComponentName(className)} Pipe`;
+  const entry = (body: string): SnippetEntry => ({
+    body: [body],
+    description:
+      pipe.description ||
+      `A pipe snippet for ${formatComponentName(className)}.`,
+    prefix: [name, `| ${name}`],
+    scope: "html",
+  });
+
+  if (!signatures?.length) {
+    return { [title]: entry(`{{ $1 | ${name}$2 }}`) };
+  }
 
+  return Object.fromEntries(
+    getPipeArgumentLists(signatures).map((list, i) => [
+      i === 0
+        ? title
+        : `${title} (${list
+            .slice(1)
+            .map((parameter) => parameter.name)
+            .join(", ")})`,
+      entry(formatPipeExpression(name, list)),
+    ])
+  );
+};
+
+/**
+ * Removes the bindings marked `@deprecated` from a component or directive when the
+ * options ask to omit them, along with the two-way bindings they take part in.
+ * @param info - The component or directive info.
+ * @param options - The snippet generation options.
+ * @returns The info without deprecated bindings, or the info unchanged when they are kept.
+ */
+export const omitDeprecatedBindings = <T extends ComponentInfo | DirectiveInfo>(
+  info: T,
+  options: SnippetOptions = {}
+): T => {
+  if (options.deprecatedBindings !== DeprecatedBindingHandling.OMIT) {
+    return info;
+  }
+  const isCurrent = (property: Property): boolean =>
+    property?.deprecated === undefined;
+  const inputs = info.inputs.filter(isCurrent);
+  const outputs = info.outputs.filter(isCurrent);
+  const inputNames = new Set(inputs.map((input) => input.name));
+  const outputNames = new Set(outputs.map((output) => output.name));
+  const isBindable = (name: string): boolean =>
+    inputNames.has(name) && outputNames.has(`${name}${MODEL_CHANGE_SUFFIX}`);
   return {
-    [title]: {
-      body: [`{{ $1 | ${name}$2 }}`],
-      description: `A pipe snippet for ${formatComponentName(className)}.`,
-      prefix: [name, `| ${name}`],
-      scope: "html",
-    },
+    ...info,
+    inputs,
+    outputs,
+    ...(info.twoWayBindings && {
+      twoWayBindings: info.twoWayBindings.filter(isBindable),
+    }),
+    ...(info.attributes && { attributes: info.attributes.filter(isCurrent) }),
   };
 };
 
 /**
  * Creates a VS Code snippet from any Angular artifact information.
+ * Deprecated bindings are left out when the options ask to omit them.
  * @param info - The Angular info to create a snippet from.
+ * @param options - The snippet generation options.
  * @returns The snippet object or undefined if info is invalid.
  */
-export const createSnippet = (info: AngularInfo): Snippet | undefined => {
+export const createSnippet = (
+  info: AngularInfo,
+  options: SnippetOptions = {}
+): Snippet | undefined => {
   switch (info.kind) {
     case ArtifactKind.COMPONENT:
-      return createComponentSnippet(info);
+      return createComponentSnippet(
+        omitDeprecatedBindings(info, options),
+        options
+      );
     case ArtifactKind.DIRECTIVE:
-      return createDirectiveSnippet(info);
+      return createDirectiveSnippet(
+        omitDeprecatedBindings(info, options),
+        options
+      );
     case ArtifactKind.PIPE:
       return createPipeSnippet(info);
     default:
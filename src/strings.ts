@@ -23,6 +23,14 @@
 export const upperCaseFirstCharacter = (value = ""): string =>
   value ? value.charAt(0).toUpperCase() + value.slice(1) : value;
 
+/**
+ * Lowercases the first character of a string while preserving the rest.
+ * @param value - The string to transform.
+ * @returns The string with its first character lowercased, or the original value if empty/falsy.
+ */
+export const lowerCaseFirstCharacter = (value = ""): string =>
+  value ? value.charAt(0).toLowerCase() + value.slice(1) : value;
+
 /**
  * Converts a kebab-cased string to title case.
  * Replaces hyphens with spaces and capitalizes the first letter of each word.
@@ -0,0 +1,40 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** Matches an HTML comment. */
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+
+/** Matches an `<ng-content>` opening tag, capturing its attributes. */
+const NG_CONTENT_TAG = /<ng-content\b([^>]*)>/gi;
+
+/** Matches a static `select` attribute, capturing its value. */
+const SELECT_ATTRIBUTE = /(?:^|\s)select\s*=\s*(["'])(.*?)\1/i;
+
+/**
+ * Finds the content projection slots declared by `<ng-content>` elements in a template.
+ * The default slot, declared without a `select` attribute, is reported as an empty string.
+ * @param template - The component template HTML.
+ * @returns The unique slot selectors, in template order.
+ */
+export const findContentSlots = (template = ""): string[] => [
+  ...new Set(
+    Array.from(
+      template.replaceAll(HTML_COMMENT, "").matchAll(NG_CONTENT_TAG),
+      ([, attributes = ""]) =>
+        attributes.match(SELECT_ATTRIBUTE)?.[2]?.trim() ?? ""
+    )
+  ),
+];
@@ -0,0 +1,282 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert";
+import path from "node:path";
+
+import {
+  CacheFileSystem,
+  createParseCache,
+  defaultCacheFileSystem,
+  hashContents,
+  isEntryCurrent,
+  MISSING_FILE_TIME,
+  PARSE_CACHE_VERSION,
+  ParseCache,
+  parseWithCache,
+  pruneParseCache,
+  readParseCache,
+} from "../../cache";
+import { ArtifactKind } from "../../constants";
+import { AngularInfo, FileReader } from "../../types";
+
+/** A file held by the in-memory file system. */
+interface MockFile {
+  contents: string;
+  mtime: number;
+}
+
+/**
+ * Creates an in-memory cache file system and synchronous reader that count file reads.
+ * @param files - Map of absolute file paths to their contents and modified times.
+ * @returns The file system, the reader and the paths read so far.
+ */
+const createFileSystem = (
+  files: Map<string, MockFile>
+): { fileSystem: CacheFileSystem; readFile: FileReader; reads: string[] } => {
+  const reads: string[] = [];
+  const readFile = (filePath: string): string => {
+    reads.push(filePath);
+    return files.get(path.resolve(filePath))?.contents ?? "";
+  };
+  return {
+    fileSystem: {
+      readFile: async (filePath: string): Promise<string> => readFile(filePath),
+      getModifiedTime: async (filePath: string): Promise<number> =>
+        files.get(path.resolve(filePath))?.mtime ?? MISSING_FILE_TIME,
+    },
+    readFile,
+    reads,
+  };
+};
+
+const componentPath = path.resolve("/workspace/src/card.component.ts");
+const basePath = path.resolve("/workspace/src/base.ts");
+
+const info: AngularInfo = {
+  kind: ArtifactKind.COMPONENT,
+  className: "CardComponent",
+  selector: "app-card",
+  inputs: [],
+  outputs: [],
+};
+
+suite("cache", () => {
+  suite("defaultCacheFileSystem", () => {
+    test("should report modified times of existing and missing files", async () => {
+      assert.ok((await defaultCacheFileSystem.getModifiedTime(__filename)) > 0);
+      assert.strictEqual(
+        await defaultCacheFileSystem.getModifiedTime(`${__filename}.missing`),
+        MISSING_FILE_TIME
+      );
+    });
+  });
+
+  suite("readParseCache", () => {
+    const entries = {
+      [componentPath]: {
+        stamp: { mtime: 1, hash: "abc" },
+        dependencies: {},
+        infos: [info],
+      },
+    };
+
+    test("should read a cache saved with the same version and key", () => {
+      const contents = JSON.stringify({
+        version: PARSE_CACHE_VERSION,
+        key: "key",
+        entries,
+      });
+      assert.deepStrictEqual(readParseCache(contents, "key"), {
+        version: PARSE_CACHE_VERSION,
+        key: "key",
+        entries,
+      });
+    });
+
+    const cases: [string, string][] = [
+      ["", "a missing cache"],
+      ["{", "malformed JSON"],
+      ["null", "a null cache"],
+      [
+        JSON.stringify({ version: PARSE_CACHE_VERSION, key: "old", entries }),
+        "a cache saved with other settings",
+      ],
+      [
+        JSON.stringify({
+          version: PARSE_CACHE_VERSION + 1,
+          key: "key",
+          entries,
+        }),
+        "a cache saved with another format version",
+      ],
+      [
+        JSON.stringify({ version: PARSE_CACHE_VERSION, key: "key" }),
+        "a cache without entries",
+      ],
+    ];
+
+    cases.forEach(([contents, description]) => {
+      test(`should start over empty for ${description}`, () => {
+        assert.deepStrictEqual(
+          readParseCache(contents, "key"),
+          createParseCache("key")
+        );
+      });
+    });
+  });
+
+  suite("parseWithCache", () => {
+    /**
+     * Parses the component file, reading its base class through the given reader.
+     * @param readFile - The file reader.
+     * @returns The parsed artifacts.
+     */
+    const parse = (readFile: FileReader): AngularInfo[] => {
+      readFile(componentPath);
+      readFile(basePath);
+      return [info];
+    };
+
+    const createFiles = (): Map<string, MockFile> =>
+      new Map([
+        [componentPath, { contents: "component", mtime: 1 }],
+        [basePath, { contents: "base", mtime: 1 }],
+      ]);
+
+    /**
+     * Parses the component file through a fresh in-memory file system.
+     * @param files - The files to read.
+     * @param cache - The parse cache.
+     * @param parseFile - Parses the component file.
+     * @returns The parse result and the paths read.
+     */
+    const parseComponent = async (
+      files: Map<string, MockFile>,
+      cache: ParseCache,
+      parseFile = parse
+    ): Promise<{
+      result: { infos: readonly AngularInfo[]; cached: boolean };
+      reads: string[];
+    }> => {
+      const { fileSystem, readFile, reads } = createFileSystem(files);
+      const result = await parseWithCache(
+        componentPath,
+        cache,
+        fileSystem,
+        parseFile,
+        readFile
+      );
+      return { result, reads };
+    };
+
+    test("should parse and cache files that are not cached", async () => {
+      const cache = createParseCache("key");
+      const { result } = await parseComponent(createFiles(), cache);
+      assert.deepStrictEqual(result, { infos: [info], cached: false });
+      assert.deepStrictEqual(cache.entries[componentPath], {
+        stamp: { mtime: 1, hash: hashContents("component") },
+        dependencies: { [basePath]: { mtime: 1, hash: hashContents("base") } },
+        infos: [info],
+      });
+    });
+
+    test("should reuse results without reading unchanged files", async () => {
+      const files = createFiles();
+      const cache = createParseCache("key");
+      await parseComponent(files, cache);
+      let parsed = false;
+      const { result, reads } = await parseComponent(files, cache, () => {
+        parsed = true;
+        return [];
+      });
+      assert.deepStrictEqual(result, { infos: [info], cached: true });
+      assert.strictEqual(parsed, false);
+      assert.deepStrictEqual(reads, []);
+    });
+
+    test("should reuse results for touched files with the same contents", async () => {
+      const files = createFiles();
+      const cache = createParseCache("key");
+      await parseComponent(files, cache);
+      files.set(componentPath, { contents: "component", mtime: 2 });
+      const { result } = await parseComponent(files, cache);
+      assert.strictEqual(result.cached, true);
+    });
+
+    test("should parse with the given synchronous reader", async () => {
+      const files = createFiles();
+      const { fileSystem } = createFileSystem(files);
+      const { readFile, reads } = createFileSystem(files);
+      await parseWithCache(
+        componentPath,
+        createParseCache("key"),
+        fileSystem,
+        parse,
+        readFile
+      );
+      assert.deepStrictEqual(reads, [componentPath, basePath]);
+    });
+
+    const changes: [string, string][] = [
+      [componentPath, "the parsed file"],
+      [basePath, "a file read while parsing"],
+    ];
+
+    changes.forEach(([changedPath, description]) => {
+      test(`should re-parse when ${description} changes`, async () => {
+        const files = createFiles();
+        const cache = createParseCache("key");
+        await parseComponent(files, cache);
+        files.set(changedPath, { contents: "edited", mtime: 2 });
+        const { result } = await parseComponent(files, cache);
+        assert.strictEqual(result.cached, false);
+        const { fileSystem } = createFileSystem(files);
+        assert.strictEqual(
+          await isEntryCurrent(
+            componentPath,
+            cache.entries[componentPath],
+            fileSystem
+          ),
+          true
+        );
+      });
+    });
+  });
+
+  suite("pruneParseCache", () => {
+    test("should drop the entries of deleted files", async () => {
+      const entry = {
+        stamp: { mtime: 1, hash: "abc" },
+        dependencies: {},
+        infos: [],
+      };
+      const cache = {
+        ...createParseCache("key"),
+        entries: { [componentPath]: entry, [basePath]: entry },
+      };
+      const { fileSystem } = createFileSystem(
+        new Map([[componentPath, { contents: "", mtime: 1 }]])
+      );
+      assert.deepStrictEqual(
+        (await pruneParseCache(cache, fileSystem)).entries,
+        {
+          [componentPath]: entry,
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert";
+import path from "node:path";
+
+import ts from "typescript";
+
+import { createTypeCheckProgram, getTypeChoices } from "../../checker";
+import { createSourceFile } from "../../nodes";
+import { FileReader } from "../../types";
+
+/**
+ * Resolves a path below the virtual workspace root.
+ * @param segments - The path segments.
+ * @returns The absolute path.
+ */
+const ws = (...segments: string[]): string =>
+  path.resolve("/workspace", ...segments);
+
+/**
+ * Creates a file reader backed by an in-memory file map.
+ * @param files - Map of absolute file paths to contents.
+ * @returns The file reader.
+ */
+const createReader =
+  (files: Record<string, string>): FileReader =>
+  (filePath: string): string =>
+    files[path.resolve(filePath)] ?? "";
+
+/**
+ * Finds the declared type node of a type alias in a program's source file.
+ * @param program - The program.
+ * @param filePath - The source file path.
+ * @param name - The type alias name.
+ * @returns The aliased type node.
+ */
+const getAliasTypeNode = (
+  program: ts.Program,
+  filePath: string,
+  name: string
+): ts.TypeNode => {
+  const sourceFile = program.getSourceFile(filePath);
+  const alias = sourceFile?.statements
+    .filter(ts.isTypeAliasDeclaration)
+    .find((statement) => statement.name.text === name);
+  assert.ok(alias);
+  return alias.type;
+};
+
+suite("checker", () => {
+  const files = {
+    [ws("tsconfig.json")]: JSON.stringify({
+      extends: "./tsconfig.base.json",
+    }),
+    [ws("tsconfig.base.json")]: JSON.stringify({
+      compilerOptions: { strict: true },
+    }),
+    [ws("src", "types.ts")]: [
+      "export type Size = 'sm' | 'md' | 'lg';",
+      "export enum Variant { Primary = 'primary', Secondary = 'secondary' }",
+      "export enum Level { Low, High }",
+    ].join("\n"),
+    [ws("src", "button.ts")]: [
+      "import { Level, Size, Variant } from './types';",
+      "type AliasedSize = Size;",
+      "type OptionalSize = Size | undefined;",
+      "type VariantType = Variant;",
+      "type LevelType = Level;",
+      "type Flag = boolean;",
+      "type Text = string;",
+      "type Mixed = 'auto' | 1;",
+    ].join("\n"),
+  };
+  const buttonPath = ws("src", "button.ts");
+  let program: ts.Program;
+
+  suiteSetup(() => {
+    program = createTypeCheckProgram(
+      ws("src"),
+      [buttonPath],
+      createReader(files)
+    );
+  });
+
+  suite("createTypeCheckProgram", () => {
+    test("should honor the nearest tsconfig.json and its extends chain", () => {
+      assert.strictEqual(program.getCompilerOptions().strict, true);
+      assert.strictEqual(program.getCompilerOptions().noEmit, true);
+    });
+
+    test("should include imported files", () => {
+      assert.ok(program.getSourceFile(ws("src", "types.ts")));
+    });
+
+    test("should use default options when no tsconfig.json exists", () => {
+      const noConfig = createTypeCheckProgram(
+        ws("src"),
+        [buttonPath],
+        createReader({ [buttonPath]: files[buttonPath] })
+      );
+      assert.strictEqual(noConfig.getCompilerOptions().strict, undefined);
+    });
+  });
+
+  suite("getTypeChoices", () => {
+    /**
+     * Resolves the choices of a type alias declared in the test file.
+     * @param name - The type alias name.
+     * @returns The resolved choices.
+     */
+    const choicesOf = (name: string): unknown[] =>
+      getTypeChoices(getAliasTypeNode(program, buttonPath, name), program);
+
+    test("should resolve string-literal union aliases", () => {
+      assert.deepStrictEqual(choicesOf("AliasedSize"), ["sm", "md", "lg"]);
+    });
+
+    test("should ignore undefined in optional unions", () => {
+      assert.deepStrictEqual(choicesOf("OptionalSize"), ["sm", "md", "lg"]);
+    });
+
+    test("should resolve string enum values", () => {
+      assert.deepStrictEqual(choicesOf("VariantType"), [
+        "primary",
+        "secondary",
+      ]);
+    });
+
+    test("should resolve numeric enum values", () => {
+      assert.deepStrictEqual(choicesOf("LevelType"), [0, 1]);
+    });
+
+    test("should resolve mixed literal unions", () => {
+      assert.deepStrictEqual(new Set(choicesOf("Mixed")), new Set(["auto", 1]));
+    });
+
+    test("should leave plain booleans to the default boolean choices", () => {
+      assert.deepStrictEqual(choicesOf("Flag"), []);
+    });
+
+    test("should return empty array for open types", () => {
+      assert.deepStrictEqual(choicesOf("Text"), []);
+    });
+
+    test("should return empty array for nodes outside the program", () => {
+      const sourceFile = createSourceFile("type A = 'a' | 'b';", buttonPath);
+      const alias = sourceFile?.statements.find(ts.isTypeAliasDeclaration);
+      assert.ok(alias);
+      assert.deepStrictEqual(getTypeChoices(alias.type, program), []);
+    });
+
+    test("should return empty array without a type node or program", () => {
+      assert.deepStrictEqual(getTypeChoices(undefined, program), []);
+      assert.deepStrictEqual(
+        getTypeChoices(
+          getAliasTypeNode(program, buttonPath, "AliasedSize"),
+          undefined
+        ),
+        []
+      );
+    });
+  });
+});
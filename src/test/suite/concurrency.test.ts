@@ -0,0 +1,86 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "node:assert";
+
+import {
+  CancelledError,
+  createLimiter,
+  throwIfCancelled,
+  yieldToEventLoop,
+} from "../../concurrency";
+
+suite("concurrency", () => {
+  suite("createLimiter", () => {
+    test("should run at most the given number of tasks at a time", async () => {
+      const limit = createLimiter(2);
+      let running = 0;
+      let peak = 0;
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5].map((value) =>
+          limit(async () => {
+            running += 1;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            running -= 1;
+            return value * 10;
+          })
+        )
+      );
+      assert.deepStrictEqual(results, [10, 20, 30, 40, 50]);
+      assert.strictEqual(peak, 2);
+    });
+
+    test("should release the slot when a task fails", async () => {
+      const limit = createLimiter(1);
+      await assert.rejects(
+        () => limit(() => Promise.reject(new Error("boom"))),
+        /boom/
+      );
+      assert.strictEqual(await limit(() => Promise.resolve("next")), "next");
+    });
+  });
+
+  suite("throwIfCancelled", () => {
+    test("should do nothing without a requested cancellation", () => {
+      assert.doesNotThrow(() => throwIfCancelled());
+      assert.doesNotThrow(() =>
+        throwIfCancelled({ isCancellationRequested: false })
+      );
+    });
+
+    test("should throw a CancelledError once cancellation is requested", () => {
+      assert.throws(
+        () => throwIfCancelled({ isCancellationRequested: true }),
+        (error: unknown) =>
+          error instanceof CancelledError &&
+          error.name === "CancelledError" &&
+          error.message === "Operation cancelled."
+      );
+    });
+  });
+
+  suite("yieldToEventLoop", () => {
+    test("should let pending callbacks run before resolving", async () => {
+      let ran = false;
+      setImmediate(() => {
+        ran = true;
+      });
+      await yieldToEventLoop();
+      assert.strictEqual(ran, true);
+    });
+  });
+});
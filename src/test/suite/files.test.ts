@@ -16,15 +16,27 @@
 
 import assert from "node:assert";
 import fs from "node:fs";
+import path from "node:path";
 
+import { CancelledError } from "../../concurrency";
+import { FileDiscovery } from "../../constants";
 import {
+  createFileCache,
+  createSourceFileCache,
   defaultFileSystem,
   type FileSystemProvider,
+  getDeclarationFiles,
   getFileContents,
   getSupportedFiles,
+  hasAngularDecorator,
+  hasIvyDeclaration,
   hasSupportedExtension,
   isAngularFile,
+  isDeclarationFile,
+  isScannableFile,
   isSupportedFile,
+  limitFileSystem,
+  readFileSync,
 } from "../../files";
 
 /**
@@ -43,6 +55,25 @@ const runBooleanTests = <T>(
   });
 };
 
+/**
+ * Creates a mock Dirent object for testing.
+ * @param name - The name of the directory entry.
+ * @param isDir - Whether the entry is a directory.
+ * @returns A mock Dirent object.
+ */
+const createMockDirent = (name: string, isDir: boolean): fs.Dirent => ({
+  name,
+  isDirectory: () => isDir,
+  isFile: () => !isDir,
+  isBlockDevice: () => false,
+  isCharacterDevice: () => false,
+  isSymbolicLink: () => false,
+  isFIFO: () => false,
+  isSocket: () => false,
+  path: "",
+  parentPath: "",
+});
+
 suite("files", () => {
   suite("hasSupportedExtension", () => {
     const cases: [string | undefined, boolean, string][] = [
@@ -108,63 +139,250 @@ suite("files", () => {
     });
   });
 
+  suite("isScannableFile", () => {
+    const cases: [string | undefined, boolean, string][] = [
+      ["/src/button.ts", true, "suffix-free TypeScript file"],
+      ["/src/button.component.ts", true, "component file"],
+      ["/src/button.spec.ts", false, "spec file"],
+      ["/src/BUTTON.SPEC.TS", false, "uppercase spec file"],
+      ["/src/globals.d.ts", false, "declaration file"],
+      ["/src/button.html", false, "HTML file"],
+      ["", false, "empty string"],
+      [undefined, false, "undefined"],
+    ];
+
+    runBooleanTests(cases, isScannableFile);
+  });
+
+  suite("hasAngularDecorator", () => {
+    const cases: [string | undefined, boolean, string][] = [
+      ["@Component({ selector: 'app-a' })", true, "component decorator"],
+      ["@Directive ({ selector: '[a]' })", true, "directive decorator"],
+      ["@Pipe({ name: 'a' })", true, "pipe decorator"],
+      ["@ng.Component({ selector: 'app-a' })", true, "namespaced decorator"],
+      ["@NgDirective({ selector: '[a]' })", true, "aliased decorator"],
+      [
+        "import { Component as Cmp } from '@angular/core'; @Cmp({})",
+        true,
+        "decorator imported under an alias",
+      ],
+      [
+        "import { Component as Cmp } from './ui'; @Cmp({})",
+        false,
+        "alias imported from another module",
+      ],
+      ["@Injectable({ providedIn: 'root' })", false, "service decorator"],
+      ["// uses Component", false, "name without decorator"],
+      [undefined, false, "undefined"],
+    ];
+
+    runBooleanTests(cases, (contents) => hasAngularDecorator(contents));
+
+    test("should match configured custom decorators", () => {
+      assert.strictEqual(hasAngularDecorator("@Widget({})", ["Widget"]), true);
+      assert.strictEqual(hasAngularDecorator("@Widget({})", ["Other"]), false);
+    });
+  });
+
+  suite("isDeclarationFile", () => {
+    const cases: [string | undefined, boolean, string][] = [
+      ["/lib/index.d.ts", true, "declaration file"],
+      ["/lib/INDEX.D.TS", true, "uppercase declaration file"],
+      ["/lib/index.ts", false, "source file"],
+      ["", false, "empty string"],
+      [undefined, false, "undefined"],
+    ];
+
+    runBooleanTests(cases, isDeclarationFile);
+  });
+
+  suite("hasIvyDeclaration", () => {
+    const cases: [string | undefined, boolean, string][] = [
+      ["static ɵcmp: i0.ɵɵComponentDeclaration<A, 'a'>;", true, "component"],
+      ["static ɵdir: i0.ɵɵDirectiveDeclaration <A>;", true, "directive"],
+      ["static ɵpipe: i0.ɵɵPipeDeclaration<A, 'a'>;", true, "pipe"],
+      ["static ɵprov: i0.ɵɵInjectableDeclaration<A>;", false, "service"],
+      ["export declare const ɵɵPipeDeclaration: unknown;", false, "no type"],
+      [undefined, false, "undefined"],
+    ];
+
+    runBooleanTests(cases, hasIvyDeclaration);
+  });
+
   suite("getFileContents", () => {
-    test("should return file contents using file system provider", () => {
+    test("should return file contents using file system provider", async () => {
       const mockFs: FileSystemProvider = {
-        readFile: () => "mock content",
-        readDir: () => [],
+        readFile: async () => "mock content",
+        readDir: async () => [],
       };
       assert.strictEqual(
-        getFileContents("/path/to/file", mockFs),
+        await getFileContents("/path/to/file", mockFs),
         "mock content"
       );
     });
 
-    test("should return empty string for empty path", () => {
+    test("should return empty string for empty path", async () => {
       const mockFs: FileSystemProvider = {
-        readFile: () => "should not be called",
-        readDir: () => [],
+        readFile: async () => "should not be called",
+        readDir: async () => [],
       };
-      assert.strictEqual(getFileContents("", mockFs), "");
+      assert.strictEqual(await getFileContents("", mockFs), "");
     });
 
-    test("should return empty string when file read fails", () => {
+    test("should return empty string when file read fails", async () => {
       const mockFs: FileSystemProvider = {
-        readFile: () => "",
-        readDir: () => [],
+        readFile: async () => "",
+        readDir: async () => [],
       };
-      assert.strictEqual(getFileContents("/nonexistent", mockFs), "");
+      assert.strictEqual(await getFileContents("/nonexistent", mockFs), "");
+    });
+  });
+
+  suite("createFileCache", () => {
+    test("should load each file once and cache its contents", async () => {
+      const reads: string[] = [];
+      const mockFs: FileSystemProvider = {
+        readFile: async (filePath: string) => {
+          reads.push(filePath);
+          return filePath === "/a.ts" ? "a" : "";
+        },
+        readDir: async () => [],
+      };
+      const files = createFileCache(mockFs);
+      assert.strictEqual(await files.load("/a.ts"), "a");
+      assert.strictEqual(await files.load("/a.ts"), "a");
+      assert.strictEqual(await files.load("/missing.ts"), "");
+      assert.strictEqual(await files.load("/missing.ts"), "");
+      assert.deepStrictEqual(reads, ["/a.ts", "/missing.ts"]);
+    });
+
+    test("should serve loaded files to synchronous reads", async () => {
+      const syncReads: string[] = [];
+      const files = createFileCache(
+        { readFile: async () => "loaded", readDir: async () => [] },
+        (filePath: string) => {
+          syncReads.push(filePath);
+          return "read";
+        }
+      );
+      await files.load("/a.ts");
+      assert.strictEqual(files.read("/a.ts"), "loaded");
+      assert.strictEqual(files.read("/base.ts"), "read");
+      assert.strictEqual(files.read("/base.ts"), "read");
+      assert.strictEqual(await files.load("/base.ts"), "read");
+      assert.strictEqual(files.read(""), "");
+      assert.deepStrictEqual(syncReads, ["/base.ts"]);
+    });
+  });
+
+  suite("createSourceFileCache", () => {
+    test("should parse each file once while its contents are unchanged", () => {
+      const loadSourceFile = createSourceFileCache();
+      const sourceFile = loadSourceFile("export class A {}", "/a.ts");
+      assert.strictEqual(sourceFile?.fileName, "/a.ts");
+      assert.strictEqual(
+        loadSourceFile("export class A {}", "/a.ts"),
+        sourceFile
+      );
+      assert.notStrictEqual(
+        loadSourceFile("export class A {}", "/b.ts"),
+        sourceFile
+      );
+    });
+
+    test("should parse a file again when its contents change", () => {
+      const loadSourceFile = createSourceFileCache();
+      const sourceFile = loadSourceFile("export class A {}", "/a.ts");
+      const edited = loadSourceFile("export class B {}", "/a.ts");
+      assert.notStrictEqual(edited, sourceFile);
+      assert.strictEqual(edited?.text, "export class B {}");
+      assert.strictEqual(loadSourceFile("", "/a.ts"), undefined);
+    });
+  });
+
+  suite("limitFileSystem", () => {
+    test("should run at most the given number of operations at a time", async () => {
+      let running = 0;
+      let peak = 0;
+      /**
+       * Simulates a slow file system operation.
+       * @param result - The operation result.
+       * @returns The result, once the operation completes.
+       */
+      const slow = async <T>(result: T): Promise<T> => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running -= 1;
+        return result;
+      };
+      const limited = limitFileSystem(
+        { readFile: () => slow("text"), readDir: () => slow([]) },
+        2
+      );
+      const results = await Promise.all([
+        limited.readFile("/a.ts"),
+        limited.readDir("/b"),
+        limited.readFile("/c.ts"),
+        limited.readFile("/d.ts"),
+      ]);
+      assert.deepStrictEqual(results, ["text", [], "text", "text"]);
+      assert.strictEqual(peak, 2);
+    });
+  });
+
+  suite("getDeclarationFiles", () => {
+    test("should reject when directory path not provided", async () => {
+      await assert.rejects(
+        () => getDeclarationFiles(""),
+        /Directory path not provided/
+      );
+    });
+
+    test("should find declaration files carrying Ivy metadata", async () => {
+      const ivy = "static ɵcmp: i0.ɵɵComponentDeclaration<A, 'a'>;";
+      const contents = new Map([
+        ["/lib/index.d.ts", ivy],
+        ["/lib/types.d.ts", "export type A = string;"],
+        ["/lib/fesm2022/lib.mjs", ivy],
+        ["/lib/menu/index.d.ts", ivy],
+        ["/lib/node_modules/dep/index.d.ts", ivy],
+      ]);
+      const mockFs: FileSystemProvider = {
+        readFile: async (filePath: string) => contents.get(filePath) ?? "",
+        readDir: async (dirPath: string): Promise<fs.Dirent[]> => {
+          const names = new Set(
+            [...contents.keys()]
+              .filter((filePath) => filePath.startsWith(`${dirPath}/`))
+              .map((filePath) => filePath.slice(dirPath.length + 1))
+          );
+          return [...names].map((name) =>
+            name.includes("/")
+              ? createMockDirent(name.split("/")[0], true)
+              : createMockDirent(name, false)
+          );
+        },
+      };
+
+      assert.deepStrictEqual(await getDeclarationFiles("/lib", mockFs), [
+        "/lib/index.d.ts",
+        path.join("/lib", "menu", "index.d.ts"),
+      ]);
     });
   });
 
   suite("getSupportedFiles", () => {
-    /**
-     * Creates a mock Dirent object for testing.
-     * @param name - The name of the directory entry.
-     * @param isDir - Whether the entry is a directory.
-     * @returns A mock Dirent object.
-     */
-    const createMockDirent = (name: string, isDir: boolean): fs.Dirent => ({
-      name,
-      isDirectory: () => isDir,
-      isFile: () => !isDir,
-      isBlockDevice: () => false,
-      isCharacterDevice: () => false,
-      isSymbolicLink: () => false,
-      isFIFO: () => false,
-      isSocket: () => false,
-      path: "",
-      parentPath: "",
-    });
-
-    test("should throw error when directory path not provided", () => {
-      assert.throws(() => getSupportedFiles(""), /Directory path not provided/);
-    });
-
-    test("should recursively find component files", () => {
+    test("should reject when directory path not provided", async () => {
+      await assert.rejects(
+        () => getSupportedFiles(""),
+        /Directory path not provided/
+      );
+    });
+
+    test("should recursively find component files", async () => {
       const mockFs: FileSystemProvider = {
-        readFile: () => "",
-        readDir: (dirPath: string): fs.Dirent[] => {
+        readFile: async () => "",
+        readDir: async (dirPath: string): Promise<fs.Dirent[]> => {
           if (dirPath === "/root") {
             return [
               createMockDirent("sub", true),
@@ -179,39 +397,92 @@ suite("files", () => {
         },
       };
 
-      const result = getSupportedFiles("/root", mockFs);
+      const result = await getSupportedFiles("/root", mockFs);
       assert.strictEqual(result.length, 2);
       assert.ok(result.some((f) => f.includes("test.component.ts")));
       assert.ok(result.some((f) => f.includes("nested.component.ts")));
     });
 
-    test("should return empty array for empty directory", () => {
+    test("should find Angular files by content when configured", async () => {
+      const contents = new Map([
+        ["/root/button.ts", "@Component({ selector: 'app-button' })"],
+        ["/root/button.spec.ts", "@Component({ selector: 'app-test' })"],
+        ["/root/user.service.ts", "@Injectable()"],
+        ["/root/legacy.component.ts", "export const x = 1;"],
+        [
+          "/root/card.ts",
+          "import { Component as Cmp } from '@angular/core';\n@Cmp({ selector: 'app-card' })",
+        ],
+      ]);
+      const mockFs: FileSystemProvider = {
+        readFile: async (filePath: string) => contents.get(filePath) ?? "",
+        readDir: async (dirPath: string): Promise<fs.Dirent[]> =>
+          dirPath === "/root"
+            ? [...contents.keys()].map((filePath) =>
+                createMockDirent(filePath.slice("/root/".length), false)
+              )
+            : [],
+      };
+
+      assert.deepStrictEqual(
+        await getSupportedFiles("/root", mockFs, FileDiscovery.CONTENT),
+        ["/root/button.ts", "/root/card.ts"]
+      );
+      assert.deepStrictEqual(
+        await getSupportedFiles("/root", mockFs, FileDiscovery.SUFFIX),
+        ["/root/legacy.component.ts"]
+      );
+    });
+
+    test("should return empty array for empty directory", async () => {
       const mockFs: FileSystemProvider = {
-        readFile: () => "",
-        readDir: () => [],
+        readFile: async () => "",
+        readDir: async () => [],
       };
-      const result = getSupportedFiles("/empty", mockFs);
+      const result = await getSupportedFiles("/empty", mockFs);
       assert.deepStrictEqual(result, []);
     });
 
-    test("should use default filesystem when no provider given", () => {
+    test("should stop scanning once cancellation is requested", async () => {
+      const mockFs: FileSystemProvider = {
+        readFile: async () => "",
+        readDir: async () => [createMockDirent("a.component.ts", false)],
+      };
+      await assert.rejects(
+        () =>
+          getSupportedFiles("/root", mockFs, FileDiscovery.SUFFIX, [], {
+            isCancellationRequested: true,
+          }),
+        CancelledError
+      );
+    });
+
+    test("should use default filesystem when no provider given", async () => {
       // Test that defaultFileSystem is used - trigger readFile
-      const content = defaultFileSystem.readFile(__filename);
+      const content = await defaultFileSystem.readFile(__filename);
       assert.ok(typeof content === "string");
     });
 
-    test("should use default filesystem readDir", () => {
+    test("should use default filesystem readDir", async () => {
       // Test that defaultFileSystem readDir works
-      const entries = defaultFileSystem.readDir(__dirname);
+      const entries = await defaultFileSystem.readDir(__dirname);
       assert.ok(Array.isArray(entries));
     });
 
-    test("should return empty string when file does not exist", () => {
+    test("should return empty string when file does not exist", async () => {
       // Test the catch block in defaultFileSystem.readFile
-      const content = defaultFileSystem.readFile(
+      const content = await defaultFileSystem.readFile(
         "/nonexistent/path/that/does/not/exist.ts"
       );
       assert.strictEqual(content, "");
     });
+
+    test("should read files synchronously for the parser", () => {
+      assert.ok(readFileSync(__filename).length > 0);
+      assert.strictEqual(
+        readFileSync("/nonexistent/path/that/does/not/exist.ts"),
+        ""
+      );
+    });
   });
 });
@@ -0,0 +1,220 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert";
+
+import ts from "typescript";
+
+import {
+  findBindingMember,
+  getBindingTypeNode,
+  getDeclarationArguments,
+  getDeclaredContentSlots,
+  getDeclaredExportAs,
+  getDeclaredHostDirectives,
+  getDeclaredInputs,
+  getDeclaredName,
+  getDeclaredOutputs,
+} from "../../ivy";
+import { createSourceFile } from "../../nodes";
+import { IvyDeclarationType } from "../../types";
+
+/**
+ * Parses declaration text and returns its first class.
+ * @param source - The declaration file text.
+ * @returns The first class declaration.
+ */
+const parseClass = (source: string): ts.ClassDeclaration => {
+  const classNode = createSourceFile(source, "index.d.ts")?.statements.find(
+    ts.isClassDeclaration
+  );
+  assert.ok(classNode);
+  return classNode;
+};
+
+/**
+ * Gets the type arguments of a class's Ivy declaration, failing when it has none.
+ * @param source - The declaration file text.
+ * @param type - The Ivy declaration type.
+ * @returns The declaration's type arguments.
+ */
+const getArguments = (
+  source: string,
+  type = IvyDeclarationType.DIRECTIVE
+): readonly ts.TypeNode[] => {
+  const typeArguments = getDeclarationArguments(parseClass(source), type);
+  assert.ok(typeArguments);
+  return typeArguments;
+};
+
+suite("ivy", () => {
+  suite("getDeclarationArguments", () => {
+    test("should find a qualified declaration type", () => {
+      const source = `declare class A {
+        static ɵdir: i0.ɵɵDirectiveDeclaration<A, "[a]", never, {}, {}, never>;
+      }`;
+      assert.strictEqual(getArguments(source).length, 6);
+    });
+
+    test("should find an unqualified declaration type", () => {
+      const source = `declare class A {
+        static ɵpipe: ɵɵPipeDeclaration<A, "a", true>;
+      }`;
+      assert.strictEqual(
+        getDeclaredName(getArguments(source, IvyDeclarationType.PIPE)),
+        "a"
+      );
+    });
+
+    const missingCases: [string, string][] = [
+      [
+        "declare class A { static ɵpipe: i0.ɵɵPipeDeclaration<A, 'a'>; }",
+        "another declaration type",
+      ],
+      [
+        "declare class A { ɵdir: i0.ɵɵDirectiveDeclaration<A, '[a]'>; }",
+        "an instance member",
+      ],
+      ["declare class A { static ɵdir: unknown; }", "a non-reference type"],
+      ["declare class A {}", "no members"],
+    ];
+
+    missingCases.forEach(([source, description]) => {
+      test(`should return undefined for ${description}`, () => {
+        assert.strictEqual(
+          getDeclarationArguments(
+            parseClass(source),
+            IvyDeclarationType.DIRECTIVE
+          ),
+          undefined
+        );
+      });
+    });
+  });
+
+  suite("declared metadata", () => {
+    const source = `declare class A {
+      static ɵcmp: i0.ɵɵComponentDeclaration<A, "app-a", ["a", "alsoA"], {
+        "value": "value";
+        "size": { "alias": "aSize"; "required": true; "isSignal": true; };
+        "label": { "alias": "label"; "required": false; };
+        plain: {};
+        [key: string]: string;
+        [Symbol.iterator]: "iterator";
+      }, { "changed": "aChanged"; }, never, ["*", "[header]"], true, never>;
+    }`;
+    const typeArguments = getArguments(source, IvyDeclarationType.COMPONENT);
+
+    test("should read the selector", () => {
+      assert.strictEqual(getDeclaredName(typeArguments), "app-a");
+    });
+
+    test("should read the exportAs names", () => {
+      assert.deepStrictEqual(getDeclaredExportAs(typeArguments), [
+        "a",
+        "alsoA",
+      ]);
+    });
+
+    test("should read string and options object input entries", () => {
+      assert.deepStrictEqual(getDeclaredInputs(typeArguments), [
+        { property: "value", name: "value" },
+        { property: "size", name: "aSize", required: true },
+        { property: "label", name: "label" },
+        { property: "plain", name: "plain" },
+      ]);
+    });
+
+    test("should read aliased outputs", () => {
+      assert.deepStrictEqual(getDeclaredOutputs(typeArguments), [
+        { property: "changed", name: "aChanged" },
+      ]);
+    });
+
+    test("should report the wildcard content selector as the default slot", () => {
+      assert.deepStrictEqual(getDeclaredContentSlots(typeArguments), [
+        "",
+        "[header]",
+      ]);
+    });
+
+    test("should return empty values for never and missing arguments", () => {
+      const empty = getArguments(
+        `declare class B { static ɵdir: i0.ɵɵDirectiveDeclaration<B, never, never>; }`
+      );
+      assert.strictEqual(getDeclaredName(empty), "");
+      assert.deepStrictEqual(getDeclaredExportAs(empty), []);
+      assert.deepStrictEqual(getDeclaredInputs(empty), []);
+      assert.deepStrictEqual(getDeclaredOutputs(empty), []);
+      assert.deepStrictEqual(getDeclaredContentSlots(empty), []);
+      assert.deepStrictEqual(getDeclaredHostDirectives(empty), []);
+    });
+  });
+
+  suite("getDeclaredHostDirectives", () => {
+    test("should read host directives and the bindings they expose", () => {
+      const typeArguments = getArguments(`declare class A {
+        static ɵdir: i0.ɵɵDirectiveDeclaration<A, "[a]", never, {}, {}, never, never, true, [
+          { directive: typeof i1.Tooltip; inputs: { "message": "tip"; }; outputs: { "shown": "tipShown"; }; },
+          { directive: Ripple; inputs: {}; outputs: {}; }
+        ]>;
+      }`);
+      const [tooltip, ripple] = getDeclaredHostDirectives(typeArguments);
+      assert.strictEqual(tooltip.directive?.getText(), "i1.Tooltip");
+      assert.deepStrictEqual(tooltip.inputs, [
+        { property: "message", name: "tip" },
+      ]);
+      assert.deepStrictEqual(tooltip.outputs, [
+        { property: "shown", name: "tipShown" },
+      ]);
+      assert.deepStrictEqual(ripple, { inputs: [], outputs: [] });
+    });
+  });
+
+  suite("getBindingTypeNode", () => {
+    const classNode = parseClass(`declare class A {
+      plain: string;
+      signal: i0.InputSignal<number>;
+      transformed: InputSignalWithTransform<boolean, unknown>;
+      emitter: EventEmitter<MouseEvent>;
+      other: Observable<string>;
+      get accessor(): Date;
+      set accessor(value: Date | string);
+      untyped;
+      wrapped: i0.ModelSignal;
+    }`);
+    const cases: [string, string | undefined][] = [
+      ["plain", "string"],
+      ["signal", "number"],
+      ["transformed", "boolean"],
+      ["emitter", "MouseEvent"],
+      ["other", "Observable<string>"],
+      ["accessor", "Date"],
+      ["untyped", undefined],
+      ["wrapped", undefined],
+      ["missing", undefined],
+    ];
+
+    cases.forEach(([property, expected]) => {
+      test(`should return ${expected} for ${property}`, () => {
+        assert.strictEqual(
+          getBindingTypeNode(findBindingMember(classNode, property))?.getText(),
+          expected
+        );
+      });
+    });
+  });
+});
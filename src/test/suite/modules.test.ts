@@ -0,0 +1,221 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import assert from "node:assert";
+import path from "node:path";
+
+import {
+  findTsConfigPath,
+  getCandidatePaths,
+  isRelativeSpecifier,
+  matchPathPattern,
+  readPathMappings,
+  resolveModulePath,
+} from "../../modules";
+import { FileReader } from "../../types";
+
+/**
+ * Creates a file reader backed by an in-memory file map.
+ * @param files - Map of absolute file paths to contents.
+ * @returns The file reader.
+ */
+const createReader =
+  (files: Record<string, string>): FileReader =>
+  (filePath: string): string =>
+    files[path.resolve(filePath)] ?? "";
+
+/**
+ * Resolves a path below the virtual workspace root.
+ * @param segments - The path segments.
+ * @returns The absolute path.
+ */
+const ws = (...segments: string[]): string =>
+  path.resolve("/workspace", ...segments);
+
+suite("modules", () => {
+  suite("isRelativeSpecifier", () => {
+    const cases: [string | undefined, boolean, string][] = [
+      ["./base", true, "same-directory import"],
+      ["../shared/base", true, "parent-directory import"],
+      ["@app/shared", false, "path alias"],
+      ["@angular/core", false, "package import"],
+      ["", false, "empty string"],
+      [undefined, false, "undefined"],
+    ];
+
+    cases.forEach(([input, expected, description]) => {
+      test(`should return ${expected} for ${description}`, () => {
+        assert.strictEqual(isRelativeSpecifier(input), expected);
+      });
+    });
+  });
+
+  suite("getCandidatePaths", () => {
+    test("should try the .ts file, the directory index and then declaration files", () => {
+      assert.deepStrictEqual(getCandidatePaths(ws("base")), [
+        ws("base.ts"),
+        ws("base", "index.ts"),
+        ws("base.d.ts"),
+        ws("base", "index.d.ts"),
+      ]);
+    });
+
+    test("should map ESM-style .js specifiers to .ts files", () => {
+      assert.deepStrictEqual(getCandidatePaths(ws("base.js")), [
+        ws("base.ts"),
+        ws("base", "index.ts"),
+        ws("base.d.ts"),
+        ws("base", "index.d.ts"),
+      ]);
+    });
+
+    test("should keep explicit .ts paths first", () => {
+      assert.strictEqual(getCandidatePaths(ws("base.ts"))[0], ws("base.ts"));
+    });
+  });
+
+  suite("matchPathPattern", () => {
+    const cases: [string, string, string | undefined, string][] = [
+      ["@app/*", "@app/shared/base", "shared/base", "wildcard pattern"],
+      ["@shared", "@shared", "", "exact pattern"],
+      ["@shared", "@shared/base", undefined, "non-matching exact pattern"],
+      ["@app/*", "@lib/base", undefined, "non-matching prefix"],
+      ["@app/*.ts", "@app/base.ts", "base", "pattern with suffix"],
+      ["@app/*/index", "@app/index", undefined, "too short specifier"],
+    ];
+
+    cases.forEach(([pattern, specifier, expected, description]) => {
+      test(`should return ${expected} for ${description}`, () => {
+        assert.strictEqual(matchPathPattern(pattern, specifier), expected);
+      });
+    });
+  });
+
+  suite("findTsConfigPath", () => {
+    test("should find the nearest tsconfig.json in an ancestor directory", () => {
+      const readFile = createReader({ [ws("tsconfig.json")]: "{}" });
+      assert.strictEqual(
+        findTsConfigPath(ws("src", "app"), readFile),
+        ws("tsconfig.json")
+      );
+    });
+
+    test("should return undefined when no tsconfig.json exists", () => {
+      assert.strictEqual(
+        findTsConfigPath(ws("src"), createReader({})),
+        undefined
+      );
+    });
+  });
+
+  suite("readPathMappings", () => {
+    test("should read baseUrl and paths relative to the config file", () => {
+      const readFile = createReader({
+        [ws("tsconfig.json")]: `{
+          // comments are allowed in tsconfig files
+          "compilerOptions": {
+            "baseUrl": "./src",
+            "paths": { "@app/*": ["app/*"] }
+          }
+        }`,
+      });
+      assert.deepStrictEqual(readPathMappings(ws("tsconfig.json"), readFile), {
+        baseUrl: ws("src"),
+        pathsBase: ws("src"),
+        paths: { "@app/*": ["app/*"] },
+      });
+    });
+
+    test("should inherit mappings from a relative extends", () => {
+      const readFile = createReader({
+        [ws("tsconfig.base.json")]: `{
+          "compilerOptions": { "paths": { "@lib": ["libs/lib/index.ts"] } }
+        }`,
+        [ws("apps", "tsconfig.json")]: `{ "extends": "../tsconfig.base.json" }`,
+      });
+      assert.deepStrictEqual(
+        readPathMappings(ws("apps", "tsconfig.json"), readFile),
+        {
+          baseUrl: undefined,
+          pathsBase: ws(),
+          paths: { "@lib": ["libs/lib/index.ts"] },
+        }
+      );
+    });
+
+    test("should return empty mappings for an invalid config", () => {
+      const readFile = createReader({ [ws("tsconfig.json")]: "{ invalid" });
+      assert.deepStrictEqual(readPathMappings(ws("tsconfig.json"), readFile), {
+        baseUrl: undefined,
+        pathsBase: ws(),
+        paths: {},
+      });
+    });
+  });
+
+  suite("resolveModulePath", () => {
+    const readFile = createReader({
+      [ws("tsconfig.json")]: `{
+        "compilerOptions": {
+          "baseUrl": ".",
+          "paths": { "@shared/*": ["libs/shared/*", "libs/legacy/*"] }
+        }
+      }`,
+      [ws("src", "app", "base.ts")]: "export class Base {}",
+      [ws("src", "app", "forms", "index.ts")]: "export * from './field';",
+      [ws("libs", "legacy", "field.ts")]: "export class Field {}",
+      [ws("src", "core", "util.ts")]: "export const util = 1;",
+      [ws("src", "app", "base-chunk.d.ts")]: "export declare class Chunk {}",
+    });
+    const fromFile = ws("src", "app", "button.component.ts");
+
+    const cases: [string, string | undefined, string][] = [
+      ["./base", ws("src", "app", "base.ts"), "relative file"],
+      ["./base.js", ws("src", "app", "base.ts"), "ESM-style relative file"],
+      ["./forms", ws("src", "app", "forms", "index.ts"), "directory index"],
+      [
+        "@shared/field",
+        ws("libs", "legacy", "field.ts"),
+        "path mapping fallback target",
+      ],
+      ["src/core/util", ws("src", "core", "util.ts"), "baseUrl import"],
+      [
+        "./base-chunk.js",
+        ws("src", "app", "base-chunk.d.ts"),
+        "relative declaration file",
+      ],
+      ["./missing", undefined, "missing relative file"],
+      ["@angular/core", undefined, "package import"],
+    ];
+
+    cases.forEach(([specifier, expected, description]) => {
+      test(`should resolve ${description}`, () => {
+        assert.strictEqual(
+          resolveModulePath(specifier, fromFile, readFile),
+          expected
+        );
+      });
+    });
+
+    test("should not resolve non-relative imports without a tsconfig.json", () => {
+      assert.strictEqual(
+        resolveModulePath("@shared/field", fromFile, createReader({})),
+        undefined
+      );
+    });
+  });
+});
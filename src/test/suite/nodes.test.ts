@@ -18,20 +18,50 @@ import assert from "node:assert";
 
 import ts from "typescript";
 
+import { DecoratorRole } from "../../constants";
 import {
   findAssignedProperty,
   getAliasName,
+  getAngularCoreName,
+  getArrayElements,
+  getAttributeDecoratorName,
+  getBooleanPropertyValue,
   getClassName,
+  getContextGuardType,
+  getDecoratorOptions,
+  getDocComment,
+  getDocTagText,
+  getHostAttributeName,
+  getIdentifierPropertyValue,
+  getInitializerCall,
+  getLiteralText,
+  getLiteralTypeName,
+  getLiteralUnionValues,
+  getPropertyInitializer,
   getReferenceTypeName,
+  getSignalAlias,
+  getSignalFunction,
+  getSignalInitialValue,
+  getSignalTypeName,
+  getStringPropertyValue,
+  getTemplateRefContextType,
+  getTransformName,
+  getTriggerName,
+  getTypeMemberNames,
   getTypeName,
+  hasDocTag,
+  injectsTemplateRef,
   isComponent,
   isDecorator,
   isDirective,
   isIdentifier,
+  isOptionalInjection,
   isPipe,
-  isPropertyOrGetAccessor,
+  isPropertyOrAccessor,
+  isRequiredSignal,
+  isTemplateContextGuard,
 } from "../../nodes";
-import { DecoratorType } from "../../types";
+import { DecoratorType, DocTag, SignalFunction } from "../../types";
 
 /**
  * Helper to create a source file from code string.
@@ -84,7 +114,7 @@ const runNodeTests = <T>(
 };
 
 suite("nodes", () => {
-  suite("isPropertyOrGetAccessor", () => {
+  suite("isPropertyOrAccessor", () => {
     const cases: [string, (n: ts.Node) => n is ts.Node, boolean, string][] = [
       [
         "class A { prop: string; }",
@@ -98,6 +128,12 @@ suite("nodes", () => {
         true,
         "get accessor",
       ],
+      [
+        "class A { set prop(value: string) {} }",
+        ts.isSetAccessor as (n: ts.Node) => n is ts.Node,
+        true,
+        "set accessor",
+      ],
       [
         "class A { method() {} }",
         ts.isMethodDeclaration as (n: ts.Node) => n is ts.Node,
@@ -110,7 +146,7 @@ suite("nodes", () => {
         const source = createSource(code);
         const node = findNode(source, pred);
         assert.ok(node);
-        assert.strictEqual(isPropertyOrGetAccessor(node), expected);
+        assert.strictEqual(isPropertyOrAccessor(node), expected);
       });
     });
   });
@@ -204,10 +240,151 @@ suite("nodes", () => {
     });
   });
 
+  suite("getAngularCoreName", () => {
+    const cases: [string, string | undefined, string][] = [
+      ["@Component({}) class A {}", "Component", "unimported name"],
+      [
+        "import { Component } from '@angular/core'; @Component({}) class A {}",
+        "Component",
+        "named import",
+      ],
+      [
+        "import { Component as NgComponent } from '@angular/core'; @NgComponent({}) class A {}",
+        "Component",
+        "aliased import",
+      ],
+      [
+        "import * as ng from '@angular/core'; @ng.Component({}) class A {}",
+        "Component",
+        "namespace import",
+      ],
+      [
+        "import { Component } from './local'; @Component({}) class A {}",
+        undefined,
+        "import from another module",
+      ],
+      [
+        "import * as ui from './ui'; @ui.Component({}) class A {}",
+        undefined,
+        "namespace import from another module",
+      ],
+      [
+        "function Component() {} @Component() class A {}",
+        undefined,
+        "local function",
+      ],
+      [
+        "const Component = () => {}; @Component() class A {}",
+        undefined,
+        "local variable",
+      ],
+      [
+        "import { core } from '@angular/core'; @core.Component({}) class A {}",
+        undefined,
+        "property of a named import",
+      ],
+      ["@factory()() class A {}", undefined, "call expression"],
+    ];
+    cases.forEach(([code, expected, desc]) => {
+      test(`should return ${expected} for ${desc}`, () => {
+        const source = createSource(code);
+        const decNode = findNode(source, ts.isDecorator);
+        assert.ok(decNode && ts.isCallExpression(decNode.expression));
+        assert.strictEqual(
+          getAngularCoreName(decNode.expression.expression),
+          expected
+        );
+      });
+    });
+
+    test("should resolve names of detached nodes to themselves", () => {
+      assert.strictEqual(
+        getAngularCoreName(ts.factory.createIdentifier("Component")),
+        "Component"
+      );
+    });
+  });
+
+  suite("isDecorator with custom decorators", () => {
+    const customDecorators = {
+      DsComponent: DecoratorRole.COMPONENT,
+      DsInput: DecoratorRole.INPUT,
+    };
+    const cases: [string, DecoratorType, boolean, string][] = [
+      [
+        "@DsComponent({}) class A {}",
+        DecoratorType.COMPONENT,
+        true,
+        "mapped decorator",
+      ],
+      [
+        "import { DsComponent as C } from '@acme/ds'; @C({}) class A {}",
+        DecoratorType.COMPONENT,
+        true,
+        "aliased mapped decorator",
+      ],
+      [
+        "import * as ds from '@acme/ds'; @ds.DsComponent({}) class A {}",
+        DecoratorType.COMPONENT,
+        true,
+        "namespaced mapped decorator",
+      ],
+      [
+        "@DsInput() class A {}",
+        DecoratorType.COMPONENT,
+        false,
+        "decorator mapped to another role",
+      ],
+      [
+        "@toString() class A {}",
+        DecoratorType.COMPONENT,
+        false,
+        "inherited object property name",
+      ],
+      [
+        "@Component({}) class A {}",
+        DecoratorType.COMPONENT,
+        true,
+        "built-in decorator",
+      ],
+    ];
+    cases.forEach(([code, type, expected, desc]) => {
+      test(`should return ${expected} for ${desc}`, () => {
+        const source = createSource(code);
+        const decNode = findNode(source, ts.isDecorator);
+        assert.ok(decNode);
+        assert.strictEqual(
+          isDecorator(decNode, type, customDecorators),
+          expected
+        );
+      });
+    });
+
+    test("should return false for decorators without a call", () => {
+      const source = createSource("@DsComponent class A {}");
+      const decNode = findNode(source, ts.isDecorator);
+      assert.ok(decNode);
+      assert.strictEqual(
+        isDecorator(decNode, DecoratorType.COMPONENT, customDecorators),
+        false
+      );
+    });
+  });
+
   suite("isComponent", () => {
     const cases: [string, boolean, string][] = [
       ["@Component({}) class A {}", true, "Component decorator"],
       ["@Injectable() class A {}", false, "non-Component decorator"],
+      [
+        "import { Component as C } from '@angular/core'; @C({}) class A {}",
+        true,
+        "aliased Component decorator",
+      ],
+      [
+        "import { Directive as Component } from '@angular/core'; @Component({}) class A {}",
+        false,
+        "Directive imported as Component",
+      ],
     ];
     cases.forEach(([code, expected, desc]) => {
       test(`should return ${expected} for ${desc}`, () => {
@@ -275,6 +452,16 @@ suite("nodes", () => {
         "call with string argument",
       ],
       ["@Input() prop: string;", "", "call without arguments"],
+      [
+        "@Input({ alias: 'myAlias' }) prop: string;",
+        "myAlias",
+        "call with options object",
+      ],
+      [
+        "@Input({ required: true }) prop: string;",
+        "",
+        "options object without alias",
+      ],
       ["func(123);", "", "call with non-string argument"],
     ];
     cases.forEach(([code, expected, desc]) => {
@@ -294,6 +481,100 @@ suite("nodes", () => {
     });
   });
 
+  suite("getDecoratorOptions", () => {
+    const cases: [string, boolean, string][] = [
+      ["@Input({ required: true }) prop: string;", true, "options object"],
+      ["@Input('alias') prop: string;", false, "string argument"],
+      ["@Input() prop: string;", false, "no arguments"],
+    ];
+    cases.forEach(([code, expected, desc]) => {
+      test(`should ${expected ? "" : "not "}return options for ${desc}`, () => {
+        const source = createSource(code);
+        const callNode = findNode(source, ts.isCallExpression);
+        assert.ok(callNode);
+        assert.strictEqual(!!getDecoratorOptions(callNode), expected);
+      });
+    });
+
+    test("should return undefined for non-call expression", () => {
+      const source = createSource("const x = 1;");
+      const varNode = findNode(source, ts.isVariableDeclaration);
+      assert.ok(varNode);
+      assert.strictEqual(getDecoratorOptions(varNode), undefined);
+    });
+  });
+
+  suite("getDocComment", () => {
+    const cases: [string, string, string, (n: ts.Node) => n is ts.Node][] = [
+      [
+        "/** A card.\n * Shows content. */\n@Component({}) class A {}",
+        "A card. Shows content.",
+        "decorated class",
+        ts.isClassDeclaration as (n: ts.Node) => n is ts.Node,
+      ],
+      [
+        "class A {\n  /** The label.\n   * @deprecated Use title. */\n  label: string;\n}",
+        "The label.",
+        "property with block tags",
+        ts.isPropertyDeclaration as (n: ts.Node) => n is ts.Node,
+      ],
+      [
+        "class A { /** Old. */\n/** New. */ label: string; }",
+        "New.",
+        "property with several comments",
+        ts.isPropertyDeclaration as (n: ts.Node) => n is ts.Node,
+      ],
+      [
+        "class A { // Not JSDoc.\n label: string; }",
+        "",
+        "line comment",
+        ts.isPropertyDeclaration as (n: ts.Node) => n is ts.Node,
+      ],
+    ];
+    runNodeTests(cases, getDocComment);
+
+    test("should return empty string for undefined node", () => {
+      assert.strictEqual(getDocComment(undefined), "");
+    });
+  });
+
+  suite("JSDoc tags", () => {
+    const source = createSource(`
+      class A {
+        /**
+         * The label.
+         * @deprecated Use
+         *   \`title\` instead.
+         * @snippet-ignore
+         */
+        label: string;
+        /** @deprecated */
+        size: string;
+        /** The title. */
+        title: string;
+      }
+    `);
+    const [label, size, title] =
+      findNode(source, ts.isClassDeclaration)?.members ?? [];
+
+    test("should detect block tags", () => {
+      assert.strictEqual(hasDocTag(label, DocTag.DEPRECATED), true);
+      assert.strictEqual(hasDocTag(label, DocTag.SNIPPET_IGNORE), true);
+      assert.strictEqual(hasDocTag(label, DocTag.INTERNAL), false);
+      assert.strictEqual(hasDocTag(title, DocTag.DEPRECATED), false);
+      assert.strictEqual(hasDocTag(undefined, DocTag.DEPRECATED), false);
+    });
+
+    test("should read the collapsed tag text", () => {
+      assert.strictEqual(
+        getDocTagText(label, DocTag.DEPRECATED),
+        "Use `title` instead."
+      );
+      assert.strictEqual(getDocTagText(size, DocTag.DEPRECATED), "");
+      assert.strictEqual(getDocTagText(title, DocTag.DEPRECATED), "");
+    });
+  });
+
   suite("getClassName", () => {
     const cases: [string, string, string, (n: ts.Node) => n is ts.Node][] = [
       [
@@ -381,6 +662,24 @@ suite("nodes", () => {
         "get accessor",
         ts.isGetAccessor as (n: ts.Node) => n is ts.Node,
       ],
+      [
+        "class A { set prop(value: string) {} }",
+        "string",
+        "set accessor parameter",
+        ts.isSetAccessor as (n: ts.Node) => n is ts.Node,
+      ],
+      [
+        "class A { set prop(value) {} get prop(): number { return 1; } }",
+        "number",
+        "untyped setter paired with a typed getter",
+        ts.isSetAccessor as (n: ts.Node) => n is ts.Node,
+      ],
+      [
+        "class A { set prop(value) {} }",
+        "any",
+        "untyped unpaired setter",
+        ts.isSetAccessor as (n: ts.Node) => n is ts.Node,
+      ],
       [
         "class A { method() {} }",
         "",
@@ -390,4 +689,648 @@ suite("nodes", () => {
     ];
     runNodeTests(cases, getTypeName);
   });
+
+  suite("getStringPropertyValue", () => {
+    const cases: [string, string, string, string][] = [
+      ["const x = { alias: 'a' };", "alias", "a", "string property"],
+      ["const x = { alias: 1 };", "alias", "", "non-string property"],
+      ["const x = { other: 'a' };", "alias", "", "missing property"],
+    ];
+    cases.forEach(([code, name, expected, desc]) => {
+      test(`should return "${expected}" for ${desc}`, () => {
+        const source = createSource(code);
+        const objNode = findNode(source, ts.isObjectLiteralExpression);
+        assert.ok(objNode);
+        assert.strictEqual(getStringPropertyValue(objNode, name), expected);
+      });
+    });
+
+    test("should return empty string for undefined node", () => {
+      assert.strictEqual(getStringPropertyValue(undefined, "alias"), "");
+    });
+  });
+
+  suite("getBooleanPropertyValue", () => {
+    const cases: [string, boolean, string][] = [
+      ["const x = { required: true };", true, "true literal"],
+      ["const x = { required: false };", false, "false literal"],
+      ["const x = { required: flag };", false, "non-literal value"],
+      ["const x = {};", false, "missing property"],
+    ];
+    cases.forEach(([code, expected, desc]) => {
+      test(`should return ${expected} for ${desc}`, () => {
+        const source = createSource(code);
+        const objNode = findNode(source, ts.isObjectLiteralExpression);
+        assert.ok(objNode);
+        assert.strictEqual(
+          getBooleanPropertyValue(objNode, "required"),
+          expected
+        );
+      });
+    });
+
+    test("should return false for undefined node", () => {
+      assert.strictEqual(getBooleanPropertyValue(undefined, "required"), false);
+    });
+  });
+
+  suite("getTransformName", () => {
+    const cases: [string, string, string][] = [
+      [
+        "const x = { transform: booleanAttribute };",
+        "booleanAttribute",
+        "named function",
+      ],
+      ["const x = { transform: (v) => v };", "", "inline function"],
+      ["const x = {};", "", "missing transform"],
+    ];
+    cases.forEach(([code, expected, desc]) => {
+      test(`should return "${expected}" for ${desc}`, () => {
+        const source = createSource(code);
+        const objNode = findNode(source, ts.isObjectLiteralExpression);
+        assert.ok(objNode);
+        assert.strictEqual(getTransformName(objNode), expected);
+      });
+    });
+
+    test("should return empty string for undefined node", () => {
+      assert.strictEqual(getTransformName(undefined), "");
+    });
+  });
+
+  suite("getPropertyInitializer", () => {
+    test("should return the initializer of an assigned property", () => {
+      const source = createSource("const x = { inputs: ['a'] };");
+      const objNode = findNode(source, ts.isObjectLiteralExpression);
+      assert.ok(objNode);
+      assert.strictEqual(
+        getPropertyInitializer(objNode, "inputs")?.getText(source),
+        "['a']"
+      );
+    });
+
+    test("should return undefined for missing property or node", () => {
+      const source = createSource("const x = {};");
+      const objNode = findNode(source, ts.isObjectLiteralExpression);
+      assert.ok(objNode);
+      assert.strictEqual(getPropertyInitializer(objNode, "inputs"), undefined);
+      assert.strictEqual(
+        getPropertyInitializer(undefined, "inputs"),
+        undefined
+      );
+    });
+  });
+
+  suite("getIdentifierPropertyValue", () => {
+    const cases: [string, string, string][] = [
+      ["const x = { directive: Tooltip };", "Tooltip", "identifier"],
+      ["const x = { directive: 'Tooltip' };", "", "string literal"],
+      ["const x = {};", "", "missing property"],
+    ];
+    cases.forEach(([code, expected, desc]) => {
+      test(`should return "${expected}" for ${desc}`, () => {
+        const source = createSource(code);
+        const objNode = findNode(source, ts.isObjectLiteralExpression);
+        assert.ok(objNode);
+        assert.strictEqual(
+          getIdentifierPropertyValue(objNode, "directive"),
+          expected
+        );
+      });
+    });
+  });
+
+  suite("getArrayElements", () => {
+    test("should return array literal elements", () => {
+      const source = createSource("const x = ['a', 'b'];");
+      const arrayNode = findNode(source, ts.isArrayLiteralExpression);
+      assert.strictEqual(getArrayElements(arrayNode).length, 2);
+    });
+
+    test("should return empty array for non-array nodes", () => {
+      const source = createSource("const x = inputs;");
+      const varNode = findNode(source, ts.isVariableDeclaration);
+      assert.deepStrictEqual(getArrayElements(varNode?.initializer), []);
+      assert.deepStrictEqual(getArrayElements(undefined), []);
+    });
+  });
+
+  suite("getInitializerCall", () => {
+    test("should return the initializer call of a property", () => {
+      const source = createSource("class A { prop = input<string>(); }");
+      const propNode = findNode(source, ts.isPropertyDeclaration);
+      assert.ok(propNode);
+      assert.strictEqual(
+        getInitializerCall(propNode)?.getText(source),
+        "input<string>()"
+      );
+    });
+
+    const cases: [string, string][] = [
+      ["class A { prop = 'value'; }", "non-call initializer"],
+      ["class A { prop: string; }", "missing initializer"],
+    ];
+    cases.forEach(([code, desc]) => {
+      test(`should return undefined for ${desc}`, () => {
+        const source = createSource(code);
+        const propNode = findNode(source, ts.isPropertyDeclaration);
+        assert.ok(propNode);
+        assert.strictEqual(getInitializerCall(propNode), undefined);
+      });
+    });
+  });
+
+  suite("getSignalFunction", () => {
+    const cases: [string, SignalFunction | undefined, boolean][] = [
+      ["input()", SignalFunction.INPUT, false],
+      ["input.required<string>()", SignalFunction.INPUT, true],
+      ["model(0)", SignalFunction.MODEL, false],
+      ["model.required()", SignalFunction.MODEL, true],
+      ["output()", SignalFunction.OUTPUT, false],
+      [
+        "outputFromObservable(obs$)",
+        SignalFunction.OUTPUT_FROM_OBSERVABLE,
+        false,
+      ],
+      ["signal(0)", undefined, false],
+      ["other.required()", undefined, true],
+    ];
+    cases.forEach(([code, expected, required]) => {
+      test(`should return ${expected} for ${code}`, () => {
+        const source = createSource(code);
+        const callNode = findNode(source, ts.isCallExpression);
+        assert.ok(callNode);
+        assert.strictEqual(getSignalFunction(callNode), expected);
+        assert.strictEqual(isRequiredSignal(callNode), required);
+      });
+    });
+
+    const importCases: [string, SignalFunction | undefined, string][] = [
+      [
+        "import { input as ngInput } from '@angular/core'; const x = ngInput();",
+        SignalFunction.INPUT,
+        "aliased import",
+      ],
+      [
+        "import * as ng from '@angular/core'; const x = ng.model.required();",
+        SignalFunction.MODEL,
+        "namespace import",
+      ],
+      [
+        "import { outputFromObservable } from '@angular/core/rxjs-interop'; const x = outputFromObservable(obs$);",
+        SignalFunction.OUTPUT_FROM_OBSERVABLE,
+        "RxJS interop import",
+      ],
+      [
+        "import { input } from './form'; const x = input();",
+        undefined,
+        "import from another module",
+      ],
+      [
+        "const input = () => 0; const x = input();",
+        undefined,
+        "local function",
+      ],
+    ];
+    importCases.forEach(([code, expected, desc]) => {
+      test(`should resolve ${expected} for ${desc}`, () => {
+        const source = createSource(code);
+        const callNode = findNode(source, ts.isCallExpression);
+        assert.ok(callNode);
+        assert.strictEqual(getSignalFunction(callNode), expected);
+      });
+    });
+  });
+
+  suite("getSignalAlias", () => {
+    const cases: [string, SignalFunction, string][] = [
+      ["input('', { alias: 'a' })", SignalFunction.INPUT, "a"],
+      ["input.required({ alias: 'a' })", SignalFunction.INPUT, "a"],
+      ["model(0, { alias: 'a' })", SignalFunction.MODEL, "a"],
+      ["output({ alias: 'a' })", SignalFunction.OUTPUT, "a"],
+      [
+        "outputFromObservable(obs$, { alias: 'a' })",
+        SignalFunction.OUTPUT_FROM_OBSERVABLE,
+        "a",
+      ],
+      ["input({ alias: 'a' })", SignalFunction.INPUT, ""],
+      ["output()", SignalFunction.OUTPUT, ""],
+    ];
+    cases.forEach(([code, signal, expected]) => {
+      test(`should return "${expected}" for ${code}`, () => {
+        const source = createSource(code);
+        const callNode = findNode(source, ts.isCallExpression);
+        assert.ok(callNode);
+        assert.strictEqual(getSignalAlias(callNode, signal), expected);
+      });
+    });
+  });
+
+  suite("getLiteralTypeName", () => {
+    const cases: [string, string][] = [
+      ["'text'", "string"],
+      ["`text`", "string"],
+      ["42", "number"],
+      ["true", "boolean"],
+      ["false", "boolean"],
+      ["null", "any"],
+    ];
+    cases.forEach(([code, expected]) => {
+      test(`should return "${expected}" for ${code}`, () => {
+        const source = createSource(`const x = ${code};`);
+        const varNode = findNode(source, ts.isVariableDeclaration);
+        assert.ok(varNode);
+        assert.strictEqual(getLiteralTypeName(varNode.initializer), expected);
+      });
+    });
+
+    test("should return default type for undefined node", () => {
+      assert.strictEqual(getLiteralTypeName(undefined), "any");
+    });
+  });
+
+  suite("getLiteralText", () => {
+    const cases: [string, string][] = [
+      ["'md'", "'md'"],
+      ['"it\'s"', String.raw`'it\'s'`],
+      ["`text`", "'text'"],
+      ["42", "42"],
+      ["-1.5", "-1.5"],
+      ["true", "true"],
+      ["false", "false"],
+      ["null", "null"],
+      ["+1", ""],
+      ["someValue", ""],
+      ["[1, 2]", ""],
+    ];
+    cases.forEach(([code, expected]) => {
+      test(`should return "${expected}" for ${code}`, () => {
+        const source = createSource(`const x = ${code};`);
+        const varNode = findNode(source, ts.isVariableDeclaration);
+        assert.ok(varNode);
+        assert.strictEqual(getLiteralText(varNode.initializer), expected);
+      });
+    });
+
+    test("should return empty string for undefined node", () => {
+      assert.strictEqual(getLiteralText(undefined), "");
+    });
+  });
+
+  suite("getSignalInitialValue", () => {
+    const cases: [string, SignalFunction, string | undefined][] = [
+      ["input('Save')", SignalFunction.INPUT, "'Save'"],
+      ["model(0)", SignalFunction.MODEL, "0"],
+      ["input.required<string>()", SignalFunction.INPUT, undefined],
+      ["input()", SignalFunction.INPUT, undefined],
+      ["output({ alias: 'x' })", SignalFunction.OUTPUT, undefined],
+    ];
+    cases.forEach(([code, signal, expected]) => {
+      test(`should return ${expected} for ${code}`, () => {
+        const source = createSource(`const x = ${code};`);
+        const call = findNode(source, ts.isCallExpression);
+        assert.ok(call);
+        assert.strictEqual(
+          getSignalInitialValue(call, signal)?.getText(source),
+          expected
+        );
+      });
+    });
+  });
+
+  suite("getSignalTypeName", () => {
+    const cases: [string, SignalFunction, string][] = [
+      ["input<string>()", SignalFunction.INPUT, "string"],
+      ["input.required<Size>()", SignalFunction.INPUT, "Size"],
+      ["input(false)", SignalFunction.INPUT, "boolean"],
+      ["input()", SignalFunction.INPUT, "any"],
+      ["model(0)", SignalFunction.MODEL, "number"],
+      ["model.required()", SignalFunction.MODEL, "any"],
+      ["output<string>()", SignalFunction.OUTPUT, "string"],
+      ["output({ alias: 'a' })", SignalFunction.OUTPUT, "any"],
+      [
+        "outputFromObservable('x')",
+        SignalFunction.OUTPUT_FROM_OBSERVABLE,
+        "any",
+      ],
+    ];
+    cases.forEach(([code, signal, expected]) => {
+      test(`should return "${expected}" for ${code}`, () => {
+        const source = createSource(code);
+        const callNode = findNode(source, ts.isCallExpression);
+        assert.ok(callNode);
+        assert.strictEqual(
+          getSignalTypeName(callNode, signal, source),
+          expected
+        );
+      });
+    });
+  });
+
+  suite("structural directive members", () => {
+    /**
+     * Gets the members of the first class declared in the code.
+     * @param code Code string to parse.
+     * @returns The class members and source file.
+     */
+    const getMembers = (
+      code: string
+    ): { members: ts.ClassElement[]; source: ts.SourceFile } => {
+      const source = createSource(code);
+      const classNode = findNode(source, ts.isClassDeclaration);
+      assert.ok(classNode);
+      return { members: [...classNode.members], source };
+    };
+
+    const cases: [string, boolean, string | undefined, string][] = [
+      [
+        "class A { constructor(private tpl: TemplateRef<Ctx>) {} }",
+        true,
+        "Ctx",
+        "constructor parameter",
+      ],
+      [
+        "class A { tpl = inject(TemplateRef); }",
+        true,
+        undefined,
+        "inject() call",
+      ],
+      [
+        "class A { tpl = inject<TemplateRef<Ctx>>(TemplateRef); }",
+        true,
+        "Ctx",
+        "inject() type argument",
+      ],
+      [
+        "class A { tpl: TemplateRef<{ $implicit: T }> = inject(TemplateRef); }",
+        true,
+        "{ $implicit: T }",
+        "annotated property",
+      ],
+      [
+        "class A { @Input() tpl: TemplateRef<Ctx>; }",
+        false,
+        undefined,
+        "TemplateRef-typed input",
+      ],
+      [
+        "class A { @ContentChild(TemplateRef) tpl: TemplateRef<any>; }",
+        false,
+        undefined,
+        "TemplateRef content query",
+      ],
+      [
+        "class A { el = inject(ElementRef); }",
+        false,
+        undefined,
+        "other injection",
+      ],
+      ["class A { run() {} }", false, undefined, "method"],
+      [
+        "import * as ng from '@angular/core'; class A { constructor(tpl: ng.TemplateRef<Ctx>) {} }",
+        true,
+        "Ctx",
+        "namespace-qualified type",
+      ],
+      [
+        "import { TemplateRef } from './refs'; class A { constructor(tpl: TemplateRef<Ctx>) {} }",
+        false,
+        undefined,
+        "type from another module",
+      ],
+      [
+        "import { inject as di } from '@angular/core'; class A { tpl = di(TemplateRef); }",
+        true,
+        undefined,
+        "aliased inject() call",
+      ],
+      [
+        "function inject(token: unknown) {} class A { tpl = inject(TemplateRef); }",
+        false,
+        undefined,
+        "local inject() function",
+      ],
+    ];
+
+    cases.forEach(([code, injects, context, desc]) => {
+      test(`should detect TemplateRef for ${desc}`, () => {
+        const { members, source } = getMembers(code);
+        const [member] = members;
+        assert.strictEqual(injectsTemplateRef(member), injects);
+        assert.strictEqual(
+          getTemplateRefContextType(member)?.getText(source),
+          context
+        );
+      });
+    });
+
+    test("should read the context type of a static context guard", () => {
+      const { members, source } = getMembers(`
+        class A {
+          static ngTemplateContextGuard(dir: A, ctx: unknown): ctx is LetContext {
+            return true;
+          }
+          ngTemplateContextGuard(dir: A, ctx: unknown): ctx is Other {
+            return true;
+          }
+        }
+      `);
+      assert.strictEqual(isTemplateContextGuard(members[0]), true);
+      assert.strictEqual(
+        getContextGuardType(members[0])?.getText(source),
+        "LetContext"
+      );
+      assert.strictEqual(isTemplateContextGuard(members[1]), false);
+      assert.strictEqual(getContextGuardType(members[1]), undefined);
+    });
+  });
+
+  suite("host attribute injection", () => {
+    const parameterCases: [string, string, string][] = [
+      ["@Attribute('type') type: string", "type", "@Attribute() parameter"],
+      ["@ng.Attribute('role') role: string", "role", "namespaced @Attribute()"],
+      ["@Attribute(name) type: string", "", "non-literal attribute name"],
+      ["@Attribute type: string", "", "decorator without a call"],
+      ["@Inject(TOKEN) type: string", "", "other decorator"],
+      ["type: string", "", "undecorated parameter"],
+    ];
+
+    parameterCases.forEach(([parameter, expected, desc]) => {
+      test(`should return "${expected}" for ${desc}`, () => {
+        const source = createSource(
+          `import * as ng from "@angular/core"; class A { constructor(${parameter}) {} }`
+        );
+        const node = findNode(source, ts.isParameter);
+        assert.ok(node);
+        assert.strictEqual(getAttributeDecoratorName(node), expected);
+      });
+    });
+
+    const injectionCases: [string, string, boolean, string][] = [
+      ["inject(new HostAttributeToken('type'))", "type", false, "token"],
+      [
+        "inject(new HostAttributeToken('type'), { optional: true })",
+        "type",
+        true,
+        "optional token",
+      ],
+      ["inject(new HostAttributeToken(name))", "", false, "non-literal name"],
+      ["inject(new OtherToken('type'))", "", false, "other token"],
+      ["inject(HostAttributeToken)", "", false, "token class"],
+      ["get(new HostAttributeToken('type'))", "", false, "other function"],
+      ["'type'", "", false, "literal"],
+    ];
+
+    injectionCases.forEach(([code, expected, optional, desc]) => {
+      test(`should read a host attribute injection for ${desc}`, () => {
+        const source = createSource(`const x = ${code};`);
+        const variable = findNode(source, ts.isVariableDeclaration);
+        assert.ok(variable);
+        assert.strictEqual(
+          getHostAttributeName(variable.initializer),
+          expected
+        );
+        assert.strictEqual(isOptionalInjection(variable.initializer), optional);
+      });
+    });
+
+    test("should ignore inject functions from other modules", () => {
+      const source = createSource(`
+        import { inject } from "./di";
+        const x = inject(new HostAttributeToken('type'));
+      `);
+      const variable = findNode(source, ts.isVariableDeclaration);
+      assert.ok(variable);
+      assert.strictEqual(getHostAttributeName(variable.initializer), "");
+    });
+
+    test("should ignore HostAttributeToken classes from other modules", () => {
+      const source = createSource(`
+        import { HostAttributeToken } from "./tokens";
+        const x = inject(new HostAttributeToken('type'));
+      `);
+      const variable = findNode(source, ts.isVariableDeclaration);
+      assert.ok(variable);
+      assert.strictEqual(getHostAttributeName(variable.initializer), "");
+    });
+
+    test("should return defaults for undefined expressions", () => {
+      assert.strictEqual(getHostAttributeName(undefined), "");
+      assert.strictEqual(isOptionalInjection(undefined), false);
+    });
+  });
+
+  suite("getTriggerName", () => {
+    const cases: [string, string, string][] = [
+      ["trigger('fade', [])", "fade", "a trigger call"],
+      ["trigger(`slide`, [])", "slide", "a template literal name"],
+      ["trigger(name, [])", "", "a non-literal name"],
+      ["state('open', style({}))", "", "a different call"],
+      ["'fade'", "", "a plain string"],
+    ];
+
+    cases.forEach(([code, expected, description]) => {
+      test(`should return "${expected}" for ${description}`, () => {
+        const source = createSource(`const x = ${code};`);
+        const variable = findNode(source, ts.isVariableDeclaration);
+        assert.ok(variable);
+        assert.strictEqual(getTriggerName(variable.initializer), expected);
+      });
+    });
+
+    const importCases: [string, string, string][] = [
+      [
+        "import { trigger as ngTrigger } from '@angular/animations';",
+        "fade",
+        "an aliased import",
+      ],
+      [
+        "import { ngTrigger } from './animations';",
+        "",
+        "an import from another module",
+      ],
+      ["const ngTrigger = (name: string) => name;", "", "a local function"],
+    ];
+
+    importCases.forEach(([declaration, expected, description]) => {
+      test(`should return "${expected}" for ${description}`, () => {
+        const source = createSource(
+          `${declaration} const x = ngTrigger('fade', []);`
+        );
+        const variable = findNode(
+          source,
+          (node): node is ts.VariableDeclaration =>
+            ts.isVariableDeclaration(node) && node.name.getText() === "x"
+        );
+        assert.ok(variable);
+        assert.strictEqual(getTriggerName(variable.initializer), expected);
+      });
+    });
+
+    test("should return empty string for undefined nodes", () => {
+      assert.strictEqual(getTriggerName(undefined), "");
+    });
+  });
+
+  suite("getTypeMemberNames", () => {
+    const declarations = `
+      interface ItemContext { $implicit: string; index: number; run(): void; }
+      type RowContext = { "row": string; count: number };
+      type Alias = ItemContext;
+      class ListContext { item = ""; static of() {} }
+    `;
+    const cases: [string, string[]][] = [
+      ["{ $implicit: T; appLet: T }", ["$implicit", "appLet"]],
+      ["ItemContext", ["$implicit", "index"]],
+      ["RowContext", ["row", "count"]],
+      ["ListContext", ["item"]],
+      ["Alias", []],
+      ["Unknown", []],
+      ["string", []],
+    ];
+
+    cases.forEach(([type, expected]) => {
+      test(`should return [${expected.join(", ")}] for ${type}`, () => {
+        const source = createSource(`${declarations} let x: ${type};`);
+        const variable = findNode(source, ts.isVariableDeclaration);
+        assert.ok(variable);
+        assert.deepStrictEqual(
+          getTypeMemberNames(variable.type, source),
+          expected
+        );
+      });
+    });
+
+    test("should return an empty array for an undefined type", () => {
+      assert.deepStrictEqual(
+        getTypeMemberNames(undefined, createSource("")),
+        []
+      );
+    });
+  });
+
+  suite("getLiteralUnionValues", () => {
+    const cases: [string, (string | number | boolean)[]][] = [
+      ["'sm' | 'md' | 'lg'", ["sm", "md", "lg"]],
+      ["1 | -1 | 0", [1, -1, 0]],
+      ["'on' | true | null | undefined", ["on", true]],
+      ["'only'", ["only"]],
+      ["true | false", []],
+      ["'sm' | string", []],
+      ["-x", []],
+      ["number", []],
+    ];
+    cases.forEach(([type, expected]) => {
+      test(`should return [${expected.join(", ")}] for ${type}`, () => {
+        const source = createSource(`let x: ${type};`);
+        const variable = findNode(source, ts.isVariableDeclaration);
+        assert.ok(variable);
+        assert.deepStrictEqual(getLiteralUnionValues(variable.type), expected);
+      });
+    });
+
+    test("should return an empty array for an undefined type", () => {
+      assert.deepStrictEqual(getLiteralUnionValues(undefined), []);
+    });
+  });
 });
@@ -0,0 +1,183 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+
+import { CancelledError } from "../../concurrency";
+import { FileSystemProvider } from "../../files";
+import { findAngularPackages, findNodeModulesDir } from "../../packages";
+
+/**
+ * Creates a mock Dirent object for testing.
+ * @param name - The name of the directory entry.
+ * @param kind - The kind of entry.
+ * @returns A mock Dirent object.
+ */
+const createMockDirent = (
+  name: string,
+  kind: "dir" | "file" | "link"
+): fs.Dirent => ({
+  name,
+  isDirectory: () => kind === "dir",
+  isFile: () => kind === "file",
+  isBlockDevice: () => false,
+  isCharacterDevice: () => false,
+  isSymbolicLink: () => kind === "link",
+  isFIFO: () => false,
+  isSocket: () => false,
+  path: "",
+  parentPath: "",
+});
+
+/**
+ * Creates a file system provider backed by in-memory files.
+ * Directories are derived from the file paths.
+ * @param files - Map of absolute file paths to contents.
+ * @returns The file system provider.
+ */
+const createMockFs = (files: Map<string, string>): FileSystemProvider => ({
+  readFile: async (filePath: string) => files.get(path.resolve(filePath)) ?? "",
+  readDir: async (dirPath: string): Promise<fs.Dirent[]> => {
+    const prefix = `${path.resolve(dirPath)}${path.sep}`;
+    const names = new Set(
+      [...files.keys()]
+        .filter((filePath) => filePath.startsWith(prefix))
+        .map((filePath) => filePath.slice(prefix.length).split(path.sep))
+        .map((segments) => `${segments[0]}${segments.length > 1 ? "/" : ""}`)
+    );
+    return [...names].map((name) =>
+      name.endsWith("/")
+        ? createMockDirent(name.slice(0, -1), "dir")
+        : createMockDirent(name, "file")
+    );
+  },
+});
+
+/**
+ * Resolves a path below the virtual node_modules folder.
+ * @param segments - The path segments.
+ * @returns The absolute path.
+ */
+const nm = (...segments: string[]): string =>
+  path.resolve("/workspace/node_modules", ...segments);
+
+suite("packages", () => {
+  suite("findNodeModulesDir", () => {
+    const files = new Map([[nm("@angular/core/package.json"), "{}"]]);
+    /**
+     * Reads a file synchronously from the in-memory files.
+     * @param filePath - The file path.
+     * @returns The file contents, or an empty string.
+     */
+    const readFile = (filePath: string): string =>
+      files.get(path.resolve(filePath)) ?? "";
+
+    test("should find node_modules in the starting directory", () => {
+      assert.strictEqual(findNodeModulesDir("/workspace", readFile), nm());
+    });
+
+    test("should find node_modules in an ancestor directory", () => {
+      assert.strictEqual(
+        findNodeModulesDir("/workspace/src/app", readFile),
+        nm()
+      );
+    });
+
+    test("should return undefined when Angular is not installed", () => {
+      assert.strictEqual(findNodeModulesDir("/other", readFile), undefined);
+    });
+  });
+
+  suite("findAngularPackages", () => {
+    const manifest = (value: object): string => JSON.stringify(value);
+    const files = new Map([
+      [
+        nm("@angular/core/package.json"),
+        manifest({ name: "@angular/core", version: "19.0.0" }),
+      ],
+      [
+        nm("@angular/material/package.json"),
+        manifest({
+          name: "@angular/material",
+          version: "19.0.1",
+          peerDependencies: { "@angular/core": "^19.0.0" },
+        }),
+      ],
+      [
+        nm("ui-kit/package.json"),
+        manifest({ dependencies: { "@angular/core": "*" } }),
+      ],
+      [nm("lodash/package.json"), manifest({ name: "lodash" })],
+      [nm("broken/package.json"), "{"],
+      [nm("scalar/package.json"), "42"],
+      [nm(".bin/ng"), ""],
+      [nm("README.md"), ""],
+    ]);
+
+    test("should list packages that depend on @angular/core, sorted by name", async () => {
+      assert.deepStrictEqual(
+        await findAngularPackages(nm(), createMockFs(files)),
+        [
+          {
+            name: "@angular/material",
+            version: "19.0.1",
+            path: nm("@angular/material"),
+          },
+          { name: "ui-kit", version: "", path: nm("ui-kit") },
+        ]
+      );
+    });
+
+    test("should follow symbolic links to packages", async () => {
+      const mockFs: FileSystemProvider = {
+        ...createMockFs(files),
+        readDir: async (dirPath: string) =>
+          dirPath === nm() ? [createMockDirent("ui-kit", "link")] : [],
+      };
+      assert.deepStrictEqual(
+        (await findAngularPackages(nm(), mockFs)).map((p) => p.name),
+        ["ui-kit"]
+      );
+    });
+
+    test("should stop scanning once cancellation is requested", async () => {
+      const token = { isCancellationRequested: false };
+      const mockFs = createMockFs(files);
+      await assert.rejects(
+        () =>
+          findAngularPackages(
+            nm(),
+            {
+              ...mockFs,
+              readFile: (filePath: string) => {
+                token.isCancellationRequested = true;
+                return mockFs.readFile(filePath);
+              },
+            },
+            token
+          ),
+        CancelledError
+      );
+      await assert.rejects(
+        () => findAngularPackages(nm(), mockFs, token),
+        CancelledError
+      );
+    });
+  });
+});
@@ -15,15 +15,38 @@
  */
 
 import assert from "node:assert";
+import path from "node:path";
 
-import { ArtifactKind } from "../../constants";
+import { createTypeCheckProgram } from "../../checker";
+import { ArtifactKind, DecoratorRole } from "../../constants";
 import {
   parseAngularFile,
   parseComponent,
+  parseDeclarationFile,
   parseDirective,
   parsePipe,
 } from "../../parser";
-import { ComponentInfo, DirectiveInfo, PipeInfo } from "../../types";
+import { createSnippet } from "../../snippet";
+import {
+  ComponentInfo,
+  DirectiveInfo,
+  ParseContext,
+  PipeInfo,
+} from "../../types";
+
+/**
+ * Creates a parse context backed by an in-memory file map.
+ * @param filePath - The path of the file being parsed.
+ * @param files - Map of absolute file paths to contents.
+ * @returns The parse context.
+ */
+const createContext = (
+  filePath: string,
+  files: Record<string, string>
+): ParseContext => ({
+  filePath: path.resolve(filePath),
+  readFile: (p: string): string => files[path.resolve(p)] ?? "",
+});
 
 suite("parser", () => {
   const mockComponentData = `
@@ -68,7 +91,7 @@ suite("parser", () => {
     inputs: [
       { name: "label", type: "string" },
       { name: "disabled", type: "boolean" },
-      { name: "icon", type: "any" }, // Initializer only, no explicit type
+      { name: "icon", type: "any", defaultValue: "'info'" }, // Initializer only, no explicit type
       { name: "color", type: "Color" },
       { name: "tooltip", type: "string" }, // Optional marker not in type text
     ],
@@ -149,6 +172,44 @@ suite("parser", () => {
       assert.strictEqual(disabledInput.type, "boolean");
     });
 
+    test("should parse component with set accessor inputs", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-slider" })
+        export class SliderComponent {
+          @Input() set value(v: number) {}
+          @Input("label") set labelText(text) {}
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "value", type: "number" },
+        { name: "label", type: "any" },
+      ]);
+    });
+
+    test("should report decorated getter/setter pairs once", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-toggle" })
+        export class ToggleComponent {
+          @Input()
+          set checked(value) {}
+          get checked(): boolean { return true; }
+
+          get size(): string { return ""; }
+          @Input() set size(value: string) {}
+
+          @Input() get mode(): string { return ""; }
+          set mode(value: string) {}
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "checked", type: "boolean" },
+        { name: "size", type: "string" },
+        { name: "mode", type: "string" },
+      ]);
+    });
+
     test("should return empty selector for class without selector in decorator", () => {
       const noSelectorComponent = `
         @Injectable()
@@ -240,6 +301,1061 @@ suite("parser", () => {
     });
   });
 
+  suite("signal-based bindings", () => {
+    const mockSignalComponentData = `
+      @Component({ selector: "signal-button" })
+      export class SignalButtonComponent {
+        label = input<string>();
+        disabled = input(false);
+        size = input.required<Size>();
+        icon = input("info", { alias: "iconName" });
+        count = model(0);
+        checked = model.required<boolean>({ alias: "isChecked" });
+        saved = output<string>();
+        closed = output({ alias: "dismissed" });
+        ticked = outputFromObservable(this.tick$);
+        state = signal(0);
+      }
+    `;
+
+    test("should extract signal inputs, models and outputs in member order", () => {
+      const result = parseComponent(mockSignalComponentData);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "label", type: "string" },
+        { name: "disabled", type: "boolean", defaultValue: "false" },
+        { name: "size", type: "Size", required: true },
+        { name: "iconName", type: "string", defaultValue: "'info'" },
+        { name: "count", type: "number", defaultValue: "0" },
+        { name: "isChecked", type: "boolean", required: true },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "countChange", type: "number" },
+        { name: "isCheckedChange", type: "boolean" },
+        { name: "saved", type: "string" },
+        { name: "dismissed", type: "any" },
+        { name: "ticked", type: "any" },
+      ]);
+    });
+
+    test("should combine decorator and signal bindings on a directive", () => {
+      const mixedDirective = `
+        @Directive({ selector: "[appMixed]" })
+        export class MixedDirective {
+          @Input() legacy: string;
+          modern = input<number>();
+          @Output() changed = new EventEmitter<string>();
+          touched = output<void>();
+        }
+      `;
+      const result = parseDirective(mixedDirective);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "legacy", type: "string" },
+        { name: "modern", type: "number" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "changed", type: "any" },
+        { name: "touched", type: "void" },
+      ]);
+    });
+  });
+
+  suite("binding options", () => {
+    test("should read alias, required and transform from @Input options", () => {
+      const optionsComponent = `
+        @Component({ selector: "app-options" })
+        export class OptionsComponent {
+          @Input({ alias: "label", required: true }) text: string;
+          @Input({ transform: booleanAttribute }) disabled: boolean;
+          @Input({ transform: (v: string) => v.trim() }) hint: string;
+          @Input({ alias: label }) other: string;
+        }
+      `;
+      const result = parseComponent(optionsComponent);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "label", type: "string", required: true },
+        { name: "disabled", type: "boolean", transform: "booleanAttribute" },
+        { name: "hint", type: "string" },
+        { name: "other", type: "string" },
+      ]);
+    });
+
+    test("should read transform from signal and metadata input options", () => {
+      const transformDirective = `
+        @Directive({
+          selector: "[appSize]",
+          inputs: [{ name: "max", transform: numberAttribute, required: true }],
+        })
+        export class SizeDirective {
+          max: number;
+          enabled = input(false, { transform: booleanAttribute });
+          size = input.required({ alias: "appSize", transform: numberAttribute });
+        }
+      `;
+      const result = parseDirective(transformDirective);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        {
+          name: "enabled",
+          type: "boolean",
+          transform: "booleanAttribute",
+          defaultValue: "false",
+        },
+        {
+          name: "appSize",
+          type: "any",
+          required: true,
+          transform: "numberAttribute",
+        },
+        {
+          name: "max",
+          type: "number",
+          required: true,
+          transform: "numberAttribute",
+        },
+      ]);
+    });
+  });
+
+  suite("inherited bindings", () => {
+    const baseField = `
+      @Directive()
+      export abstract class BaseFieldComponent {
+        @Input() label: string;
+        @Input() disabled: boolean;
+        @Output() touched = new EventEmitter<void>();
+      }
+    `;
+
+    test("should collect bindings from a base class in the same file", () => {
+      const result = parseComponent(`
+        ${baseField}
+
+        @Component({ selector: "app-text-field" })
+        export class TextFieldComponent extends BaseFieldComponent {
+          @Input() placeholder: string;
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "placeholder", type: "string" },
+        { name: "label", type: "string" },
+        { name: "disabled", type: "boolean" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "touched", type: "any" },
+      ]);
+    });
+
+    test("should follow relative and tsconfig path imports across files", () => {
+      const context = createContext("/workspace/src/app/select.component.ts", {
+        [path.resolve("/workspace/tsconfig.json")]: `{
+          "compilerOptions": { "paths": { "@forms/*": ["src/forms/*"] } }
+        }`,
+        [path.resolve("/workspace/src/forms/base-field.ts")]: baseField,
+        [path.resolve("/workspace/src/app/base-select.ts")]: `
+          import { BaseFieldComponent } from "@forms/base-field";
+          export abstract class BaseSelect extends BaseFieldComponent {
+            @Input() label: number;
+            options = input<string[]>();
+          }
+        `,
+      });
+      const result = parseComponent(
+        `
+          import { BaseSelect } from "./base-select";
+
+          @Component({ selector: "app-select" })
+          export class SelectComponent extends BaseSelect {
+            @Input() disabled: string;
+          }
+        `,
+        context
+      );
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "disabled", type: "string" },
+        { name: "label", type: "number" },
+        { name: "options", type: "string[]" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "touched", type: "any" },
+      ]);
+    });
+
+    test("should stop at circular class hierarchies", () => {
+      const context = createContext("/workspace/a.ts", {
+        [path.resolve("/workspace/b.ts")]: `
+          import { A } from "./a";
+          export class B extends A { @Input() b: string; }
+        `,
+        [path.resolve("/workspace/a.ts")]: `
+          import { B } from "./b";
+          @Directive({ selector: "[a]" })
+          export class A extends B { @Input() a: string; }
+        `,
+      });
+      const result = parseDirective(
+        context.readFile(context.filePath),
+        context
+      );
+      assert.ok(result);
+      assert.deepStrictEqual(
+        result.inputs.map((i) => i.name),
+        ["a", "b"]
+      );
+    });
+
+    test("should ignore unresolved base classes", () => {
+      const result = parseComponent(`
+        import { Unknown } from "./unknown";
+        @Component({ selector: "app-orphan" })
+        export class OrphanComponent extends Unknown {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, []);
+    });
+  });
+
+  suite("host directive bindings", () => {
+    const tooltipDirective = `
+      @Directive({ selector: "[appTooltip]" })
+      export class TooltipDirective {
+        @Input({ required: true }) tooltipText: string;
+        @Input() tooltipDelay: number;
+        @Output() shown = new EventEmitter<boolean>();
+        @Output() hidden = new EventEmitter<void>();
+      }
+    `;
+
+    test("should expose listed host directive bindings under their aliases", () => {
+      const context = createContext("/workspace/src/button.component.ts", {
+        [path.resolve("/workspace/src/tooltip.directive.ts")]: tooltipDirective,
+      });
+      const result = parseComponent(
+        `
+          import { TooltipDirective } from "./tooltip.directive";
+
+          @Component({
+            selector: "app-button",
+            hostDirectives: [
+              FocusDirective,
+              {
+                directive: TooltipDirective,
+                inputs: ["tooltipText: tooltip", "missing"],
+                outputs: ["shown"],
+              },
+            ],
+          })
+          export class ButtonComponent {
+            @Input() label: string;
+          }
+        `,
+        context
+      );
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "label", type: "string" },
+        { name: "tooltip", type: "string", required: true },
+        { name: "missing", type: "any" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [{ name: "shown", type: "any" }]);
+    });
+
+    test("should expose bindings of unresolved host directives as untyped", () => {
+      const result = parseDirective(`
+        @Directive({
+          selector: "[appHost]",
+          hostDirectives: [{ directive: forwardRef(() => Other), inputs: ["x"] }],
+        })
+        export class HostDirective {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [{ name: "x", type: "any" }]);
+    });
+
+    test("should stop at directives that host themselves", () => {
+      const result = parseDirective(`
+        @Directive({
+          selector: "[appSelf]",
+          hostDirectives: [{ directive: SelfDirective, inputs: ["value: alias"] }],
+        })
+        export class SelfDirective {
+          @Input() value: string;
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "value", type: "string" },
+        { name: "alias", type: "any" },
+      ]);
+    });
+  });
+
+  suite("default values", () => {
+    test("should capture literal initializers of inputs", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-button", inputs: ["tone"] })
+        export class ButtonComponent {
+          @Input() size = "md";
+          @Input() count: number = -1;
+          @Input() options = { a: 1 };
+          label = input("Save");
+          checked = model(false);
+          title = input.required<string>();
+          tone = 'light';
+          @Output() saved = new EventEmitter<void>();
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "size", type: "any", defaultValue: "'md'" },
+        { name: "count", type: "number", defaultValue: "-1" },
+        { name: "options", type: "any" },
+        { name: "label", type: "string", defaultValue: "'Save'" },
+        { name: "checked", type: "boolean", defaultValue: "false" },
+        { name: "title", type: "string", required: true },
+        { name: "tone", type: "any", defaultValue: "'light'" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "checkedChange", type: "boolean" },
+        { name: "saved", type: "any" },
+      ]);
+    });
+  });
+
+  suite("decorator imports", () => {
+    test("should recognize aliased and namespaced Angular decorators", () => {
+      const result = parseAngularFile(`
+        import * as ng from "@angular/core";
+        import { Component as NgComponent, Input as NgInput } from "@angular/core";
+
+        @NgComponent({ selector: "app-alias" })
+        export class AliasComponent {
+          @NgInput() label: string;
+        }
+
+        @ng.Directive({ selector: "[appNs]" })
+        export class NamespaceDirective {
+          @ng.Input() appNs: string;
+          @ng.Output() changed = new ng.EventEmitter<string>();
+        }
+      `);
+      assert.deepStrictEqual(
+        result.map((info) => info.className),
+        ["AliasComponent", "NamespaceDirective"]
+      );
+      assert.deepStrictEqual(
+        result[0].kind === ArtifactKind.COMPONENT && result[0].inputs,
+        [{ name: "label", type: "string" }]
+      );
+      assert.deepStrictEqual(
+        result[1].kind === ArtifactKind.DIRECTIVE &&
+          result[1].outputs.map((output) => output.name),
+        ["changed"]
+      );
+    });
+
+    test("should ignore decorators that do not come from Angular", () => {
+      const result = parseAngularFile(`
+        import { Component } from "./decorators";
+
+        @Component({ selector: "app-fake" })
+        export class FakeComponent {}
+      `);
+      assert.deepStrictEqual(result, []);
+    });
+  });
+
+  suite("custom decorators", () => {
+    const source = `
+      import { DsComponent, DsInput, DsOutput, DsPipe } from "@acme/ds";
+      import * as ds from "@acme/ds";
+
+      @DsComponent({ selector: "ds-button" })
+      export class DsButtonComponent {
+        @DsInput() label: string;
+        @ds.DsOutput() pressed = new EventEmitter<void>();
+      }
+
+      @DsPipe({ name: "dsDate" })
+      export class DsDatePipe {}
+    `;
+    const customDecorators = {
+      DsComponent: DecoratorRole.COMPONENT,
+      DsInput: DecoratorRole.INPUT,
+      DsOutput: DecoratorRole.OUTPUT,
+      DsPipe: DecoratorRole.PIPE,
+    };
+
+    test("should treat mapped decorators as their Angular roles", () => {
+      const context = {
+        ...createContext("/workspace/ds-button.ts", {}),
+        customDecorators,
+      };
+      const [component, pipe] = parseAngularFile(source, context);
+      assert.deepStrictEqual(component, {
+        kind: ArtifactKind.COMPONENT,
+        className: "DsButtonComponent",
+        selector: "ds-button",
+        inputs: [{ name: "label", type: "string" }],
+        outputs: [{ name: "pressed", type: "any" }],
+      });
+      assert.deepStrictEqual(pipe, {
+        kind: ArtifactKind.PIPE,
+        className: "DsDatePipe",
+        name: "dsDate",
+      });
+      assert.strictEqual(
+        parseComponent(source, context)?.selector,
+        "ds-button"
+      );
+      assert.strictEqual(parsePipe(source, context)?.name, "dsDate");
+    });
+
+    test("should ignore custom decorators that are not mapped", () => {
+      assert.deepStrictEqual(parseAngularFile(source), []);
+    });
+  });
+
+  suite("exportAs", () => {
+    test("should split comma-separated export names", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appDropdown]", exportAs: "appDropdown, dropdown" })
+        export class DropdownDirective {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.exportAs, ["appDropdown", "dropdown"]);
+    });
+
+    test("should read the export name of a component", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-menu", exportAs: "appMenu" })
+        export class MenuComponent {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.exportAs, ["appMenu"]);
+    });
+
+    test("should omit exportAs when the metadata does not declare it", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appDropdown]" })
+        export class DropdownDirective {}
+      `);
+      assert.ok(result);
+      assert.strictEqual("exportAs" in result, false);
+    });
+  });
+
+  suite("static attributes", () => {
+    test("should read @Attribute() constructor parameters", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-input" })
+        export class InputComponent {
+          constructor(
+            @Attribute("type") readonly type: string,
+            @Attribute("autocomplete") autocomplete,
+            private readonly el: ElementRef
+          ) {}
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.attributes, [
+        { name: "type", type: "string" },
+        { name: "autocomplete", type: "string" },
+      ]);
+    });
+
+    test("should document and exclude @Attribute() parameters through their JSDoc", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-input" })
+        export class InputComponent {
+          constructor(
+            /** The native input type. @deprecated Use \`kind\`. */
+            @Attribute("type") readonly type: string,
+            /** @internal */
+            @Attribute("debug") debug: string,
+            /** @snippet-ignore */
+            @Attribute("role") role: string
+          ) {}
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.attributes, [
+        {
+          name: "type",
+          type: "string",
+          description: "The native input type.",
+          deprecated: "Use `kind`.",
+        },
+      ]);
+    });
+
+    test("should read HostAttributeToken injections", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appIcon]" })
+        export class IconDirective {
+          /** The icon name. */
+          readonly icon = inject(new HostAttributeToken("icon"));
+          readonly size: string | null = inject(new HostAttributeToken("size"), {
+            optional: true,
+          });
+          readonly el = inject(ElementRef);
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.attributes, [
+        {
+          name: "icon",
+          type: "string",
+          required: true,
+          description: "The icon name.",
+        },
+        { name: "size", type: "string | null" },
+      ]);
+    });
+
+    test("should omit attributes when the class reads none", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-plain" })
+        export class PlainComponent {
+          constructor(private readonly el: ElementRef) {}
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual("attributes" in result, false);
+    });
+  });
+
+  suite("structural directives", () => {
+    test("should read the template context from a context guard", () => {
+      const result = parseDirective(`
+        interface LetContext<T> {
+          $implicit: T;
+          appLet: T;
+        }
+
+        @Directive({ selector: "[appLet]" })
+        export class LetDirective<T> {
+          private templateRef = inject(TemplateRef);
+          @Input() appLet: T;
+
+          static ngTemplateContextGuard<T>(
+            dir: LetDirective<T>,
+            ctx: unknown
+          ): ctx is LetContext<T> {
+            return true;
+          }
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual(result.structural, true);
+      assert.deepStrictEqual(result.templateContext, ["$implicit", "appLet"]);
+    });
+
+    test("should read the template context from the TemplateRef type", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appIfRole]" })
+        export class IfRoleDirective {
+          constructor(
+            private templateRef: TemplateRef<{ $implicit: string; role: string }>,
+            private viewContainer: ViewContainerRef
+          ) {}
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual(result.structural, true);
+      assert.deepStrictEqual(result.templateContext, ["$implicit", "role"]);
+    });
+
+    test("should omit the template context when it cannot be resolved", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appIfRole]" })
+        export class IfRoleDirective {
+          private templateRef = inject(TemplateRef);
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual(result.structural, true);
+      assert.strictEqual("templateContext" in result, false);
+    });
+
+    test("should not mark attribute directives as structural", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appHighlight]" })
+        export class HighlightDirective {
+          private el = inject(ElementRef);
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual("structural" in result, false);
+    });
+
+    test("should keep attribute snippets for directives with TemplateRef inputs", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appTooltip]" })
+        export class TooltipDirective {
+          @Input() tooltipTemplate: TemplateRef<unknown>;
+          @ContentChild(TemplateRef) template: TemplateRef<any>;
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual("structural" in result, false);
+      const snippet = createSnippet(result);
+      assert.ok(snippet);
+      assert.deepStrictEqual(
+        Object.values(snippet).map(({ body }) => body[0]),
+        ["appTooltip"]
+      );
+    });
+  });
+
+  suite("two-way bindings", () => {
+    test("should pair models and inputs with matching Change outputs", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-toggle" })
+        export class ToggleComponent {
+          checked = model(false);
+          @Input() value: string;
+          @Output() valueChange = new EventEmitter<string>();
+          @Input() label: string;
+          @Output() labelChanged = new EventEmitter<string>();
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.twoWayBindings, ["checked", "value"]);
+    });
+
+    test("should detect two-way bindings on directives", () => {
+      const result = parseDirective(`
+        @Directive({ selector: "[appExpand]" })
+        export class ExpandDirective {
+          expanded = model<boolean>();
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.twoWayBindings, ["expanded"]);
+    });
+
+    test("should omit two-way bindings when no input has a Change output", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-label" })
+        export class LabelComponent {
+          @Input() text: string;
+          @Output() clicked = new EventEmitter<void>();
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual("twoWayBindings" in result, false);
+    });
+  });
+
+  suite("JSDoc descriptions", () => {
+    test("should read class and binding JSDoc comments", () => {
+      const result = parseComponent(`
+        /** Displays content in a card. */
+        @Component({ selector: "app-card", inputs: ["tone"] })
+        export class CardComponent {
+          /** The card title. */
+          @Input() title: string;
+          /** The card tone. */
+          tone: string;
+          /** Whether the card is expanded. */
+          expanded = model(false);
+          /** Emits when the card closes. */
+          closed = output<void>();
+          @Input() plain: string;
+        }
+      `);
+      assert.ok(result);
+      assert.strictEqual(result.description, "Displays content in a card.");
+      assert.deepStrictEqual(result.inputs, [
+        { name: "title", type: "string", description: "The card title." },
+        {
+          name: "expanded",
+          type: "boolean",
+          description: "Whether the card is expanded.",
+          defaultValue: "false",
+        },
+        { name: "plain", type: "string" },
+        { name: "tone", type: "string", description: "The card tone." },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        {
+          name: "expandedChange",
+          type: "boolean",
+          description: "Whether the card is expanded.",
+        },
+        {
+          name: "closed",
+          type: "void",
+          description: "Emits when the card closes.",
+        },
+      ]);
+    });
+
+    test("should read directive and pipe class JSDoc comments", () => {
+      const [directive, pipe] = parseAngularFile(`
+        /** Highlights its host. */
+        @Directive({ selector: "[appHighlight]" })
+        export class HighlightDirective {}
+
+        /** Formats currency. */
+        @Pipe({ name: "currencyFormat" })
+        export class CurrencyFormatPipe {}
+      `);
+      assert.strictEqual(directive?.description, "Highlights its host.");
+      assert.strictEqual(pipe?.description, "Formats currency.");
+    });
+  });
+
+  suite("JSDoc tags", () => {
+    test("should skip classes marked @internal or @snippet-ignore", () => {
+      const result = parseAngularFile(`
+        /** @internal */
+        @Component({ selector: "app-internal" })
+        export class InternalComponent {}
+
+        /** @snippet-ignore */
+        @Directive({ selector: "[appIgnored]" })
+        export class IgnoredDirective {}
+
+        @Pipe({ name: "visible" })
+        export class VisiblePipe {}
+      `);
+      assert.deepStrictEqual(
+        result.map((info) => info.className),
+        ["VisiblePipe"]
+      );
+      assert.strictEqual(
+        parseComponent(`
+          /** @internal */
+          @Component({ selector: "app-internal" })
+          export class InternalComponent {}
+        `),
+        undefined
+      );
+    });
+
+    test("should skip bindings marked @internal or @snippet-ignore", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-card", inputs: ["tone"] })
+        export class CardComponent {
+          @Input() title: string;
+          /** @internal */
+          @Input() debug: boolean;
+          /** @snippet-ignore */
+          tone: string;
+          /** @internal */
+          closed = output<void>();
+          /** @internal */
+          type = inject(new HostAttributeToken("type"));
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "title", type: "string" },
+      ]);
+      assert.deepStrictEqual(result.outputs, []);
+      assert.strictEqual("attributes" in result, false);
+    });
+
+    test("should keep bindings inherited from an internal base class", () => {
+      const result = parseComponent(`
+        /** @internal */
+        @Directive()
+        export abstract class BaseField {
+          @Input() label: string;
+        }
+
+        @Component({ selector: "app-field" })
+        export class FieldComponent extends BaseField {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "label", type: "string" },
+      ]);
+    });
+
+    test("should read @deprecated notes of bindings", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-button" })
+        export class ButtonComponent {
+          /**
+           * The button size.
+           * @deprecated Use \`scale\` instead.
+           */
+          @Input() size: string;
+          /** @deprecated */
+          pressed = output<void>();
+        }
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        {
+          name: "size",
+          type: "string",
+          description: "The button size.",
+          deprecated: "Use `scale` instead.",
+        },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "pressed", type: "void", deprecated: "" },
+      ]);
+    });
+  });
+
+  suite("content projection slots", () => {
+    test("should find slots in an inline template", () => {
+      const result = parseComponent(`
+        @Component({
+          selector: "app-card",
+          template: \`
+            <ng-content select="[card-header]"></ng-content>
+            <ng-content></ng-content>
+          \`,
+        })
+        export class CardComponent {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.contentSlots, ["[card-header]", ""]);
+    });
+
+    test("should read slots from the templateUrl file", () => {
+      const componentPath = "/workspace/src/card/card.component.ts";
+      const context = createContext(componentPath, {
+        [path.resolve("/workspace/src/card/card.component.html")]:
+          '<ng-content select=".card-footer" />',
+      });
+      const result = parseComponent(
+        `
+          @Component({ selector: "app-card", templateUrl: "./card.component.html" })
+          export class CardComponent {}
+        `,
+        context
+      );
+      assert.ok(result);
+      assert.deepStrictEqual(result.contentSlots, [".card-footer"]);
+    });
+
+    test("should omit slots when the template cannot be read", () => {
+      const result = parseComponent(`
+        @Component({ selector: "app-card", templateUrl: "./card.component.html" })
+        export class CardComponent {}
+      `);
+      assert.ok(result);
+      assert.strictEqual("contentSlots" in result, false);
+    });
+  });
+
+  suite("animation triggers", () => {
+    test("should collect inline triggers from the animations array", () => {
+      const result = parseComponent(`
+        @Component({
+          selector: "app-panel",
+          animations: [trigger("expand", []), trigger('fade', []), state()],
+        })
+        export class PanelComponent {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.animationTriggers, ["expand", "fade"]);
+    });
+
+    test("should follow local constants, spreads and object properties", () => {
+      const result = parseComponent(`
+        const fade = trigger("fade", []);
+        const shared = [fade, trigger("slide", [])];
+        const animations = { collapse: trigger("collapse", []) };
+
+        @Component({
+          selector: "app-panel",
+          animations: [...shared, animations.collapse, fade],
+        })
+        export class PanelComponent {}
+      `);
+      assert.ok(result);
+      assert.deepStrictEqual(result.animationTriggers, [
+        "fade",
+        "slide",
+        "collapse",
+      ]);
+    });
+
+    test("should resolve triggers imported from shared files", () => {
+      const context = createContext("/workspace/src/panel.component.ts", {
+        [path.resolve("/workspace/src/animations.ts")]: `
+          export const panelAnimations = [trigger("expand", [])];
+        `,
+      });
+      const result = parseComponent(
+        `
+          import { panelAnimations } from "./animations";
+
+          @Component({ selector: "app-panel", animations: panelAnimations })
+          export class PanelComponent {}
+        `,
+        context
+      );
+      assert.ok(result);
+      assert.deepStrictEqual(result.animationTriggers, ["expand"]);
+    });
+
+    test("should stop following circular references", () => {
+      const result = parseComponent(`
+        const first = [second];
+        const second = [first];
+
+        @Component({ selector: "app-panel", animations: first })
+        export class PanelComponent {}
+      `);
+      assert.ok(result);
+      assert.strictEqual("animationTriggers" in result, false);
+    });
+
+    test("should omit triggers that cannot be resolved", () => {
+      const result = parseComponent(`
+        import { external } from "./animations";
+
+        @Component({ selector: "app-panel", animations: [external] })
+        export class PanelComponent {}
+      `);
+      assert.ok(result);
+      assert.strictEqual("animationTriggers" in result, false);
+    });
+  });
+
+  suite("type-checked bindings", () => {
+    const componentPath = path.resolve("/workspace/src/button.component.ts");
+    const files: Record<string, string> = {
+      [path.resolve("/workspace/src/types.ts")]: `
+        export type Size = "sm" | "md" | "lg";
+        export enum Variant { Primary = "primary", Secondary = "secondary" }
+      `,
+      [path.resolve("/workspace/src/base.ts")]: `
+        import { Size } from "./types";
+        export class BaseButton {
+          @Input() baseSize: Size;
+        }
+      `,
+      [componentPath]: `
+        import { BaseButton } from "./base";
+        import { Size, Variant } from "./types";
+
+        @Component({ selector: "app-button", inputs: ["tone"] })
+        export class ButtonComponent extends BaseButton {
+          @Input() size: Size | undefined;
+          variant = input<Variant>(Variant.Primary);
+          tone: "light" | "dark";
+          @Input() label: string;
+          @Output() sized: EventEmitter<Size> = new EventEmitter();
+        }
+      `,
+    };
+
+    test("should resolve literal choices for inputs when a program is provided", () => {
+      const readFile = (p: string): string => files[path.resolve(p)] ?? "";
+      const program = createTypeCheckProgram(
+        "/workspace/src",
+        [componentPath],
+        readFile
+      );
+      const result = parseComponent(files[componentPath], {
+        filePath: componentPath,
+        readFile,
+        program,
+      });
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "size", type: "Size | undefined", choices: ["sm", "md", "lg"] },
+        { name: "variant", type: "Variant", choices: ["primary", "secondary"] },
+        { name: "label", type: "string" },
+        { name: "tone", type: '"light" | "dark"', choices: ["light", "dark"] },
+        { name: "baseSize", type: "Size", choices: ["sm", "md", "lg"] },
+      ]);
+      assert.deepStrictEqual(result.outputs, [{ name: "sized", type: "Size" }]);
+    });
+
+    test("should not resolve choices without a program", () => {
+      const result = parseComponent(
+        files[componentPath],
+        createContext(componentPath, files)
+      );
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs[0], {
+        name: "size",
+        type: "Size | undefined",
+      });
+    });
+  });
+
+  suite("metadata bindings", () => {
+    test("should extract string and object form bindings from metadata arrays", () => {
+      const metadataDirective = `
+        @Directive({
+          selector: "[appBadge]",
+          inputs: [
+            "color",
+            "size: appSize",
+            { name: "level", alias: "appLevel", required: true },
+            { name: "tone" },
+          ],
+          outputs: ["changed", "closed: dismissed"],
+        })
+        export class BadgeDirective {
+          color: string;
+          size: number;
+          changed = new EventEmitter<string>();
+        }
+      `;
+      const result = parseDirective(metadataDirective);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "color", type: "string" },
+        { name: "appSize", type: "number" },
+        { name: "appLevel", type: "any", required: true },
+        { name: "tone", type: "any" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "changed", type: "any" },
+        { name: "dismissed", type: "any" },
+      ]);
+    });
+
+    test("should de-duplicate metadata bindings declared on members", () => {
+      const duplicateComponent = `
+        @Component({
+          selector: "app-duplicate",
+          inputs: ["label", "hint: label", unknownBinding],
+          outputs: ["saved"],
+        })
+        export class DuplicateComponent {
+          @Input() label: string;
+          saved = output<boolean>();
+        }
+      `;
+      const result = parseComponent(duplicateComponent);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, [
+        { name: "label", type: "string" },
+      ]);
+      assert.deepStrictEqual(result.outputs, [
+        { name: "saved", type: "boolean" },
+      ]);
+    });
+
+    test("should ignore metadata bindings that are not array literals", () => {
+      const spreadComponent = `
+        @Component({ selector: "app-spread", inputs: sharedInputs })
+        export class SpreadComponent {}
+      `;
+      const result = parseComponent(spreadComponent);
+      assert.ok(result);
+      assert.deepStrictEqual(result.inputs, []);
+    });
+  });
+
   suite("parseDirective", () => {
     const mockDirectiveData = `
       @Directive({
@@ -318,6 +1434,12 @@ suite("parser", () => {
       kind: ArtifactKind.PIPE,
       className: "CurrencyFormatPipe",
       name: "currencyFormat",
+      signatures: [
+        [
+          { name: "value", type: "number" },
+          { name: "currency", type: "string" },
+        ],
+      ],
     };
 
     test("should parse pipe and return metadata matching expected structure", () => {
@@ -348,51 +1470,379 @@ suite("parser", () => {
       const pipe = parsePipe(mockPipeData);
       assert.strictEqual(pipe?.name, "currencyFormat");
     });
+
+    test("should read transform overloads, optional parameters and literal unions", () => {
+      const pipe = parsePipe(`
+        @Pipe({ name: "truncate" })
+        export class TruncatePipe {
+          transform(value: string, maxLength?: number, mode?: "end" | "middle"): string;
+          transform(value: null, strict: boolean): null;
+          transform(value: string | null, ...args: unknown[]): string | null {
+            return value;
+          }
+        }
+      `);
+      assert.deepStrictEqual(pipe?.signatures, [
+        [
+          { name: "value", type: "string" },
+          { name: "maxLength", type: "number", optional: true },
+          {
+            name: "mode",
+            type: '"end" | "middle"',
+            optional: true,
+            choices: ["end", "middle"],
+          },
+        ],
+        [
+          { name: "value", type: "null" },
+          { name: "strict", type: "boolean" },
+        ],
+      ]);
+    });
+
+    test("should treat defaulted parameters as optional and skip rest parameters", () => {
+      const pipe = parsePipe(`
+        @Pipe({ name: "join" })
+        export class JoinPipe {
+          transform({ items }, separator = ", ", ...rest) {
+            return items.join(separator);
+          }
+        }
+      `);
+      assert.deepStrictEqual(pipe?.signatures, [
+        [
+          { name: "arg", type: "any" },
+          { name: "separator", type: "any", optional: true },
+        ],
+      ]);
+    });
+
+    test("should omit signatures when the pipe has no transform method", () => {
+      const pipe = parsePipe(`
+        @Pipe({ name: "noop" })
+        export class NoopPipe {}
+      `);
+      assert.ok(pipe);
+      assert.strictEqual("signatures" in pipe, false);
+    });
   });
 
   suite("parseAngularFile", () => {
-    test("should detect and parse component", () => {
-      const componentCode = `
-        @Component({ selector: 'my-comp' })
-        export class MyComponent {}
-      `;
-      const result = parseAngularFile(componentCode);
-      assert.ok(result);
-      assert.strictEqual(result.kind, ArtifactKind.COMPONENT);
-    });
+    const cases: [string, ArtifactKind, string][] = [
+      [
+        "@Component({ selector: 'my-comp' }) export class MyComponent {}",
+        ArtifactKind.COMPONENT,
+        "component",
+      ],
+      [
+        "@Directive({ selector: '[myDir]' }) export class MyDirective {}",
+        ArtifactKind.DIRECTIVE,
+        "directive",
+      ],
+      [
+        "@Pipe({ name: 'myPipe' }) export class MyPipe {}",
+        ArtifactKind.PIPE,
+        "pipe",
+      ],
+    ];
 
-    test("should detect and parse directive", () => {
-      const directiveCode = `
-        @Directive({ selector: '[myDir]' })
-        export class MyDirective {}
-      `;
-      const result = parseAngularFile(directiveCode);
-      assert.ok(result);
-      assert.strictEqual(result.kind, ArtifactKind.DIRECTIVE);
+    cases.forEach(([code, kind, description]) => {
+      test(`should detect and parse ${description}`, () => {
+        const result = parseAngularFile(code);
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0].kind, kind);
+      });
     });
 
-    test("should detect and parse pipe", () => {
-      const pipeCode = `
-        @Pipe({ name: 'myPipe' })
-        export class MyPipe {}
+    test("should parse every Angular class declared in a file", () => {
+      const tableDirectives = `
+        class TableHelper {}
+
+        @Directive({ selector: '[appCell]' })
+        export class CellDirective {
+          @Input() appCell: string;
+        }
+
+        @Injectable()
+        export class TableService {}
+
+        @Component({ selector: 'app-table' })
+        export class TableComponent {}
+
+        @Pipe({ name: 'cellValue' })
+        export class CellValuePipe {}
       `;
-      const result = parseAngularFile(pipeCode);
-      assert.ok(result);
-      assert.strictEqual(result.kind, ArtifactKind.PIPE);
+      const result = parseAngularFile(tableDirectives);
+      assert.deepStrictEqual(
+        result.map((info) => [info.kind, info.className]),
+        [
+          [ArtifactKind.DIRECTIVE, "CellDirective"],
+          [ArtifactKind.COMPONENT, "TableComponent"],
+          [ArtifactKind.PIPE, "CellValuePipe"],
+        ]
+      );
     });
 
-    test("should return undefined for non-Angular class", () => {
+    test("should return empty array for non-Angular class", () => {
       const serviceCode = `
         @Injectable()
         export class MyService {}
       `;
-      const result = parseAngularFile(serviceCode);
-      assert.strictEqual(result, undefined);
+      assert.deepStrictEqual(parseAngularFile(serviceCode), []);
     });
 
-    test("should return undefined for empty string", () => {
-      const result = parseAngularFile("");
-      assert.strictEqual(result, undefined);
+    test("should return empty array for empty string", () => {
+      assert.deepStrictEqual(parseAngularFile(""), []);
+    });
+  });
+
+  suite("classes declared before the Angular artifact", () => {
+    const helperFirst = `
+      class Helper {}
+
+      @Directive({ selector: '[appHelped]' })
+      export class HelpedDirective {}
+
+      @Component({ selector: 'app-helped' })
+      export class HelpedComponent {}
+
+      @Pipe({ name: 'helped' })
+      export class HelpedPipe {}
+    `;
+
+    test("should find the component after a helper class", () => {
+      assert.strictEqual(
+        parseComponent(helperFirst)?.className,
+        "HelpedComponent"
+      );
+    });
+
+    test("should find the directive after a helper class", () => {
+      assert.strictEqual(
+        parseDirective(helperFirst)?.className,
+        "HelpedDirective"
+      );
+    });
+
+    test("should find the pipe after a helper class", () => {
+      assert.strictEqual(parsePipe(helperFirst)?.className, "HelpedPipe");
+    });
+  });
+
+  suite("parseDeclarationFile", () => {
+    const declarations = `
+      import { EventEmitter, TemplateRef } from "@angular/core";
+      import * as i0 from "@angular/core";
+
+      /** A Material-style button. */
+      export declare class MatButton {
+        /** Theme color of the button. */
+        color: "primary" | "accent" | "warn";
+        readonly size: i0.InputSignal<number>;
+        readonly value: i0.ModelSignal<string>;
+        readonly valueChange: i0.OutputEmitterRef<string>;
+        get disabled(): boolean;
+        set disabled(value: unknown);
+        readonly pressed: EventEmitter<MouseEvent>;
+        static ɵfac: i0.ɵɵFactoryDeclaration<MatButton, never>;
+        static ɵcmp: i0.ɵɵComponentDeclaration<MatButton, "button[mat-button], a[mat-button]", ["matButton"], { "color": { "alias": "color"; "required": false; }; "size": { "alias": "buttonSize"; "required": true; "isSignal": true; }; "value": { "alias": "value"; "required": false; "isSignal": true; }; "disabled": "disabled"; "inherited": { "alias": "inherited"; "required": false; }; }, { "pressed": "pressed"; "valueChange": "valueChange"; }, never, ["*", ".icon"], true, never>;
+      }
+
+      export declare class ListItemContext {
+        $implicit: string;
+        index: number;
+      }
+
+      export declare class ForList {
+        static ngTemplateContextGuard(dir: ForList, ctx: any): ctx is ListItemContext;
+        static ɵdir: i0.ɵɵDirectiveDeclaration<ForList, "[forList]", never, { "forListOf": { "alias": "forListOf"; "required": false; }; }, {}, never, never, true, never>;
+      }
+
+      export declare class TruncatePipe {
+        transform(value: string, limit?: number): string;
+        static ɵpipe: i0.ɵɵPipeDeclaration<TruncatePipe, "truncate", true>;
+      }
+
+      export declare class PlainService {
+        static ɵprov: i0.ɵɵInjectableDeclaration<PlainService>;
+      }
+    `;
+
+    test("should build component info from an Ivy component declaration", () => {
+      const [component] = parseDeclarationFile(declarations);
+      const expected: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "MatButton",
+        selector: "button[mat-button], a[mat-button]",
+        inputs: [
+          {
+            name: "color",
+            type: '"primary" | "accent" | "warn"',
+            description: "Theme color of the button.",
+            choices: ["primary", "accent", "warn"],
+          },
+          { name: "buttonSize", type: "number", required: true },
+          { name: "value", type: "string" },
+          { name: "disabled", type: "boolean" },
+          { name: "inherited", type: "any" },
+        ],
+        outputs: [
+          { name: "pressed", type: "MouseEvent" },
+          { name: "valueChange", type: "string" },
+        ],
+        twoWayBindings: ["value"],
+        exportAs: ["matButton"],
+        contentSlots: ["", ".icon"],
+        description: "A Material-style button.",
+      };
+      assert.deepStrictEqual(component, expected);
+    });
+
+    test("should detect structural directives and their template context", () => {
+      const directive = parseDeclarationFile(declarations)[1];
+      const expected: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "ForList",
+        selector: "[forList]",
+        inputs: [{ name: "forListOf", type: "any" }],
+        outputs: [],
+        structural: true,
+        templateContext: ["$implicit", "index"],
+      };
+      assert.deepStrictEqual(directive, expected);
+    });
+
+    test("should build pipe info with transform signatures", () => {
+      const pipe = parseDeclarationFile(declarations)[2];
+      const expected: PipeInfo = {
+        kind: ArtifactKind.PIPE,
+        className: "TruncatePipe",
+        name: "truncate",
+        signatures: [
+          [
+            { name: "value", type: "string" },
+            { name: "limit", type: "number", optional: true },
+          ],
+        ],
+      };
+      assert.deepStrictEqual(pipe, expected);
+    });
+
+    test("should skip classes without an Ivy declaration", () => {
+      assert.strictEqual(parseDeclarationFile(declarations).length, 3);
+    });
+
+    test("should honor @internal and @deprecated tags in declarations", () => {
+      const result = parseDeclarationFile(`
+        import * as i0 from "@angular/core";
+
+        export declare class Chip {
+          /** @deprecated Use \`color\`. */
+          tone: string;
+          /** @internal */
+          debug: boolean;
+          static ɵcmp: i0.ɵɵComponentDeclaration<Chip, "app-chip", never, { "tone": "tone"; "debug": "debug"; }, {}, never, never, true, never>;
+        }
+
+        /** @internal */
+        export declare class InternalChip {
+          static ɵcmp: i0.ɵɵComponentDeclaration<InternalChip, "app-internal-chip", never, {}, {}, never, never, true, never>;
+        }
+      `);
+      assert.deepStrictEqual(result, [
+        {
+          kind: ArtifactKind.COMPONENT,
+          className: "Chip",
+          selector: "app-chip",
+          inputs: [
+            { name: "tone", type: "string", deprecated: "Use `color`." },
+          ],
+          outputs: [],
+        },
+      ]);
+    });
+
+    test("should merge bindings inherited from base classes in other declaration files", () => {
+      const context = createContext("/lib/button/index.d.ts", {
+        [path.resolve("/lib/button/button-base.d.ts")]: `
+          import * as i0 from "@angular/core";
+          export declare class MatButtonBase {
+            /** Theme color of the button. */
+            color: string;
+            disabled: boolean;
+            readonly focused: i0.OutputEmitterRef<void>;
+            static ɵdir: i0.ɵɵDirectiveDeclaration<MatButtonBase, never, never, { "color": "color"; "disabled": "disabled"; }, { "focused": "focused"; }, never, never, true, never>;
+          }
+        `,
+      });
+      const [button] = parseDeclarationFile(
+        `
+          import * as i0 from "@angular/core";
+          import { MatButtonBase } from "./button-base";
+          export declare class MatButton extends MatButtonBase {
+            disabled: unknown;
+            static ɵcmp: i0.ɵɵComponentDeclaration<MatButton, "button[mat-button]", never, { "disabled": "disabled"; }, {}, never, ["*"], true, never>;
+          }
+        `,
+        context
+      );
+      assert.ok(button?.kind === ArtifactKind.COMPONENT);
+      assert.deepStrictEqual(button.inputs, [
+        { name: "disabled", type: "unknown" },
+        {
+          name: "color",
+          type: "string",
+          description: "Theme color of the button.",
+        },
+      ]);
+      assert.deepStrictEqual(button.outputs, [
+        { name: "focused", type: "void" },
+      ]);
+    });
+
+    test("should expose the bindings of declared host directives under their aliases", () => {
+      const context = createContext("/lib/menu/index.d.ts", {
+        [path.resolve("/lib/menu/tooltip.d.ts")]: `
+          import * as i0 from "@angular/core";
+          export declare class Tooltip {
+            message: string;
+            readonly shown: i0.OutputEmitterRef<boolean>;
+            static ɵdir: i0.ɵɵDirectiveDeclaration<Tooltip, "[tooltip]", never, { "message": "message"; }, { "shown": "shown"; }, never, never, true, never>;
+          }
+        `,
+      });
+      const [menu] = parseDeclarationFile(
+        `
+          import * as i0 from "@angular/core";
+          import * as i1 from "./tooltip";
+          import * as i2 from "@angular/cdk/menu";
+          export declare class Menu {
+            static ɵcmp: i0.ɵɵComponentDeclaration<Menu, "app-menu", never, {}, {}, never, never, true, [{ directive: typeof i1.Tooltip; inputs: { "message": "menuTooltip"; }; outputs: { "shown": "tooltipShown"; }; }, { directive: typeof i2.CdkMenuTrigger; inputs: { "cdkMenuTriggerFor": "menuFor"; }; outputs: {}; }]>;
+          }
+        `,
+        context
+      );
+      assert.ok(menu?.kind === ArtifactKind.COMPONENT);
+      assert.deepStrictEqual(menu.inputs, [
+        { name: "menuTooltip", type: "string" },
+        { name: "menuFor", type: "any" },
+      ]);
+      assert.deepStrictEqual(menu.outputs, [
+        { name: "tooltipShown", type: "boolean" },
+      ]);
+    });
+
+    test("should ignore decorated source classes", () => {
+      assert.deepStrictEqual(
+        parseDeclarationFile(
+          "@Component({ selector: 'app-a' }) export class A {}"
+        ),
+        []
+      );
+    });
+
+    test("should return an empty array for empty input", () => {
+      assert.deepStrictEqual(parseDeclarationFile(""), []);
     });
   });
 });
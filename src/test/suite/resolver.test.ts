@@ -0,0 +1,315 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert";
+import path from "node:path";
+
+import ts from "typescript";
+
+import { createSourceFileCache } from "../../files";
+import { createSourceFile } from "../../nodes";
+import {
+  findImport,
+  loadModule,
+  resolveBaseClass,
+  resolveClass,
+  resolveEntityClass,
+  resolveVariable,
+} from "../../resolver";
+import { ParseContext } from "../../types";
+
+/**
+ * Resolves a path below the virtual workspace root.
+ * @param segments - The path segments.
+ * @returns The absolute path.
+ */
+const ws = (...segments: string[]): string =>
+  path.resolve("/workspace", ...segments);
+
+/**
+ * Creates a parse context backed by an in-memory file map.
+ * @param filePath - The path of the file being parsed.
+ * @param files - Map of absolute file paths to contents.
+ * @returns The parse context.
+ */
+const createContext = (
+  filePath: string,
+  files: Record<string, string>
+): ParseContext => ({
+  filePath,
+  readFile: (p: string): string => files[path.resolve(p)] ?? "",
+});
+
+/**
+ * Parses source text as if it were read from a file.
+ * @param code - The source text.
+ * @param filePath - The file path.
+ * @returns The source file.
+ */
+const parse = (
+  code: string,
+  filePath = ws("src", "main.ts")
+): ts.SourceFile => {
+  const sourceCode = createSourceFile(code, filePath);
+  assert.ok(sourceCode);
+  return sourceCode;
+};
+
+suite("resolver", () => {
+  suite("findImport", () => {
+    const sourceCode = parse(`
+      import Default from "./default";
+      import { Named, Original as Renamed } from "./named";
+      import * as ns from "./namespace";
+      import "./side-effect";
+    `);
+
+    const cases: [string, string | undefined, string | undefined][] = [
+      ["Default", "./default", "default"],
+      ["Named", "./named", "Named"],
+      ["Renamed", "./named", "Original"],
+      ["ns", undefined, undefined],
+      ["Missing", undefined, undefined],
+    ];
+
+    cases.forEach(([localName, specifier, importedName]) => {
+      test(`should resolve import of ${localName}`, () => {
+        const result = findImport(sourceCode, localName);
+        assert.strictEqual(result?.specifier, specifier);
+        assert.strictEqual(result?.importedName, importedName);
+      });
+    });
+  });
+
+  suite("loadModule", () => {
+    test("should load the resolved module with its file name", () => {
+      const context = createContext(ws("src", "main.ts"), {
+        [ws("src", "base.ts")]: "export class Base {}",
+      });
+      const module = loadModule("./base", context.filePath, context);
+      assert.strictEqual(module?.fileName, ws("src", "base.ts"));
+    });
+
+    test("should reuse source files parsed earlier in the scan", () => {
+      const context: ParseContext = {
+        ...createContext(ws("src", "main.ts"), {
+          [ws("src", "base.ts")]: "export class Base {}",
+        }),
+        loadSourceFile: createSourceFileCache(),
+      };
+      const module = loadModule("./base", context.filePath, context);
+      assert.ok(module);
+      assert.strictEqual(
+        loadModule("./base", ws("src", "other.ts"), context),
+        module
+      );
+    });
+
+    test("should return undefined for an unresolved module", () => {
+      const context = createContext(ws("src", "main.ts"), {});
+      assert.strictEqual(
+        loadModule("./missing", context.filePath, context),
+        undefined
+      );
+    });
+  });
+
+  suite("resolveClass", () => {
+    const files: Record<string, string> = {
+      [ws("src", "local.ts")]: "export class Local {}",
+      [ws("src", "default.ts")]: "export default class DefaultBase {}",
+      [ws("src", "assigned.ts")]: "class Assigned {} export default Assigned;",
+      [ws("src", "renamed.ts")]: "class Inner {} export { Inner as Outer };",
+      [ws("src", "barrel", "index.ts")]: `
+        export * from "./star";
+        export { Original as Aliased } from "./named";
+      `,
+      [ws("src", "barrel", "star.ts")]: "export class Starred {}",
+      [ws("src", "barrel", "named.ts")]: "export class Original {}",
+      [ws("src", "hidden.ts")]: "class Hidden {}",
+    };
+    const sourceCode = parse(`
+      import { Local } from "./local";
+      import DefaultBase from "./default";
+      import Assigned from "./assigned";
+      import { Outer } from "./renamed";
+      import { Starred, Aliased } from "./barrel";
+      import { Hidden } from "./hidden";
+      class SameFile {}
+    `);
+    const context = createContext(sourceCode.fileName, files);
+
+    const cases: [string, string | undefined, string][] = [
+      ["SameFile", "SameFile", "class declared in the same file"],
+      ["Local", "Local", "named import"],
+      ["DefaultBase", "DefaultBase", "default exported class"],
+      ["Assigned", "Assigned", "export default assignment"],
+      ["Outer", "Inner", "renamed local export"],
+      ["Starred", "Starred", "star re-export from a barrel"],
+      ["Aliased", "Original", "renamed re-export from a barrel"],
+      ["Hidden", undefined, "class that is not exported"],
+      ["Unknown", undefined, "unknown name"],
+    ];
+
+    cases.forEach(([name, expected, description]) => {
+      test(`should resolve ${description}`, () => {
+        const result = resolveClass(name, sourceCode, context);
+        assert.strictEqual(result?.classNode.name?.text, expected);
+      });
+    });
+
+    test("should only resolve same-file classes without a context", () => {
+      assert.strictEqual(resolveClass("Local", sourceCode), undefined);
+      assert.ok(resolveClass("SameFile", sourceCode));
+    });
+
+    test("should stop following circular re-exports", () => {
+      const circular = createContext(ws("src", "main.ts"), {
+        [ws("src", "a.ts")]: 'export * from "./b";',
+        [ws("src", "b.ts")]: 'export * from "./a";',
+      });
+      const main = parse('import { Missing } from "./a";');
+      assert.strictEqual(resolveClass("Missing", main, circular), undefined);
+    });
+  });
+
+  suite("resolveEntityClass", () => {
+    const sourceCode = parse(`
+      import * as i1 from "./tooltip";
+      import { Named } from "./tooltip";
+      import * as pkg from "@angular/cdk/menu";
+      declare const t: typeof i1.Tooltip;
+      declare const n: typeof Named;
+      declare const m: typeof pkg.CdkMenu;
+      declare const u: typeof other.Tooltip;
+      declare const d: typeof i1.nested.Tooltip;
+    `);
+    const context = createContext(sourceCode.fileName, {
+      [ws("src", "tooltip.d.ts")]:
+        "export declare class Tooltip {} export declare class Named {}",
+    });
+
+    const cases: [string, string | undefined, string][] = [
+      ["t", "Tooltip", "namespace-qualified name"],
+      ["n", "Named", "plain name"],
+      ["m", undefined, "package namespace"],
+      ["u", undefined, "name that is not a namespace import"],
+      ["d", undefined, "deeply qualified name"],
+    ];
+
+    cases.forEach(([variable, expected, description]) => {
+      test(`should resolve ${description}`, () => {
+        const declaration = sourceCode.statements
+          .filter(ts.isVariableStatement)
+          .flatMap((statement) => statement.declarationList.declarations)
+          .find((d) => ts.isIdentifier(d.name) && d.name.text === variable);
+        assert.ok(declaration?.type && ts.isTypeQueryNode(declaration.type));
+        const result = resolveEntityClass(
+          declaration.type.exprName,
+          sourceCode,
+          context
+        );
+        assert.strictEqual(result?.classNode.name?.text, expected);
+      });
+    });
+
+    test("should not follow namespace imports without a context", () => {
+      const [statement] = parse(
+        'import * as i1 from "./tooltip"; declare const t: typeof i1.Tooltip;'
+      ).statements.filter(ts.isVariableStatement);
+      const [declaration] = statement.declarationList.declarations;
+      assert.ok(declaration.type && ts.isTypeQueryNode(declaration.type));
+      assert.strictEqual(
+        resolveEntityClass(declaration.type.exprName, sourceCode),
+        undefined
+      );
+    });
+  });
+
+  suite("resolveVariable", () => {
+    const files: Record<string, string> = {
+      [ws("src", "animations.ts")]: "export const fade = trigger('fade', []);",
+      [ws("src", "barrel", "index.ts")]:
+        'export { slide as moved } from "./slide";',
+      [ws("src", "barrel", "slide.ts")]:
+        "export const slide = trigger('slide', []);",
+      [ws("src", "private.ts")]: "const hidden = [];",
+    };
+    const sourceCode = parse(`
+      import { fade } from "./animations";
+      import { moved } from "./barrel";
+      import { hidden } from "./private";
+      const local = [fade];
+    `);
+    const context = createContext(sourceCode.fileName, files);
+
+    const cases: [string, string | undefined, string][] = [
+      ["local", "local", "variable declared in the same file"],
+      ["fade", "fade", "named import"],
+      ["moved", "slide", "renamed re-export from a barrel"],
+      ["hidden", undefined, "variable that is not exported"],
+      ["Unknown", undefined, "unknown name"],
+    ];
+
+    cases.forEach(([name, expected, description]) => {
+      test(`should resolve ${description}`, () => {
+        const result = resolveVariable(name, sourceCode, context);
+        const declared = result?.node.name;
+        assert.strictEqual(
+          declared && ts.isIdentifier(declared) ? declared.text : undefined,
+          expected
+        );
+      });
+    });
+
+    test("should not resolve classes as variables", () => {
+      const main = parse("class Local {}");
+      assert.strictEqual(resolveVariable("Local", main), undefined);
+    });
+  });
+
+  suite("resolveBaseClass", () => {
+    /**
+     * Finds the last class declared in a source file.
+     * @param sourceCode - The source file.
+     * @returns The class declaration.
+     */
+    const lastClass = (sourceCode: ts.SourceFile): ts.ClassDeclaration => {
+      const classes = sourceCode.statements.filter(ts.isClassDeclaration);
+      return classes[classes.length - 1];
+    };
+
+    const cases: [string, string | undefined, string][] = [
+      ["class Base {} class A extends Base {}", "Base", "same-file base"],
+      [
+        "class Base<T> {} class A extends Base<string> {}",
+        "Base",
+        "generic base",
+      ],
+      ["class A {}", undefined, "class without heritage"],
+      ["class A implements OnInit {}", undefined, "implements clause only"],
+      ["class A extends mixin(Base) {}", undefined, "mixin expression"],
+    ];
+
+    cases.forEach(([code, expected, description]) => {
+      test(`should resolve ${description}`, () => {
+        const sourceCode = parse(code);
+        const result = resolveBaseClass(lastClass(sourceCode), sourceCode);
+        assert.strictEqual(result?.classNode.name?.text, expected);
+      });
+    });
+  });
+});
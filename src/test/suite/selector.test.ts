@@ -0,0 +1,188 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert";
+
+import {
+  getSelectorPrefix,
+  hasSelectorTarget,
+  parseSelector,
+  selectorToAttributes,
+  stringifySelector,
+} from "../../selector";
+import { CssSelector } from "../../types";
+
+/**
+ * Creates a parsed selector with default empty fields.
+ * @param selector - The fields to set.
+ * @returns The parsed selector.
+ */
+const createSelector = (selector: Partial<CssSelector>): CssSelector => ({
+  element: "",
+  attributes: [],
+  classNames: [],
+  notSelectors: [],
+  ...selector,
+});
+
+suite("selector", () => {
+  suite("parseSelector", () => {
+    test("should parse an element selector", () => {
+      assert.deepStrictEqual(parseSelector("app-card"), [
+        createSelector({ element: "app-card" }),
+      ]);
+    });
+
+    test("should parse attribute selectors with and without values", () => {
+      assert.deepStrictEqual(
+        parseSelector(`input[type="text"][appMask][mode='strict']`),
+        [
+          createSelector({
+            element: "input",
+            attributes: [
+              { name: "type", value: "text" },
+              { name: "appMask", value: "" },
+              { name: "mode", value: "strict" },
+            ],
+          }),
+        ]
+      );
+    });
+
+    test("should parse class selectors and ignore ids", () => {
+      assert.deepStrictEqual(parseSelector("div.card.raised#main"), [
+        createSelector({ element: "div", classNames: ["card", "raised"] }),
+      ]);
+    });
+
+    test("should split comma-separated alternatives", () => {
+      assert.deepStrictEqual(
+        parseSelector("button[mat-button] ,  a[mat-button]"),
+        [
+          createSelector({
+            element: "button",
+            attributes: [{ name: "mat-button", value: "" }],
+          }),
+          createSelector({
+            element: "a",
+            attributes: [{ name: "mat-button", value: "" }],
+          }),
+        ]
+      );
+    });
+
+    test("should parse :not() negations", () => {
+      assert.deepStrictEqual(
+        parseSelector("[appFoo]:not(input[type=hidden])"),
+        [
+          createSelector({
+            attributes: [{ name: "appFoo", value: "" }],
+            notSelectors: [
+              createSelector({
+                element: "input",
+                attributes: [{ name: "type", value: "hidden" }],
+              }),
+            ],
+          }),
+        ]
+      );
+    });
+
+    test("should drop alternatives without a target", () => {
+      assert.deepStrictEqual(parseSelector(":not(a), [appFoo]"), [
+        createSelector({ attributes: [{ name: "appFoo", value: "" }] }),
+      ]);
+    });
+
+    test("should return empty array for empty selector", () => {
+      assert.deepStrictEqual(parseSelector(""), []);
+      assert.deepStrictEqual(parseSelector(), []);
+    });
+  });
+
+  suite("hasSelectorTarget", () => {
+    test("should return false for selectors with only negations", () => {
+      assert.strictEqual(
+        hasSelectorTarget(
+          createSelector({ notSelectors: [createSelector({ element: "a" })] })
+        ),
+        false
+      );
+    });
+
+    test("should return true for class selectors", () => {
+      assert.strictEqual(
+        hasSelectorTarget(createSelector({ classNames: ["card"] })),
+        true
+      );
+    });
+  });
+
+  suite("selectorToAttributes", () => {
+    test("should format attributes and classes as markup", () => {
+      const selector = createSelector({
+        element: "input",
+        attributes: [
+          { name: "appMask", value: "" },
+          { name: "type", value: "text" },
+        ],
+        classNames: ["wide", "dark"],
+      });
+      assert.strictEqual(
+        selectorToAttributes(selector),
+        'appMask type="text" class="wide dark"'
+      );
+    });
+
+    test("should return empty string for element-only selectors", () => {
+      assert.strictEqual(
+        selectorToAttributes(createSelector({ element: "app-card" })),
+        ""
+      );
+    });
+  });
+
+  suite("getSelectorPrefix", () => {
+    const cases: [string, string][] = [
+      ["app-card", "app-card"],
+      ["button[mat-button]", "mat-button"],
+      ["input[type=text][appMask]", "appMask"],
+      ["input[type=text]", "type"],
+      ["div.card", "card"],
+    ];
+
+    cases.forEach(([selector, expected]) => {
+      test(`should return ${expected} for ${selector}`, () => {
+        assert.strictEqual(
+          getSelectorPrefix(parseSelector(selector)[0]),
+          expected
+        );
+      });
+    });
+  });
+
+  suite("stringifySelector", () => {
+    test("should round-trip a parsed selector", () => {
+      const [selector] = parseSelector(
+        `input[type="text"][appMask].wide:not(.hidden)`
+      );
+      assert.strictEqual(
+        stringifySelector(selector),
+        "input[type=text][appMask].wide:not(.hidden)"
+      );
+    });
+  });
+});
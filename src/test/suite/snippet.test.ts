@@ -17,22 +17,42 @@
 /* eslint-disable @typescript-eslint/naming-convention */
 import assert from "node:assert";
 
-import { ArtifactKind } from "../../constants";
 import {
+  ArtifactKind,
+  DefaultInputPlacement,
+  DeprecatedBindingHandling,
+} from "../../constants";
+import {
+  arrangeInputs,
+  createAnimationSnippets,
+  createDescription,
   createDirectiveSnippet,
   createPipeSnippet,
   createSnippet,
   formatComponentName,
+  formatMicrosyntaxVariable,
+  formatPipeArgument,
+  formatPropertySummary,
+  formatReference,
+  formatTemplateVariable,
   formatToFunctionName,
+  getChoiceValues,
+  getPipeArgumentLists,
+  getTransformValues,
   getTypeValues,
+  omitDeprecatedBindings,
   propertyToAttribute,
   propertyToFunction,
+  propertyToStaticAttribute,
+  propertyToTwoWayBinding,
+  sortRequiredFirst,
 } from "../../snippet";
 import {
   ComponentInfo,
   DataType,
   DirectiveInfo,
   PipeInfo,
+  PipeParameter,
   Property,
 } from "../../types";
 
@@ -91,6 +111,157 @@ suite("snippet", () => {
     });
   });
 
+  suite("getTransformValues", () => {
+    const cases: [string | undefined, string, string][] = [
+      ["booleanAttribute", "|true,false|", "boolean attribute transform"],
+      ["numberAttribute", ":0", "number attribute transform"],
+      ["trimString", "", "custom transform"],
+      [undefined, "", "no transform"],
+    ];
+
+    cases.forEach(([transform, expected, description]) => {
+      test(`should return "${expected}" for ${description}`, () => {
+        assert.strictEqual(getTransformValues(transform), expected);
+      });
+    });
+  });
+
+  suite("getChoiceValues", () => {
+    test("should list string choices unquoted", () => {
+      assert.strictEqual(getChoiceValues(["sm", "md", "lg"]), "|sm,md,lg|");
+    });
+
+    test("should quote string choices mixed with other literals", () => {
+      assert.strictEqual(getChoiceValues(["auto", 1, true]), "|'auto',1,true|");
+    });
+
+    test("should escape commas, pipes and backslashes", () => {
+      assert.strictEqual(
+        getChoiceValues(["a,b", "c|d", "e\\f"]),
+        String.raw`|a\,b,c\|d,e\\f|`
+      );
+    });
+
+    test("should return empty string without choices", () => {
+      assert.strictEqual(getChoiceValues([]), "");
+      assert.strictEqual(getChoiceValues(), "");
+    });
+  });
+
+  suite("formatPropertySummary", () => {
+    const cases: [Property, string, string][] = [
+      [{ name: "label", type: DataType.STRING }, "- label: string", "plain"],
+      [{ name: "data", type: undefined }, "- data: any", "untyped"],
+      [
+        {
+          name: "size",
+          type: "Size",
+          required: true,
+          description: "The button size.",
+        },
+        "- size: Size (required) - The button size.",
+        "required and documented",
+      ],
+      [
+        { name: "size", type: "string", defaultValue: "'md'" },
+        "- size: string = 'md'",
+        "defaulted",
+      ],
+      [
+        {
+          name: "tone",
+          type: "string",
+          description: "The tone.",
+          deprecated: "Use color instead.",
+        },
+        "- tone: string ⚠ Deprecated: Use color instead. - The tone.",
+        "deprecated",
+      ],
+      [
+        { name: "tone", type: "string", deprecated: "" },
+        "- tone: string ⚠ Deprecated",
+        "deprecated without a note",
+      ],
+    ];
+
+    cases.forEach(([property, expected, description]) => {
+      test(`should format ${description} bindings`, () => {
+        assert.strictEqual(formatPropertySummary(property), expected);
+      });
+    });
+  });
+
+  suite("createDescription", () => {
+    test("should list required inputs first, then outputs", () => {
+      const description = createDescription(
+        "A card.",
+        [
+          { name: "title", type: DataType.STRING },
+          { name: "id", type: DataType.NUMBER, required: true },
+        ],
+        [{ name: "closed", type: undefined, description: "Emits on close." }]
+      );
+      assert.strictEqual(
+        description,
+        [
+          "A card.",
+          "",
+          "Inputs:",
+          "- id: number (required)",
+          "- title: string",
+          "Outputs:",
+          "- closed: any - Emits on close.",
+        ].join("\n")
+      );
+    });
+
+    test("should return the summary alone without bindings", () => {
+      assert.strictEqual(createDescription("A card."), "A card.");
+      assert.strictEqual(
+        createDescription("A card.", [{ name: "", type: undefined }], []),
+        "A card."
+      );
+    });
+  });
+
+  suite("sortRequiredFirst", () => {
+    test("should move required properties first and keep declaration order", () => {
+      const properties: Property[] = [
+        { name: "a", type: DataType.STRING },
+        { name: "b", type: DataType.STRING, required: true },
+        { name: "c", type: DataType.STRING },
+        { name: "d", type: DataType.STRING, required: true },
+      ];
+      assert.deepStrictEqual(
+        sortRequiredFirst(properties).map((p) => p.name),
+        ["b", "d", "a", "c"]
+      );
+    });
+  });
+
+  suite("arrangeInputs", () => {
+    const inputs: Property[] = [
+      { name: "size", type: DataType.STRING, defaultValue: "'md'" },
+      { name: "label", type: DataType.STRING },
+      { name: "id", type: DataType.STRING, required: true },
+    ];
+    const cases: [DefaultInputPlacement | undefined, string[]][] = [
+      [undefined, ["id", "size", "label"]],
+      [DefaultInputPlacement.INCLUDE, ["id", "size", "label"]],
+      [DefaultInputPlacement.LAST, ["id", "label", "size"]],
+      [DefaultInputPlacement.OMIT, ["id", "label"]],
+    ];
+
+    cases.forEach(([placement, expected]) => {
+      test(`should arrange inputs for ${placement ?? "default"} placement`, () => {
+        assert.deepStrictEqual(
+          arrangeInputs(inputs, placement).map((p) => p.name),
+          expected
+        );
+      });
+    });
+  });
+
   suite("propertyToAttribute", () => {
     const cases: [Property, number, string, string][] = [
       [
@@ -112,6 +283,70 @@ suite("snippet", () => {
         "number property",
       ],
       [{ name: "data", type: undefined }, 4, '  [data]="$4"', "undefined type"],
+      [
+        { name: "open", type: DataType.ANY, transform: "booleanAttribute" },
+        5,
+        '  [open]="${5|true,false|}"',
+        "booleanAttribute transform",
+      ],
+      [
+        { name: "max", type: DataType.ANY, transform: "numberAttribute" },
+        6,
+        '  [max]="${6:0}"',
+        "numberAttribute transform",
+      ],
+      [
+        { name: "size", type: "Size", choices: ["sm", "md", "lg"] },
+        7,
+        `  [size]="'\${7|sm,md,lg|}'"`,
+        "string-literal choices",
+      ],
+      [
+        { name: "level", type: "Level", choices: [0, 1] },
+        8,
+        '  [level]="${8|0,1|}"',
+        "numeric choices",
+      ],
+      [
+        {
+          name: "hidden",
+          type: "Visibility",
+          transform: "booleanAttribute",
+          choices: ["yes"],
+        },
+        9,
+        '  [hidden]="${9|true,false|}"',
+        "transform over choices",
+      ],
+      [
+        { name: "size", type: DataType.STRING, defaultValue: "'md'" },
+        10,
+        `  [size]="\${10:'md'}"`,
+        "default value placeholder",
+      ],
+      [
+        { name: "price", type: DataType.STRING, defaultValue: "'$5 {x}'" },
+        11,
+        "  [price]=\"${11:'\\$5 {x\\}'}\"",
+        "escaped default value placeholder",
+      ],
+      [
+        { name: "open", type: DataType.BOOLEAN, defaultValue: "true" },
+        12,
+        '  [open]="${12|true,false|}"',
+        "boolean choices over default value",
+      ],
+      [
+        {
+          name: "size",
+          type: DataType.ANY,
+          transform: "numberAttribute",
+          defaultValue: "5",
+        },
+        13,
+        '  [size]="${13:5}"',
+        "default value over numberAttribute placeholder",
+      ],
     ];
 
     cases.forEach(([property, index, expected, description]) => {
@@ -150,6 +385,288 @@ suite("snippet", () => {
     });
   });
 
+  suite("formatReference", () => {
+    test("should format a template reference variable tab stop", () => {
+      assert.strictEqual(
+        formatReference("appDropdown", 1),
+        '  #${1:ref}="appDropdown"'
+      );
+    });
+  });
+
+  suite("formatMicrosyntaxVariable", () => {
+    test("should bind the implicit context without a key", () => {
+      assert.strictEqual(
+        formatMicrosyntaxVariable("$implicit", 2),
+        "let ${2:value}"
+      );
+    });
+
+    test("should bind named context keys", () => {
+      assert.strictEqual(
+        formatMicrosyntaxVariable("index", 3),
+        "let ${3:index} = index"
+      );
+    });
+  });
+
+  suite("formatTemplateVariable", () => {
+    test("should bind the implicit context without a value", () => {
+      assert.strictEqual(
+        formatTemplateVariable("$implicit", 2),
+        "  let-${2:value}"
+      );
+    });
+
+    test("should bind named context keys", () => {
+      assert.strictEqual(
+        formatTemplateVariable("index", 3),
+        '  let-${3:index}="index"'
+      );
+    });
+  });
+
+  suite("propertyToStaticAttribute", () => {
+    test("should format a plain attribute", () => {
+      assert.strictEqual(
+        propertyToStaticAttribute({ name: "type", type: DataType.STRING }, 3),
+        '  type="$3"'
+      );
+    });
+  });
+
+  suite("static attributes", () => {
+    const component: ComponentInfo = {
+      kind: ArtifactKind.COMPONENT,
+      className: "InputComponent",
+      selector: "app-input",
+      inputs: [{ name: "value", type: DataType.STRING }],
+      outputs: [{ name: "changed", type: DataType.STRING }],
+      attributes: [
+        { name: "autocomplete", type: DataType.STRING },
+        { name: "type", type: DataType.STRING, required: true },
+      ],
+    };
+
+    test("should write required attributes first, before the bindings", () => {
+      const result = createSnippet(component);
+      assert.deepStrictEqual(result?.["App Input"].body, [
+        "<app-input ",
+        '  type="$1"',
+        '  autocomplete="$2"',
+        '  [value]="$3"',
+        '  (changed)="$4:onChanged($event)"',
+        "></app-input>",
+        "$5",
+      ]);
+    });
+
+    test("should summarize attributes in the description", () => {
+      assert.strictEqual(
+        createSnippet(component)?.["App Input"].description,
+        [
+          "A code snippet for Input Component.",
+          "",
+          "Attributes:",
+          "- type: string (required)",
+          "- autocomplete: string",
+          "Inputs:",
+          "- value: string",
+          "Outputs:",
+          "- changed: string",
+        ].join("\n")
+      );
+    });
+
+    test("should add attributes after an attribute directive's selector", () => {
+      const result = createDirectiveSnippet({
+        kind: ArtifactKind.DIRECTIVE,
+        className: "IconDirective",
+        selector: "[appIcon]",
+        inputs: [],
+        outputs: [],
+        attributes: [{ name: "icon", type: DataType.STRING }],
+      });
+      assert.deepStrictEqual(result?.["Icon Directive Directive"].body, [
+        "appIcon",
+        '  icon="$1"',
+        "$2",
+      ]);
+    });
+  });
+
+  suite("omitDeprecatedBindings", () => {
+    const directive: DirectiveInfo = {
+      kind: ArtifactKind.DIRECTIVE,
+      className: "ToneDirective",
+      selector: "[appTone]",
+      inputs: [
+        { name: "tone", type: DataType.STRING, deprecated: "" },
+        { name: "color", type: DataType.STRING },
+      ],
+      outputs: [{ name: "changed", type: DataType.STRING, deprecated: "" }],
+      attributes: [{ name: "variant", type: DataType.STRING, deprecated: "" }],
+    };
+
+    test("should keep deprecated bindings by default", () => {
+      assert.strictEqual(omitDeprecatedBindings(directive), directive);
+      assert.strictEqual(
+        omitDeprecatedBindings(directive, {
+          deprecatedBindings: DeprecatedBindingHandling.WARN,
+        }),
+        directive
+      );
+    });
+
+    test("should remove deprecated bindings when omitted", () => {
+      assert.deepStrictEqual(
+        omitDeprecatedBindings(directive, {
+          deprecatedBindings: DeprecatedBindingHandling.OMIT,
+        }),
+        {
+          ...directive,
+          inputs: [{ name: "color", type: DataType.STRING }],
+          outputs: [],
+          attributes: [],
+        }
+      );
+    });
+
+    test("should drop two-way bindings whose input or output was omitted", () => {
+      const model: DirectiveInfo = {
+        ...directive,
+        inputs: [
+          { name: "value", type: DataType.STRING },
+          { name: "checked", type: DataType.BOOLEAN, deprecated: "" },
+          { name: "open", type: DataType.BOOLEAN },
+        ],
+        outputs: [
+          { name: "valueChange", type: DataType.STRING, deprecated: "" },
+          { name: "checkedChange", type: DataType.BOOLEAN },
+          { name: "openChange", type: DataType.BOOLEAN },
+        ],
+        twoWayBindings: ["value", "checked", "open"],
+        attributes: undefined,
+      };
+      const options = { deprecatedBindings: DeprecatedBindingHandling.OMIT };
+      assert.deepStrictEqual(
+        omitDeprecatedBindings(model, options).twoWayBindings,
+        ["open"]
+      );
+      assert.deepStrictEqual(
+        createSnippet(model, options)?.["Tone Directive Directive"].body,
+        [
+          "appTone",
+          '  [value]="$1"',
+          '  [(open)]="$2"',
+          '  (checkedChange)="$3:onCheckedChange($event)"',
+          "$4",
+        ]
+      );
+    });
+
+    test("should leave snippets free of omitted bindings", () => {
+      const result = createSnippet(directive, {
+        deprecatedBindings: DeprecatedBindingHandling.OMIT,
+      });
+      assert.deepStrictEqual(result?.["Tone Directive Directive"].body, [
+        "appTone",
+        '  [color]="$1"',
+        "$2",
+      ]);
+      assert.deepStrictEqual(
+        createSnippet(
+          {
+            kind: ArtifactKind.COMPONENT,
+            className: "ToneComponent",
+            selector: "app-tone",
+            inputs: directive.inputs,
+            outputs: [],
+          },
+          { deprecatedBindings: DeprecatedBindingHandling.OMIT }
+        )?.["App Tone"].description,
+        "A code snippet for Tone Component.\n\nInputs:\n- color: string"
+      );
+    });
+  });
+
+  suite("createAnimationSnippets", () => {
+    const component: ComponentInfo = {
+      kind: ArtifactKind.COMPONENT,
+      className: "PanelComponent",
+      selector: "app-panel",
+      inputs: [],
+      outputs: [],
+      animationTriggers: ["expand"],
+    };
+
+    test("should create binding and done callback snippets per trigger", () => {
+      assert.deepStrictEqual(createAnimationSnippets(component), {
+        "Panel Component [@expand]": {
+          body: ['[@expand]="$1"'],
+          description: "Binds the expand animation trigger of Panel Component.",
+          prefix: ["@expand", "[@expand]"],
+          scope: "html",
+        },
+        "Panel Component (@expand.done)": {
+          body: ['(@expand.done)="$1:onExpandDone($event)"'],
+          description:
+            "Handles the end of the expand animation of Panel Component.",
+          prefix: ["@expand.done", "(@expand.done)"],
+          scope: "html",
+        },
+      });
+    });
+
+    test("should limit the snippets to the included files", () => {
+      const result = createAnimationSnippets(component, {
+        include: ["**/panel/**"],
+      });
+      assert.deepStrictEqual(result["Panel Component [@expand]"].include, [
+        "**/panel/**",
+      ]);
+      assert.deepStrictEqual(result["Panel Component (@expand.done)"].include, [
+        "**/panel/**",
+      ]);
+    });
+
+    test("should only scope the animation snippets to the included files", () => {
+      const result = createSnippet(component, { include: ["**/panel/**"] });
+      assert.ok(result);
+      assert.deepStrictEqual(
+        Object.entries(result)
+          .filter(([, snippet]) => snippet.include)
+          .map(([title]) => title),
+        ["Panel Component [@expand]", "Panel Component (@expand.done)"]
+      );
+    });
+
+    test("should return no snippets without triggers", () => {
+      assert.deepStrictEqual(
+        createAnimationSnippets({ ...component, animationTriggers: undefined }),
+        {}
+      );
+    });
+
+    test("should add the animation snippets to the component snippet", () => {
+      const result = createSnippet(component);
+      assert.deepStrictEqual(Object.keys(result ?? {}), [
+        "App Panel",
+        "Panel Component [@expand]",
+        "Panel Component (@expand.done)",
+      ]);
+    });
+  });
+
+  suite("propertyToTwoWayBinding", () => {
+    test("should format a banana-in-a-box binding", () => {
+      assert.strictEqual(
+        propertyToTwoWayBinding({ name: "value", type: DataType.STRING }, 2),
+        '  [(value)]="$2"'
+      );
+    });
+  });
+
   suite("createSnippet", () => {
     const mockComponentInfo: Readonly<ComponentInfo> = {
       kind: ArtifactKind.COMPONENT,
@@ -186,13 +703,45 @@ suite("snippet", () => {
             "></save-cancel-button>",
             "$9",
           ],
-          description: "A code snippet for Save Cancel Button Component.",
+          description: [
+            "A code snippet for Save Cancel Button Component.",
+            "",
+            "Inputs:",
+            "- label: string",
+            "- disabled: boolean",
+            "- icon: string",
+            "- color: Color",
+            "- tooltip: string|undefined",
+            "Outputs:",
+            "- cancel: boolean",
+            "- save: any",
+            "- draft: any",
+          ].join("\n"),
           prefix: ["save-cancel-button"],
           scope: "html",
         },
       });
     });
 
+    test("should place required inputs before optional inputs", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "FieldComponent",
+        selector: "app-field",
+        inputs: [
+          { name: "hint", type: DataType.STRING },
+          { name: "label", type: DataType.STRING, required: true },
+        ],
+        outputs: [],
+      };
+      const result = createSnippet(component);
+      assert.ok(result);
+      assert.deepStrictEqual(result["App Field"].body.slice(1, 3), [
+        '  [label]="$1"',
+        '  [hint]="$2"',
+      ]);
+    });
+
     test("should create snippet for component with only inputs", () => {
       const component: ComponentInfo = {
         kind: ArtifactKind.COMPONENT,
@@ -219,6 +768,194 @@ suite("snippet", () => {
       assert.strictEqual(result["Clicker"].body.length, 4);
     });
 
+    test("should create a snippet per selector alternative", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "MatButtonComponent",
+        selector: "button[mat-button], a[mat-button]",
+        inputs: [{ name: "color", type: DataType.STRING }],
+        outputs: [],
+      };
+      assert.deepStrictEqual(createSnippet(component), {
+        "Mat Button (button[mat-button])": {
+          body: ["<button mat-button ", '  [color]="$1"', "></button>", "$2"],
+          description:
+            "A code snippet for Mat Button Component.\n\nInputs:\n- color: string",
+          prefix: ["mat-button"],
+          scope: "html",
+        },
+        "Mat Button (a[mat-button])": {
+          body: ["<a mat-button ", '  [color]="$1"', "></a>", "$2"],
+          description:
+            "A code snippet for Mat Button Component.\n\nInputs:\n- color: string",
+          prefix: ["mat-button"],
+          scope: "html",
+        },
+      });
+    });
+
+    test("should add tab stops for content projection slots", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "CardComponent",
+        selector: "app-card",
+        inputs: [{ name: "title", type: DataType.STRING }],
+        outputs: [{ name: "closed", type: undefined }],
+        contentSlots: ["[card-header]", "", "app-card-footer, .footer"],
+      };
+      assert.deepStrictEqual(createSnippet(component)?.["App Card"].body, [
+        "<app-card ",
+        '  [title]="$1"',
+        '  (closed)="$2:onClosed($event)"',
+        ">",
+        "  <div card-header>$3</div>",
+        "  <app-card-footer>$4</app-card-footer>",
+        "  $5",
+        "</app-card>",
+        "$6",
+      ]);
+    });
+
+    test("should use a div host for attribute-only component selectors", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "CardComponent",
+        selector: "[app-card].elevated:not(a)",
+        inputs: [],
+        outputs: [],
+      };
+      assert.deepStrictEqual(createSnippet(component)?.["App Card"].body, [
+        '<div app-card class="elevated" ',
+        "></div>",
+        "$1",
+      ]);
+    });
+
+    test("should apply the default input placement option", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "ButtonComponent",
+        selector: "app-button",
+        inputs: [
+          { name: "size", type: DataType.STRING, defaultValue: "'md'" },
+          { name: "label", type: DataType.STRING },
+        ],
+        outputs: [],
+      };
+      assert.deepStrictEqual(
+        createSnippet(component, {
+          inputsWithDefaults: DefaultInputPlacement.LAST,
+        })?.["App Button"].body,
+        [
+          "<app-button ",
+          '  [label]="$1"',
+          "  [size]=\"${2:'md'}\"",
+          "></app-button>",
+          "$3",
+        ]
+      );
+      assert.deepStrictEqual(
+        createSnippet(component, {
+          inputsWithDefaults: DefaultInputPlacement.OMIT,
+        })?.["App Button"].body,
+        ["<app-button ", '  [label]="$1"', "></app-button>", "$2"]
+      );
+    });
+
+    test("should use the class JSDoc as the description summary", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "CardComponent",
+        selector: "app-card",
+        inputs: [],
+        outputs: [],
+        description: "Displays content in a card.",
+      };
+      assert.strictEqual(
+        createSnippet(component)?.["App Card"].description,
+        "Displays content in a card."
+      );
+    });
+
+    test("should combine two-way bindings into a single binding", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "ToggleComponent",
+        selector: "app-toggle",
+        inputs: [
+          { name: "label", type: DataType.STRING },
+          { name: "checked", type: DataType.BOOLEAN },
+        ],
+        outputs: [
+          { name: "checkedChange", type: DataType.BOOLEAN },
+          { name: "toggled", type: DataType.BOOLEAN },
+        ],
+        twoWayBindings: ["checked"],
+      };
+      assert.deepStrictEqual(createSnippet(component)?.["App Toggle"].body, [
+        "<app-toggle ",
+        '  [label]="$1"',
+        '  [(checked)]="$2"',
+        '  (toggled)="$3:onToggled($event)"',
+        "></app-toggle>",
+        "$4",
+      ]);
+    });
+
+    test("should add a split binding variant when enabled", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "ToggleComponent",
+        selector: "app-toggle",
+        inputs: [{ name: "checked", type: DataType.BOOLEAN }],
+        outputs: [{ name: "checkedChange", type: DataType.BOOLEAN }],
+        twoWayBindings: ["checked"],
+      };
+      const result = createSnippet(component, { splitBindingVariant: true });
+      assert.ok(result);
+      assert.deepStrictEqual(Object.keys(result), [
+        "App Toggle",
+        "App Toggle (split bindings)",
+      ]);
+      assert.deepStrictEqual(result["App Toggle"].body, [
+        "<app-toggle ",
+        '  [(checked)]="$1"',
+        "></app-toggle>",
+        "$2",
+      ]);
+      assert.deepStrictEqual(result["App Toggle (split bindings)"].body, [
+        "<app-toggle ",
+        '  [checked]="${1|true,false|}"',
+        '  (checkedChange)="$2:onCheckedChange($event)"',
+        "></app-toggle>",
+        "$3",
+      ]);
+    });
+
+    test("should keep the Change output when its input is omitted", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "ToggleComponent",
+        selector: "app-toggle",
+        inputs: [
+          { name: "checked", type: DataType.BOOLEAN, defaultValue: "false" },
+        ],
+        outputs: [{ name: "checkedChange", type: DataType.BOOLEAN }],
+        twoWayBindings: ["checked"],
+      };
+      assert.deepStrictEqual(
+        createSnippet(component, {
+          inputsWithDefaults: DefaultInputPlacement.OMIT,
+        })?.["App Toggle"].body,
+        [
+          "<app-toggle ",
+          '  (checkedChange)="$1:onCheckedChange($event)"',
+          "></app-toggle>",
+          "$2",
+        ]
+      );
+    });
+
     test("should return undefined for component without selector", () => {
       const component: ComponentInfo = {
         kind: ArtifactKind.COMPONENT,
@@ -255,7 +992,15 @@ suite("snippet", () => {
             '  (highlighted)="$3:onHighlighted($event)"',
             "$4",
           ],
-          description: "A directive snippet for Highlight Directive.",
+          description: [
+            "A directive snippet for Highlight Directive.",
+            "",
+            "Inputs:",
+            "- appHighlight: string",
+            "- highlightColor: string",
+            "Outputs:",
+            "- highlighted: boolean",
+          ].join("\n"),
           prefix: ["appHighlight"],
           scope: "html",
         },
@@ -275,6 +1020,190 @@ suite("snippet", () => {
       assert.strictEqual(result["Tooltip Directive Directive"].body.length, 3);
     });
 
+    test("should write out the element for element selectors", () => {
+      const directive: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "MaskDirective",
+        selector: "input[type=text][appMask], [appMask]",
+        inputs: [{ name: "appMask", type: DataType.STRING }],
+        outputs: [],
+      };
+      assert.deepStrictEqual(createDirectiveSnippet(directive), {
+        "Mask Directive Directive (input[type=text][appMask])": {
+          body: ['<input type="text" appMask ', '  [appMask]="$1"', "/>", "$2"],
+          description:
+            "A directive snippet for Mask Directive.\n\nInputs:\n- appMask: string",
+          prefix: ["appMask"],
+          scope: "html",
+        },
+        "Mask Directive Directive ([appMask])": {
+          body: ["appMask", '  [appMask]="$1"', "$2"],
+          description:
+            "A directive snippet for Mask Directive.\n\nInputs:\n- appMask: string",
+          prefix: ["appMask"],
+          scope: "html",
+        },
+      });
+    });
+
+    test("should write two-way bindings for directives", () => {
+      const directive: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "ExpandDirective",
+        selector: "[appExpand]",
+        inputs: [{ name: "expanded", type: DataType.BOOLEAN }],
+        outputs: [{ name: "expandedChange", type: DataType.BOOLEAN }],
+        twoWayBindings: ["expanded"],
+      };
+      const result = createDirectiveSnippet(directive, {
+        splitBindingVariant: true,
+      });
+      assert.ok(result);
+      assert.deepStrictEqual(result["Expand Directive Directive"].body, [
+        "appExpand",
+        '  [(expanded)]="$1"',
+        "$2",
+      ]);
+      assert.strictEqual(
+        result["Expand Directive Directive (split bindings)"].body.length,
+        4
+      );
+    });
+
+    test("should add a template reference variant for each export name", () => {
+      const directive: DirectiveInfo = {
+        ...mockDirectiveInfo,
+        exportAs: ["appHighlight", "highlight"],
+      };
+      const result = createDirectiveSnippet(directive);
+      assert.ok(result);
+      assert.deepStrictEqual(Object.keys(result), [
+        "Highlight Directive Directive",
+        "Highlight Directive Directive (#appHighlight)",
+        "Highlight Directive Directive (#highlight)",
+      ]);
+      assert.deepStrictEqual(
+        result["Highlight Directive Directive (#appHighlight)"].body,
+        [
+          "appHighlight",
+          '  #${1:ref}="appHighlight"',
+          '  [appHighlight]="$2"',
+          '  [highlightColor]="$3"',
+          '  (highlighted)="$4:onHighlighted($event)"',
+          "$5",
+        ]
+      );
+    });
+
+    test("should add a template reference variant for components", () => {
+      const component: ComponentInfo = {
+        kind: ArtifactKind.COMPONENT,
+        className: "MenuComponent",
+        selector: "app-menu",
+        inputs: [],
+        outputs: [],
+        exportAs: ["appMenu"],
+      };
+      assert.deepStrictEqual(
+        createSnippet(component)?.["App Menu (#appMenu)"].body,
+        ["<app-menu ", '  #${1:ref}="appMenu"', "></app-menu>", "$2"]
+      );
+    });
+
+    test("should not add a split variant without two-way bindings", () => {
+      const result = createDirectiveSnippet(mockDirectiveInfo, {
+        splitBindingVariant: true,
+      });
+      assert.ok(result);
+      assert.deepStrictEqual(Object.keys(result), [
+        "Highlight Directive Directive",
+      ]);
+    });
+
+    test("should create microsyntax and ng-template snippets for structural directives", () => {
+      const directive: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "IfRoleDirective",
+        selector: "[appIfRole]",
+        inputs: [
+          { name: "appIfRole", type: DataType.STRING },
+          { name: "appIfRoleElse", type: "TemplateRef<unknown>" },
+        ],
+        outputs: [],
+        structural: true,
+        templateContext: ["$implicit", "role"],
+      };
+      const result = createDirectiveSnippet(directive);
+      assert.ok(result);
+      assert.deepStrictEqual(result["If Role Directive Directive"], {
+        body: [
+          '*appIfRole="$1; else: $2; let ${3:value}; let ${4:role} = role"',
+          "$5",
+        ],
+        description: [
+          "A directive snippet for If Role Directive.",
+          "",
+          "Inputs:",
+          "- appIfRole: string",
+          "- appIfRoleElse: TemplateRef<unknown>",
+        ].join("\n"),
+        prefix: ["appIfRole", "*appIfRole"],
+        scope: "html",
+      });
+      assert.deepStrictEqual(
+        result["If Role Directive Directive (ng-template)"].body,
+        [
+          "<ng-template appIfRole ",
+          '  [appIfRole]="$1"',
+          '  [appIfRoleElse]="$2"',
+          "  let-${3:value}",
+          '  let-${4:role}="role"',
+          ">",
+          "  $5",
+          "</ng-template>",
+          "$6",
+        ]
+      );
+    });
+
+    test("should write a bare microsyntax attribute without inputs or context", () => {
+      const directive: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "OnceDirective",
+        selector: "[appOnce]",
+        inputs: [],
+        outputs: [],
+        structural: true,
+      };
+      assert.deepStrictEqual(
+        createDirectiveSnippet(directive)?.["Once Directive Directive"].body,
+        ["*appOnce", "$1"]
+      );
+    });
+
+    test("should return undefined for structural directive without selector", () => {
+      const directive: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "OnceDirective",
+        selector: "",
+        inputs: [],
+        outputs: [],
+        structural: true,
+      };
+      assert.strictEqual(createDirectiveSnippet(directive), undefined);
+    });
+
+    test("should return undefined for directive with only negated selectors", () => {
+      const directive: DirectiveInfo = {
+        kind: ArtifactKind.DIRECTIVE,
+        className: "TestDirective",
+        selector: ":not(a)",
+        inputs: [],
+        outputs: [],
+      };
+      assert.strictEqual(createDirectiveSnippet(directive), undefined);
+    });
+
     test("should return undefined for directive without selector", () => {
       const directive: DirectiveInfo = {
         kind: ArtifactKind.DIRECTIVE,
@@ -288,6 +1217,44 @@ suite("snippet", () => {
     });
   });
 
+  suite("getPipeArgumentLists", () => {
+    test("should offer a list per number of optional arguments", () => {
+      const value = { name: "value", type: DataType.STRING };
+      const length = { name: "length", type: DataType.NUMBER, optional: true };
+      const suffix = { name: "suffix", type: DataType.STRING, optional: true };
+      assert.deepStrictEqual(
+        getPipeArgumentLists([[value, length, suffix], [value]]),
+        [[value], [value, length], [value, length, suffix]]
+      );
+    });
+  });
+
+  suite("formatPipeArgument", () => {
+    const cases: [PipeParameter, string, string][] = [
+      [{ name: "maxLength", type: DataType.NUMBER }, "${2:maxLength}", "plain"],
+      [
+        { name: "strict", type: DataType.BOOLEAN },
+        "${2|true,false|}",
+        "boolean",
+      ],
+      [
+        { name: "mode", type: "Mode", choices: ["end", "middle"] },
+        "'${2|end,middle|}'",
+        "string choices",
+      ],
+      [
+        { name: "size", type: "Size", choices: [1, "md"] },
+        "${2|1,'md'|}",
+        "mixed choices",
+      ],
+    ];
+    cases.forEach(([parameter, expected, desc]) => {
+      test(`should format ${desc} arguments`, () => {
+        assert.strictEqual(formatPipeArgument(parameter, 2), expected);
+      });
+    });
+  });
+
   suite("createPipeSnippet", () => {
     const mockPipeInfo: Readonly<PipeInfo> = {
       kind: ArtifactKind.PIPE,
@@ -307,6 +1274,51 @@ suite("snippet", () => {
       });
     });
 
+    test("should create a snippet per argument list of the transform signatures", () => {
+      const pipe: PipeInfo = {
+        kind: ArtifactKind.PIPE,
+        className: "TruncatePipe",
+        name: "truncate",
+        signatures: [
+          [
+            { name: "value", type: DataType.STRING },
+            { name: "maxLength", type: DataType.NUMBER },
+            {
+              name: "mode",
+              type: "'end' | 'middle'",
+              optional: true,
+              choices: ["end", "middle"],
+            },
+          ],
+        ],
+      };
+      const result = createPipeSnippet(pipe);
+      assert.ok(result);
+      assert.deepStrictEqual(Object.keys(result), [
+        "Truncate Pipe Pipe",
+        "Truncate Pipe Pipe (maxLength, mode)",
+      ]);
+      assert.deepStrictEqual(result["Truncate Pipe Pipe"].body, [
+        "{{ ${1:value} | truncate:${2:maxLength} }}",
+      ]);
+      assert.deepStrictEqual(
+        result["Truncate Pipe Pipe (maxLength, mode)"].body,
+        ["{{ ${1:value} | truncate:${2:maxLength}:'${3|end,middle|}' }}"]
+      );
+    });
+
+    test("should use a value placeholder for a transform without parameters", () => {
+      const pipe: PipeInfo = {
+        kind: ArtifactKind.PIPE,
+        className: "NowPipe",
+        name: "now",
+        signatures: [[]],
+      };
+      assert.deepStrictEqual(createPipeSnippet(pipe)?.["Now Pipe Pipe"].body, [
+        "{{ ${1:value} | now }}",
+      ]);
+    });
+
     test("should return undefined for pipe without name", () => {
       const pipe: PipeInfo = {
         kind: ArtifactKind.PIPE,
@@ -16,7 +16,11 @@
 
 import assert from "node:assert";
 
-import { kebabToTitleCase, upperCaseFirstCharacter } from "../../strings";
+import {
+  kebabToTitleCase,
+  lowerCaseFirstCharacter,
+  upperCaseFirstCharacter,
+} from "../../strings";
 
 suite("strings", () => {
   suite("upperCaseFirstCharacter", () => {
@@ -38,6 +42,22 @@ suite("strings", () => {
     });
   });
 
+  suite("lowerCaseFirstCharacter", () => {
+    const cases: [string | undefined, string, string][] = [
+      ["Else", "else", "capitalized word"],
+      ["TrackBy", "trackBy", "pascal case"],
+      ["else", "else", "already lowercase"],
+      [undefined, "", "undefined input"],
+      ["", "", "empty string"],
+    ];
+
+    cases.forEach(([input, expected, description]) => {
+      test(`should handle ${description}`, () => {
+        assert.strictEqual(lowerCaseFirstCharacter(input), expected);
+      });
+    });
+  });
+
   suite("kebabToTitleCase", () => {
     const cases: [string | undefined, string, string][] = [
       ["fancy-button-menu", "Fancy Button Menu", "standard kebab case"],
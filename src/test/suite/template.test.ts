@@ -0,0 +1,63 @@
+﻿/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert";
+
+import { findContentSlots } from "../../template";
+
+suite("template", () => {
+  suite("findContentSlots", () => {
+    test("should find named and default slots in template order", () => {
+      const template = `
+        <header><ng-content select="[card-header]"></ng-content></header>
+        <ng-content></ng-content>
+        <footer><ng-content select='app-card-footer, .footer' /></footer>
+      `;
+      assert.deepStrictEqual(findContentSlots(template), [
+        "[card-header]",
+        "",
+        "app-card-footer, .footer",
+      ]);
+    });
+
+    test("should ignore slots inside comments", () => {
+      const template = `
+        <!-- <ng-content select="[old]"></ng-content> -->
+        <ng-content select=".body"></ng-content>
+      `;
+      assert.deepStrictEqual(findContentSlots(template), [".body"]);
+    });
+
+    test("should report repeated slots once", () => {
+      const template = `
+        @if (open) { <ng-content select="[slot]" /> } @else { <ng-content select="[slot]" /> }
+      `;
+      assert.deepStrictEqual(findContentSlots(template), ["[slot]"]);
+    });
+
+    test("should not treat other attributes as select", () => {
+      assert.deepStrictEqual(
+        findContentSlots('<ng-content ngProjectAs="x" data-select="y">'),
+        [""]
+      );
+    });
+
+    test("should return empty array for templates without slots", () => {
+      assert.deepStrictEqual(findContentSlots("<div></div>"), []);
+      assert.deepStrictEqual(findContentSlots(), []);
+    });
+  });
+});
@@ -14,7 +14,14 @@
  * limitations under the License.
  */
 
-import { ArtifactKind } from "./constants";
+import type ts from "typescript";
+
+import {
+  ArtifactKind,
+  DecoratorRole,
+  DefaultInputPlacement,
+  DeprecatedBindingHandling,
+} from "./constants";
 
 /**
  * Represents an Angular component's metadata extracted from source code.
@@ -30,6 +37,18 @@ export interface ComponentInfo {
   readonly inputs: readonly Property[];
   /** The component's @Output decorated properties. */
   readonly outputs: readonly Property[];
+  /** The static attributes the component reads with `@Attribute()` or `HostAttributeToken`. */
+  readonly attributes?: readonly Property[];
+  /** The `select` values of the template's `<ng-content>` slots; empty string for the default slot. */
+  readonly contentSlots?: readonly string[];
+  /** The names of the animation triggers declared in the component's `animations` metadata. */
+  readonly animationTriggers?: readonly string[];
+  /** The names of inputs paired with a `Change` output, bindable with `[(name)]`. */
+  readonly twoWayBindings?: readonly string[];
+  /** The names the component is exported as to template reference variables. */
+  readonly exportAs?: readonly string[];
+  /** The JSDoc comment on the component class. */
+  readonly description?: string;
 }
 
 /**
@@ -46,6 +65,18 @@ export interface DirectiveInfo {
   readonly inputs: readonly Property[];
   /** The directive's @Output decorated properties. */
   readonly outputs: readonly Property[];
+  /** The static attributes the directive reads with `@Attribute()` or `HostAttributeToken`. */
+  readonly attributes?: readonly Property[];
+  /** The names of inputs paired with a `Change` output, bindable with `[(name)]`. */
+  readonly twoWayBindings?: readonly string[];
+  /** The names the directive is exported as to template reference variables (e.g., `#menu="appDropdown"`). */
+  readonly exportAs?: readonly string[];
+  /** Whether the directive is structural, receiving a `TemplateRef` or declaring a context guard. */
+  readonly structural?: boolean;
+  /** The keys of a structural directive's template context (e.g., `$implicit`). */
+  readonly templateContext?: readonly string[];
+  /** The JSDoc comment on the directive class. */
+  readonly description?: string;
 }
 
 /**
@@ -58,6 +89,10 @@ export interface PipeInfo {
   readonly className: string;
   /** The pipe's name used in templates. */
   readonly name: string;
+  /** The parameter lists of the pipe's `transform()` method, one per overload. */
+  readonly signatures?: readonly PipeSignature[];
+  /** The JSDoc comment on the pipe class. */
+  readonly description?: string;
 }
 
 /**
@@ -73,6 +108,116 @@ export interface Property {
   readonly name: string;
   /** The property's TypeScript type. */
   readonly type: string | DataType | undefined;
+  /** Whether the binding must be provided by the consumer. */
+  readonly required?: boolean;
+  /** The name of the input's transform function (e.g., `booleanAttribute`). */
+  readonly transform?: string;
+  /** The JSDoc comment on the binding's class member. */
+  readonly description?: string;
+  /** The input's literal initial value as a template expression (e.g., `'md'`). */
+  readonly defaultValue?: string;
+  /** The literal values the input's type allows, resolved by the type checker. */
+  readonly choices?: readonly ChoiceValue[];
+  /** The note of the binding's `@deprecated` JSDoc tag, empty when the tag has no text. */
+  readonly deprecated?: string;
+}
+
+/**
+ * Represents a parameter of a pipe's `transform()` method.
+ */
+export interface PipeParameter {
+  /** The parameter name. */
+  readonly name: string;
+  /** The parameter's TypeScript type. */
+  readonly type: string;
+  /** Whether the parameter is optional or has a default value. */
+  readonly optional?: boolean;
+  /** The literal values the parameter's type allows. */
+  readonly choices?: readonly ChoiceValue[];
+}
+
+/** The parameters of one `transform()` signature, starting with the piped value. */
+export type PipeSignature = readonly PipeParameter[];
+
+/** A literal value offered as a snippet choice. */
+export type ChoiceValue = string | number | boolean;
+
+/**
+ * Represents an attribute constraint in an Angular selector.
+ */
+export interface SelectorAttribute {
+  /** The attribute name. */
+  readonly name: string;
+  /** The required attribute value, or empty string when any value matches. */
+  readonly value: string;
+}
+
+/**
+ * Represents a single alternative of a parsed Angular selector.
+ */
+export interface CssSelector {
+  /** The element name, or empty string when any element matches. */
+  readonly element: string;
+  /** The attributes the element must have. */
+  readonly attributes: readonly SelectorAttribute[];
+  /** The CSS classes the element must have. */
+  readonly classNames: readonly string[];
+  /** Selectors the element must not match. */
+  readonly notSelectors: readonly CssSelector[];
+}
+
+/**
+ * Reads a file's contents, returning an empty string when it cannot be read.
+ */
+export type FileReader = (filePath: string) => string;
+
+/**
+ * Parses a file's contents into a source file, or returns undefined for empty contents.
+ */
+export type SourceFileLoader = (
+  contents: string,
+  filePath: string
+) => ts.SourceFile | undefined;
+
+/**
+ * Reports whether the user asked to cancel an operation; `vscode.CancellationToken` satisfies it.
+ */
+export interface CancellationSignal {
+  /** Whether cancellation was requested. */
+  readonly isCancellationRequested: boolean;
+}
+
+/**
+ * Source context used to resolve declarations imported from other files.
+ */
+export interface ParseContext {
+  /** The path of the file being parsed. */
+  readonly filePath: string;
+  /** Reads the contents of related source files. */
+  readonly readFile: FileReader;
+  /** The program used to resolve types with the type checker, if enabled. */
+  readonly program?: ts.Program;
+  /** Parses the file and related source files, reusing files parsed earlier in the scan. */
+  readonly loadSourceFile?: SourceFileLoader;
+  /** Custom decorators treated as the Angular decorators they forward to. */
+  readonly customDecorators?: CustomDecorators;
+}
+
+/** Maps custom decorator names to the Angular role they forward to (e.g., `{ DsComponent: "component" }`). */
+export type CustomDecorators = Readonly<Record<string, DecoratorRole>>;
+
+/**
+ * Options controlling how snippets are generated.
+ */
+export interface SnippetOptions {
+  /** Where inputs that declare a default value are placed in snippet bodies. */
+  readonly inputsWithDefaults?: DefaultInputPlacement;
+  /** Whether to also emit a variant with separate input and output bindings for two-way bindings. */
+  readonly splitBindingVariant?: boolean;
+  /** Whether bindings marked `@deprecated` are summarized with a warning or left out. */
+  readonly deprecatedBindings?: DeprecatedBindingHandling;
+  /** Glob patterns of the files component-scoped snippets, such as animation bindings, are offered in. */
+  readonly include?: readonly string[];
 }
 
 /**
@@ -84,6 +229,7 @@ export interface Snippet {
     readonly description: string;
     readonly prefix: readonly string[];
     readonly scope: string;
+    readonly include?: readonly string[];
   };
 }
 
@@ -106,6 +252,43 @@ export enum DecoratorType {
   PIPE = "Pipe",
   INPUT = "Input",
   OUTPUT = "Output",
+  ATTRIBUTE = "Attribute",
+}
+
+/**
+ * JSDoc block tags that control how declarations appear in generated snippets.
+ */
+export enum DocTag {
+  DEPRECATED = "deprecated",
+  INTERNAL = "internal",
+  SNIPPET_IGNORE = "snippet-ignore",
+}
+
+/**
+ * Ivy declaration types the Angular compiler emits on classes in `.d.ts` files.
+ */
+export enum IvyDeclarationType {
+  COMPONENT = "ɵɵComponentDeclaration",
+  DIRECTIVE = "ɵɵDirectiveDeclaration",
+  PIPE = "ɵɵPipeDeclaration",
+}
+
+/**
+ * Angular signal-based binding functions supported by the parser.
+ */
+export enum SignalFunction {
+  INPUT = "input",
+  MODEL = "model",
+  OUTPUT = "output",
+  OUTPUT_FROM_OBSERVABLE = "outputFromObservable",
+}
+
+/**
+ * Angular built-in input transform functions with dedicated snippet placeholders.
+ */
+export enum AttributeTransform {
+  BOOLEAN = "booleanAttribute",
+  NUMBER = "numberAttribute",
 }
 
 /**
@@ -123,11 +306,83 @@ export enum DataType {
 /** The property name used for component selectors in Angular decorators. */
 export const SELECTOR_PROPERTY = "selector";
 
+/** The property name used for template reference export names in Angular decorators. */
+export const EXPORT_AS_PROPERTY = "exportAs";
+
+/** The property name used for animation triggers in component metadata. */
+export const ANIMATIONS_PROPERTY = "animations";
+
+/** The property name used for inline component templates. */
+export const TEMPLATE_PROPERTY = "template";
+
+/** The property name used for external component template paths. */
+export const TEMPLATE_URL_PROPERTY = "templateUrl";
+
 /** The property name used for pipe names in Angular decorators. */
 export const NAME_PROPERTY = "name";
 
+/** The property name used for input bindings in Angular decorator metadata. */
+export const INPUTS_PROPERTY = "inputs";
+
+/** The property name used for output bindings in Angular decorator metadata. */
+export const OUTPUTS_PROPERTY = "outputs";
+
+/** The property name used for host directives in Angular decorator metadata. */
+export const HOST_DIRECTIVES_PROPERTY = "hostDirectives";
+
+/** The property name used for the directive class of a host directive entry. */
+export const DIRECTIVE_PROPERTY = "directive";
+
+/** The property name used for required bindings in Angular options objects. */
+export const REQUIRED_PROPERTY = "required";
+
+/** The property name used for input transforms in Angular options objects. */
+export const TRANSFORM_PROPERTY = "transform";
+
+/** The property name used for binding aliases in Angular options objects. */
+export const ALIAS_PROPERTY = "alias";
+
+/** The property name used for optional injections in `inject()` options objects. */
+export const OPTIONAL_PROPERTY = "optional";
+
+/** The member name used for required signal bindings (e.g., `input.required()`). */
+export const REQUIRED_MEMBER = "required";
+
+/** Suffix Angular appends to an input's name to form its two-way binding change output. */
+export const MODEL_CHANGE_SUFFIX = "Change";
+
 /** Default data type when type cannot be determined. */
 export const DEFAULT_DATA_TYPE = DataType.ANY;
 
+/** Module specifier of the Angular core package. */
+export const ANGULAR_CORE_MODULE = "@angular/core";
+
+/** Module specifier of Angular's RxJS interop package, which exports `outputFromObservable()`. */
+export const ANGULAR_RXJS_INTEROP_MODULE = "@angular/core/rxjs-interop";
+
+/** Module specifier of the Angular animations package. */
+export const ANGULAR_ANIMATIONS_MODULE = "@angular/animations";
+
+/** Name of the method that implements a pipe. */
+export const TRANSFORM_METHOD = "transform";
+
 /** Type name for Angular's EventEmitter class. */
 export const EVENT_EMITTER_TYPE = "EventEmitter";
+
+/** Type name for Angular's TemplateRef class, injected by structural directives. */
+export const TEMPLATE_REF_TYPE = "TemplateRef";
+
+/** Type name for Angular's HostAttributeToken class, injected to read a static host attribute. */
+export const HOST_ATTRIBUTE_TOKEN = "HostAttributeToken";
+
+/** Name of the `@angular/animations` function that declares an animation trigger. */
+export const TRIGGER_FUNCTION = "trigger";
+
+/** Name of Angular's `inject()` dependency injection function. */
+export const INJECT_FUNCTION = "inject";
+
+/** Name of the static method structural directives use to type their template context. */
+export const TEMPLATE_CONTEXT_GUARD = "ngTemplateContextGuard";
+
+/** Template context key bound by a `let-` variable without a value. */
+export const IMPLICIT_CONTEXT_KEY = "$implicit";